@@ -1,11 +1,55 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { PANDIT_CONTACTS } from './constants';
-import { Contact, ClientEntry, ViewState, BackgroundImage } from './types';
+import { Contact, ClientEntry, ClientRevision, DayClose, PaymentTransaction, Person, TimeSlot, ViewState, BackgroundImage } from './types';
 import { generateRitualPlan, findMatchingFace } from './services/geminiService';
 import { dbService } from './services/db';
+import { applyRevision, isPaymentField } from './services/history';
+import { linkUnassignedVisits, pilgrimFromEntry, refreshProfile, findPilgrimsByPhone, visitsOf, loadVisits } from './services/pilgrims';
+import { migrateLegacyPayment, fromDateInputValue, formatINR, totalPaid, outstandingBalance, PAYMENT_MODE_LABELS, PAYMENT_TYPE_LABELS } from './services/payments';
 import SignaturePad from './components/SignaturePad';
 import CameraCapture from './components/CameraCapture';
-import { HomeIcon, PlusIcon, ClipboardIcon, PhoneIcon, SparklesIcon, ImagePlusIcon, PrintIcon, DownloadIcon, CameraIcon, FaceScanIcon, CheckIcon, SearchIcon, CalendarIcon, RefreshCcwIcon, TrashIcon, XIcon, AlertTriangleIcon } from './components/Icons';
+import PaymentsEditor from './components/PaymentsEditor';
+import PersonPicker from './components/PersonPicker';
+import VanshavaliView from './components/VanshavaliView';
+import ClientDetailView from './components/ClientDetailView';
+import BackupModal from './components/BackupModal';
+import SyncModal, { useSyncStatus, STATUS_LABELS } from './components/SyncModal';
+import { startSync, scheduleSync } from './services/sync';
+import PanditSelectModal from './components/PanditSelectModal';
+import { shareOrDownload } from './services/share';
+import { getActivePanditId, setActivePanditId, findPandit, panditName, involvesPandit } from './services/pandits';
+import { Permission, loadSecurity, saveSecurity, isLockEnabled, roleOf, can } from './services/access';
+import LockScreen from './components/LockScreen';
+import SecurityModal from './components/SecurityModal';
+import ReceiptFormatModal from './components/ReceiptFormatModal';
+import RitualCatalogModal from './components/RitualCatalogModal';
+import { findRitual, formatDuration, loadRituals, refreshRituals, replaceRitualInPlan } from './services/rituals';
+import QrScanModal from './components/QrScanModal';
+import QrCode from './components/QrCode';
+import MessageModal from './components/MessageModal';
+import LedgerExportModal from './components/LedgerExportModal';
+import LedgerImportModal from './components/LedgerImportModal';
+import { saveImportedEntries } from './services/ledgerTransfer';
+import TrashView from './components/TrashView';
+import StorageView from './components/StorageView';
+import ReportsView from './components/ReportsView';
+import DayCloseView from './components/DayCloseView';
+import DuesView from './components/DuesView';
+import { loadDueReminders } from './services/dues';
+import CalendarView from './components/CalendarView';
+import PanchangInfo from './components/PanchangInfo';
+import AuspiciousDays from './components/AuspiciousDays';
+import { TIME_SLOTS, findConflicts, formatDay, loadBookings, slotLabel } from './services/calendar';
+import { closedDays, dayLabel, dayOf, isPaymentLocked, lockedDaysTouched } from './services/cashbook';
+import { runRetentionIfDue, isStoragePersisted, requestPersistentStorage, deleteOldRecords } from './services/storage';
+import { loadTrashRetentionDays } from './services/trash';
+import { generateReceiptCode, nextCodeFrom, ensureUniqueCode, looksLikeCode, hasValidCheckDigit, isCheckableCode, suggestReceiptCodes } from './services/receipts';
+import { isQrScanSupported } from './services/qr';
+import { persistEntryMedia, migrateInlineMedia, blobToDataUrl } from './services/media';
+import MediaImage from './components/MediaImage';
+import VirtualList from './components/VirtualList';
+import { LEDGER_PAGE_SIZE, LedgerFilter, LedgerPosition, LedgerRow, LedgerSummary, ledgerSections, loadLedgerRows, summarizeLedger, summarizeMemory, loadAllMatching, ledgerRowsFromMemory, matchesLedgerFilter } from './services/ledger';
+import { HomeIcon, PlusIcon, ClipboardIcon, PhoneIcon, SparklesIcon, ImagePlusIcon, PrintIcon, DownloadIcon, CameraIcon, FaceScanIcon, CheckIcon, SearchIcon, CalendarIcon, RefreshCcwIcon, TrashIcon, XIcon, AlertTriangleIcon, PencilIcon, HistoryIcon, FamilyTreeIcon, ArchiveIcon, CloudIcon, CloudOffIcon, HardDriveIcon, QrCodeIcon, ShareIcon, MessageIcon, UploadIcon, ChartIcon, WalletIcon } from './components/Icons';
 
 // Helper to detect storage quota errors across browsers
 const isQuotaError = (e: any) => {
@@ -33,8 +77,21 @@ interface ConfirmationState {
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('home');
-  const [entries, setEntries] = useState<ClientEntry[]>([]);
+  // Views read records from the database themselves; this is bumped after every change so they reload
+  const [revision, setRevision] = useState(0);
+  // The LocalStorage copy, only used while the database is unavailable
+  const [offlineEntries, setOfflineEntries] = useState<ClientEntry[]>([]);
   const [loadingEntries, setLoadingEntries] = useState(true);
+  // Payment follow-ups shown on the home screen
+  const [reminders, setReminders] = useState<ClientEntry[]>([]);
+
+  // Vanshavali (family register)
+  const [people, setPeople] = useState<Person[]>([]);
+  const [focusPersonId, setFocusPersonId] = useState<string | null>(null);
+
+  // Pilgrim profile screen, and the pilgrim a new visit is being added for
+  const [detailPersonId, setDetailPersonId] = useState<string | null>(null);
+  const [visitPerson, setVisitPerson] = useState<Person | null>(null);
   
   const [bgImages, setBgImages] = useState<BackgroundImage[]>([]);
   const [currentBgIndex, setCurrentBgIndex] = useState(0);
@@ -47,25 +104,95 @@ const App: React.FC = () => {
   const [showStorageModal, setShowStorageModal] = useState(false);
   const [failedEntry, setFailedEntry] = useState<ClientEntry | null>(null);
 
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+
+  // Family member using this phone; asked for at first start
+  const [activePanditId, setActivePanditIdState] = useState<string | null>(getActivePanditId());
+  const [showPanditSelect, setShowPanditSelect] = useState(false);
+  const activePandit = findPandit(activePanditId || undefined);
+
+  // App lock and the active member's permissions
+  const [security, setSecurity] = useState(loadSecurity);
+  const lockEnabled = isLockEnabled(security);
+  const [locked, setLocked] = useState(lockEnabled);
+  const [unlockAs, setUnlockAs] = useState<string | null>(null);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showReceiptFormat, setShowReceiptFormat] = useState(false);
+  const [showRituals, setShowRituals] = useState(false);
+  // Receipt QR scanning; a code without a single matching record opens in the ledger search
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanMessage, setScanMessage] = useState<string | null>(null);
+  const [ledgerSearch, setLedgerSearch] = useState<{ text: string } | null>(null);
+  const [receiptEntry, setReceiptEntry] = useState<ClientEntry | null>(null);
+  const [messageEntry, setMessageEntry] = useState<ClientEntry | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  // Closed days of the cash book; their payments are locked
+  const [dayCloses, setDayCloses] = useState<DayClose[]>([]);
+  const lockedDays = closedDays(dayCloses);
+  const lastActivityRef = useRef(Date.now());
+  const canDo = (permission: Permission) => can(roleOf(security, activePanditId), permission);
+  const syncStatus = useSyncStatus();
+
+  // Record currently open in the edit form (null = new record)
+  const [editingEntry, setEditingEntry] = useState<ClientEntry | null>(null);
+  // Day picked in the calendar for a new booking
+  const [newBookingDate, setNewBookingDate] = useState<string | null>(null);
+
   // Load entries and backgrounds from IndexedDB or LocalStorage on mount
   useEffect(() => {
     const loadData = async () => {
       try {
-        // Try DB First for Clients
-        const data = await dbService.getAllClients();
-        setEntries(data);
+        // Visits recorded before pilgrim profiles existed (this also checks the database is there)
+        const unlinked: ClientEntry[] = [];
+        await dbService.scanClients({}, null, entry => {
+          if (!entry.personId) unlinked.push(entry);
+        });
+
+        // Load Family Register
+        let register = await dbService.getAllPeople();
+
+        // Attach those visits to profiles
+        const { linkedEntries, newPeople } = linkUnassignedVisits(unlinked, register);
+        if (linkedEntries.length > 0) {
+          try {
+            await dbService.savePeople(newPeople);
+            await dbService.saveClients(linkedEntries);
+            register = [...register, ...newPeople];
+          } catch (linkErr) {
+            console.warn("Could not link visits to pilgrim profiles", linkErr);
+          }
+        }
+        setPeople(register);
+        setDayCloses(await dbService.getDayCloses());
+        await refreshRituals();
         
         // Load Backgrounds
         const bgs = await dbService.getAllBackgrounds();
         setBgImages(bgs);
 
+        // Recycle bin housekeeping
+        dbService.purgeExpiredTrash(loadTrashRetentionDays())
+          .catch(purgeErr => console.warn("Could not purge the recycle bin", purgeErr));
+
+        // Move images still stored inside records into the media store
+        try {
+          if (await migrateInlineMedia()) {
+            refreshData();
+            setPeople(await dbService.getAllPeople());
+          }
+          await dbService.deleteOrphanMedia();
+        } catch (mediaErr) {
+          console.warn("Could not convert stored images", mediaErr);
+        }
+
       } catch (err) {
         console.warn("IndexedDB unavailable, checking LocalStorage fallback...");
         try {
           // Fallback to LocalStorage
           const localData = localStorage.getItem('yatra_entries_backup');
           if (localData) {
-            setEntries(JSON.parse(localData));
+            setOfflineEntries(JSON.parse(localData).map(migrateLegacyPayment));
           }
         } catch (lsErr) {
           console.error("Critical: Storage unavailable", lsErr);
@@ -77,6 +204,70 @@ const App: React.FC = () => {
     loadData();
   }, []);
 
+  // Background sync with the other phones (does nothing until enabled in settings)
+  useEffect(() => startSync(async () => {
+    try {
+      await refreshRituals();
+      refreshData();
+      setPeople(await dbService.getAllPeople());
+      setDayCloses(await dbService.getDayCloses());
+    } catch (err) {
+      console.warn("Could not reload synced records", err);
+    }
+  }), []);
+
+  useEffect(() => {
+    if (view !== 'home' || loadingEntries) return;
+    let cancelled = false;
+    loadDueReminders()
+      .then(result => { if (!cancelled) setReminders(result); })
+      .catch(err => console.warn("Could not load payment follow-ups", err));
+    return () => { cancelled = true; };
+  }, [view, revision, loadingEntries]);
+
+  // Scheduled storage clean-up (the policy itself limits it to once a day)
+  useEffect(() => {
+    if (loadingEntries) return;
+    isStoragePersisted().then(persisted => { if (!persisted) requestPersistentStorage(); });
+
+    const runRetention = async () => {
+      try {
+        // Read when it runs, since the member on the phone may have changed since the app started
+        const result = await runRetentionIfDue(getActivePanditId() || undefined);
+        if (result && (result.photos > 0 || result.records > 0)) handleStorageCleaned();
+      } catch (err) {
+        console.warn("Scheduled clean-up failed", err);
+      }
+    };
+    runRetention();
+    const interval = setInterval(runRetention, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [loadingEntries]);
+
+  // Auto-lock after a period without touches or key presses (also while the app is in the background)
+  useEffect(() => {
+    if (!lockEnabled || locked) return;
+    lastActivityRef.current = Date.now();
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const checkIdle = () => {
+      if (Date.now() - lastActivityRef.current >= security.autoLockMinutes * 60 * 1000) {
+        setUnlockAs(null);
+        setLocked(true);
+      }
+    };
+
+    window.addEventListener('pointerdown', markActive);
+    window.addEventListener('keydown', markActive);
+    document.addEventListener('visibilitychange', checkIdle);
+    const interval = setInterval(checkIdle, 15000);
+    return () => {
+      window.removeEventListener('pointerdown', markActive);
+      window.removeEventListener('keydown', markActive);
+      document.removeEventListener('visibilitychange', checkIdle);
+      clearInterval(interval);
+    };
+  }, [lockEnabled, locked, security.autoLockMinutes]);
+
   // Slideshow
   useEffect(() => {
     if (bgImages.length > 1) {
@@ -139,6 +330,7 @@ const App: React.FC = () => {
   };
 
   const handleClearBackgrounds = async () => {
+    if (!canDo('manageStorage')) return;
     requestConfirm(
       "Clear Backgrounds",
       "Are you sure you want to remove all custom background photos? This cannot be undone.",
@@ -157,22 +349,129 @@ const App: React.FC = () => {
     );
   };
 
-  // Called when storage modal actions resolve
-  const refreshData = async () => {
-      const data = await dbService.getAllClients();
-      setEntries(data);
+  // Called whenever records changed in the database
+  const refreshData = () => setRevision(prev => prev + 1);
+
+  // Clean-up removes photos and records, which the other phones have to hear about
+  const handleStorageCleaned = () => {
+    refreshData();
+    scheduleSync();
   };
 
-  const handleSaveEntry = async (newEntry: ClientEntry): Promise<boolean> => {
+  // Called after a backup was restored into the database
+  const reloadAfterRestore = async () => {
+      refreshData();
+      setPeople(await dbService.getAllPeople());
+      setBgImages(await dbService.getAllBackgrounds());
+      setDayCloses(await dbService.getDayCloses());
+      await refreshRituals();
+      setCurrentBgIndex(0);
+      scheduleSync();
+  };
+
+  // Stored copy of a record, from LocalStorage while the database is unavailable
+  const findStoredEntry = async (id: number): Promise<ClientEntry | undefined> => {
+    try {
+      return await dbService.getClient(id);
+    } catch (err) {
+      return offlineEntries.find(e => e.id === id);
+    }
+  };
+
+  const handleSelectPandit = (id: string) => {
+    setShowPanditSelect(false);
+    // With the lock on, switching member needs that member's PIN
+    if (lockEnabled && id !== activePanditId) {
+      setUnlockAs(id);
+      setLocked(true);
+      return;
+    }
+    setActivePanditId(id);
+    setActivePanditIdState(id);
+  };
+
+  const handleUnlock = (id: string) => {
+    setActivePanditId(id);
+    setActivePanditIdState(id);
+    setLocked(false);
+  };
+
+  const handleLockNow = () => {
+    setShowPanditSelect(false);
+    setUnlockAs(activePanditId);
+    setLocked(true);
+  };
+
+  const handleSaveSecurity = (next: typeof security) => {
+    try {
+      saveSecurity(next);
+      setSecurity(next);
+    } catch (e) {
+      alert("Could not save security settings.");
+    }
+  };
+
+  // 'skipMedia' is the storage-full retry: new captures stay inline instead of going to the media store
+  const handleSaveEntry = async (submitted: ClientEntry, skipMedia: boolean = false): Promise<boolean> => {
+    let newEntry = submitted;
+
+    // Closed days keep the totals they were counted with
+    const existing = await findStoredEntry(submitted.id);
+    const touchedDays = lockedDaysTouched(existing?.payments || [], submitted.payments, lockedDays);
+    if (touchedDays.length > 0) {
+      alert(`The cash book is closed for ${touchedDays.map(dayLabel).join(', ')}. Payments on that day cannot be added, changed or removed; record a correction on today's date instead.`);
+      return false;
+    }
+
+    // New captures go to the media store; the record only keeps their ids
+    try {
+      if (!skipMedia) newEntry = await persistEntryMedia(newEntry);
+    } catch (err: any) {
+      if (isQuotaError(err) || err.message?.toLowerCase().includes('quota')) {
+        setFailedEntry(submitted);
+        setShowStorageModal(true);
+        return false;
+      }
+      // Keep the images inline; the save below falls back if the database is unavailable
+      console.warn("Could not store images", err);
+    }
+
+    // New records are registered in the name of whoever is using the phone
+    if (!existing && activePanditId) {
+      newEntry = { ...newEntry, registeredBy: activePanditId };
+    }
+
+    // Every visit belongs to a pilgrim profile; create one for first-time visitors
+    const linkedPerson = submitted.personId ? people.find(p => p.id === submitted.personId) : undefined;
+    const profileUpdate = linkedPerson ? refreshProfile(linkedPerson, newEntry) : pilgrimFromEntry(newEntry);
+    if (profileUpdate) {
+      try {
+        await dbService.savePeople([profileUpdate]);
+        mergePeople([profileUpdate]);
+        if (!linkedPerson) newEntry = { ...newEntry, personId: profileUpdate.id };
+      } catch (err) {
+        // The visit is still saved; it gets linked on a later load
+        console.warn("Could not update pilgrim profile", err);
+      }
+    }
+
+    if (existing) {
+      const revised = applyRevision(existing, newEntry);
+      if (!revised) return true; // Nothing changed
+      newEntry = revised;
+    }
+
     try {
       // 1. Try IndexedDB (Best for Photos)
       await dbService.saveClient(newEntry);
-      setEntries(prev => [newEntry, ...prev]);
+      refreshData();
+      scheduleSync();
       return true;
     } catch (err: any) {
       // Check for quota error in IDB or Fallback
       if (isQuotaError(err) || err.message?.toLowerCase().includes('quota')) {
-        setFailedEntry(newEntry);
+        // The retry starts from the submission again, linked to the profile made above
+        setFailedEntry({ ...submitted, personId: newEntry.personId });
         setShowStorageModal(true);
         return false; // Stop here, modal will handle resolution
       }
@@ -182,15 +481,15 @@ const App: React.FC = () => {
       try {
         // 2. Fallback: LocalStorage
         const currentData = JSON.parse(localStorage.getItem('yatra_entries_backup') || '[]');
-        const updatedData = [newEntry, ...currentData];
+        const updatedData = [newEntry, ...currentData.filter((e: ClientEntry) => e.id !== newEntry.id)];
         localStorage.setItem('yatra_entries_backup', JSON.stringify(updatedData));
-        setEntries(prev => [newEntry, ...prev]);
+        setOfflineEntries(prev => [newEntry, ...prev.filter(e => e.id !== newEntry.id)]);
         alert("⚠️ Saved to Local Backup (Database unavailable).");
         return true;
       } catch (lsErr: any) {
          // 3. Catch Quota Error in LocalStorage too
          if (isQuotaError(lsErr) || lsErr.message?.toLowerCase().includes('quota')) {
-            setFailedEntry(newEntry);
+            setFailedEntry({ ...submitted, personId: newEntry.personId });
             setShowStorageModal(true);
             return false;
          }
@@ -201,12 +500,18 @@ const App: React.FC = () => {
   };
 
   const handleDeleteEntry = async (id: number) => {
+    if (!canDo('delete')) return;
+    const target = await findStoredEntry(id);
+    if (target?.payments.some(p => isPaymentLocked(p, lockedDays))) {
+      alert("This record has payments on a day whose cash book is closed, so it cannot be deleted.");
+      return;
+    }
     requestConfirm(
       "Delete Record",
-      "Are you sure you want to delete this record permanently?",
+      `Move this record to the Recycle Bin? It can be restored for ${loadTrashRetentionDays()} days.`,
       async () => {
         try {
-          await dbService.deleteClient(id);
+          await dbService.deleteClient(id, activePanditId || undefined);
           
           try {
              const localData = JSON.parse(localStorage.getItem('yatra_entries_backup') || '[]');
@@ -214,7 +519,8 @@ const App: React.FC = () => {
              localStorage.setItem('yatra_entries_backup', JSON.stringify(newLocalData));
           } catch(e) {}
 
-          setEntries(prev => prev.filter(e => e.id !== id));
+          refreshData();
+          scheduleSync();
           closeConfirm();
         } catch (e) {
           alert("Error deleting record");
@@ -225,7 +531,150 @@ const App: React.FC = () => {
     );
   };
 
+  const mergePeople = (updated: Person[]) => {
+    setPeople(prev => {
+      const byId = new Map(prev.map(p => [p.id, p]));
+      updated.forEach(p => byId.set(p.id, p));
+      return Array.from(byId.values());
+    });
+  };
+
+  const handleSavePeople = async (updated: Person[]): Promise<boolean> => {
+    try {
+      await dbService.savePeople(updated);
+      mergePeople(updated);
+      scheduleSync();
+      return true;
+    } catch (err: any) {
+      console.error("Error saving family register", err);
+      alert(isQuotaError(err) ? "Storage full! Cannot update the family register." : "❌ Error saving family register: " + err.message);
+      return false;
+    }
+  };
+
+  const handleImportEntries = async (imported: ClientEntry[]): Promise<boolean> => {
+    // The rows were checked against closed days, but a day may have been closed since
+    const lockedRecord = imported.find(e => e.payments.some(p => isPaymentLocked(p, lockedDays)));
+    if (lockedRecord) {
+      const payment = lockedRecord.payments.find(p => isPaymentLocked(p, lockedDays))!;
+      alert(`⚠️ ${lockedRecord.clientName} has a payment on ${dayLabel(dayOf(payment.date))}, which is closed in the cash book. Nothing was imported.`);
+      return false;
+    }
+    try {
+      await saveImportedEntries(imported, people);
+      refreshData();
+      setPeople(await dbService.getAllPeople());
+      scheduleSync();
+      alert(`✅ Imported ${imported.length} record(s).`);
+      return true;
+    } catch (err: any) {
+      console.error("Error importing records", err);
+      alert(isQuotaError(err) ? "Storage full! Nothing was imported." : "❌ Import failed, nothing was saved: " + err.message);
+      return false;
+    }
+  };
+
+  const handleCloseDay = async (close: DayClose): Promise<boolean> => {
+    if (!canDo('closeDay')) return false;
+    try {
+      await dbService.saveDayClose(close);
+      setDayCloses(prev => [...prev.filter(c => c.id !== close.id), close]);
+      scheduleSync();
+      return true;
+    } catch (err: any) {
+      console.error("Error closing the day", err);
+      alert(isQuotaError(err) ? "Storage full! The day was not closed." : "❌ Could not close the day: " + err.message);
+      return false;
+    }
+  };
+
+  const handleOpenClient = (personId: string) => {
+    setDetailPersonId(personId);
+    setView('client_detail');
+  };
+
+  const handleScannedCode = async (text: string) => {
+    const code = text.trim();
+    let matches: ClientEntry[];
+    try {
+      matches = await dbService.getClientsByCode(code);
+      if (matches.length === 0 && code !== code.toUpperCase()) matches = await dbService.getClientsByCode(code.toUpperCase());
+    } catch (err) {
+      console.warn("Code lookup failed, using the LocalStorage copy", err);
+      matches = offlineEntries.filter(e => e.uniqueCode.toUpperCase() === code.toUpperCase());
+    }
+
+    if (matches.length === 0) {
+      setScanMessage(`No record with code ${code}. Keep scanning or close to search by hand.`);
+      return;
+    }
+    setShowScanner(false);
+    setScanMessage(null);
+    if (matches.length === 1 && matches[0].personId) {
+      handleOpenClient(matches[0].personId);
+    } else {
+      setLedgerSearch({ text: matches[0].uniqueCode });
+      setView('ledger');
+    }
+  };
+
+  // A scanned search only applies to the ledger visit it opened
+  useEffect(() => {
+    if (view !== 'ledger') setLedgerSearch(null);
+  }, [view]);
+
+  // Phones without a camera get no scan buttons
+  const qrScanSupported = isQrScanSupported();
+  const openScanner = () => {
+    setScanMessage(null);
+    setShowScanner(true);
+  };
+
+  const handleNewVisit = (person: Person) => {
+    setEditingEntry(null);
+    setNewBookingDate(null);
+    setVisitPerson(person);
+    setView('add_client');
+  };
+
+  const handleOpenFamily = (personId: string) => {
+    setFocusPersonId(personId);
+    setView('vanshavali');
+  };
+
+  const handleEditEntry = (entry: ClientEntry) => {
+    if (!canDo('edit')) return;
+    setEditingEntry(entry);
+    setView('add_client');
+  };
+
+  const handleTrashRestored = () => {
+    refreshData();
+    scheduleSync();
+  };
+
+  const handleNewEntry = () => {
+    setEditingEntry(null);
+    setVisitPerson(null);
+    setNewBookingDate(null);
+    setView('add_client');
+  };
+
+  const handleNewBooking = (date: string) => {
+    setEditingEntry(null);
+    setVisitPerson(null);
+    setNewBookingDate(date);
+    setView('add_client');
+  };
+
+  // Bookings open in the edit form for members who may edit, otherwise on the pilgrim's page
+  const handleOpenBooking = (entry: ClientEntry) => {
+    if (canDo('edit')) handleEditEntry(entry);
+    else if (entry.personId) handleOpenClient(entry.personId);
+  };
+
   const hasBg = bgImages.length > 0;
+  const detailPerson = detailPersonId ? people.find(p => p.id === detailPersonId) : undefined;
 
   return (
     <div className="h-full flex flex-col relative overflow-hidden">
@@ -257,6 +706,15 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+             {activePandit && (
+               <button
+                 onClick={() => setShowPanditSelect(true)}
+                 className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-bold shadow-sm active:scale-95 transition-all ${activePandit.colorClass}`}
+                 title={`Using as ${activePandit.name}`}
+               >
+                 {activePandit.initial}
+               </button>
+             )}
              <button 
                onClick={() => setView('face_search')}
                className="p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-indigo-100"
@@ -264,7 +722,16 @@ const App: React.FC = () => {
              >
                <FaceScanIcon className="w-6 h-6" />
              </button>
-             {hasBg && (
+             {qrScanSupported && (
+               <button 
+                 onClick={openScanner}
+                 className="p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-indigo-100"
+                 title="Scan Receipt"
+               >
+                 <QrCodeIcon className="w-6 h-6" />
+               </button>
+             )}
+             {hasBg && canDo('manageStorage') && (
                <button 
                  onClick={handleClearBackgrounds}
                  className="p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-red-200"
@@ -273,6 +740,40 @@ const App: React.FC = () => {
                  <TrashIcon className="w-6 h-6" />
                </button>
              )}
+             {/* Everyone sees the sync state; only members who manage settings may change the server */}
+             <button 
+               onClick={() => setShowSync(true)}
+               disabled={!canDo('manageSettings')}
+               className="relative p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-indigo-100 disabled:hover:bg-transparent disabled:active:scale-100"
+               title={STATUS_LABELS[syncStatus.state]}
+             >
+               {syncStatus.state === 'offline' || syncStatus.state === 'error'
+                 ? <CloudOffIcon className={`w-6 h-6 ${syncStatus.state === 'error' ? 'text-red-300' : ''}`} />
+                 : <CloudIcon className={`w-6 h-6 ${syncStatus.state === 'syncing' ? 'animate-pulse' : ''} ${syncStatus.state === 'disabled' ? 'opacity-50' : ''}`} />}
+               {syncStatus.state !== 'disabled' && syncStatus.pending > 0 && (
+                 <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-orange-500 text-white text-[10px] font-bold flex items-center justify-center">
+                   {syncStatus.pending > 99 ? '99+' : syncStatus.pending}
+                 </span>
+               )}
+             </button>
+             {canDo('manageStorage') && (
+               <button 
+                 onClick={() => setView('storage')}
+                 className="p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-indigo-100"
+                 title="Storage"
+               >
+                 <HardDriveIcon className="w-6 h-6" />
+               </button>
+             )}
+             {canDo('viewPayments') && (
+               <button 
+                 onClick={() => setShowBackup(true)}
+                 className="p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-indigo-100"
+                 title="Backup & Restore"
+               >
+                 <ArchiveIcon className="w-6 h-6" />
+               </button>
+             )}
              <button 
                onClick={() => fileInputRef.current?.click()}
                className="p-2 rounded-full hover:bg-white/10 active:scale-95 transition-all text-indigo-100"
@@ -295,18 +796,104 @@ const App: React.FC = () => {
       {/* Main Content Area */}
       <main className="flex-grow overflow-y-auto no-scrollbar scroll-smooth">
         <div className="max-w-lg mx-auto p-4 pb-24 min-h-full md:max-w-2xl print:max-w-none print:p-0 print:h-auto print:overflow-visible">
-          {view === 'home' && <HomeView contacts={PANDIT_CONTACTS} hasBg={hasBg} setView={setView} />}
+          {view === 'home' && <HomeView contacts={PANDIT_CONTACTS} hasBg={hasBg} setView={setView} onScan={qrScanSupported ? openScanner : undefined} reminders={canDo('viewPayments') ? reminders : []} onOpenDues={canDo('viewPayments') ? () => setView('dues') : undefined} onBookDay={handleNewBooking} />}
           {view === 'add_client' && (
              <AddClientView 
+               key={editingEntry ? editingEntry.id : visitPerson ? visitPerson.id : newBookingDate || 'new'}
+               initialEntry={editingEntry || undefined}
+               pilgrim={visitPerson || undefined}
                onSave={handleSaveEntry} 
-               onSuccess={() => setView('ledger')} 
+               onSuccess={() => { setEditingEntry(null); setVisitPerson(null); setView(newBookingDate ? 'calendar' : 'ledger'); setNewBookingDate(null); }} 
                hasBg={hasBg}
                requestConfirm={requestConfirm}
                closeConfirm={closeConfirm}
+               people={people}
+               offlineEntries={offlineEntries}
+               onSavePeople={handleSavePeople}
+               activePanditId={activePanditId}
+               showPayments={canDo('viewPayments')}
+               lockedDays={lockedDays}
+               scheduleFor={newBookingDate ? { date: newBookingDate } : undefined}
              />
           )}
-          {view === 'ledger' && <LedgerView entries={entries} loading={loadingEntries} hasBg={hasBg} onDelete={handleDeleteEntry} />}
-          {view === 'face_search' && <FaceSearchView entries={entries} hasBg={hasBg} />}
+          {view === 'ledger' && <LedgerView refreshKey={revision} offlineEntries={offlineEntries} loading={loadingEntries} hasBg={hasBg} onDelete={handleDeleteEntry} onEdit={handleEditEntry} people={people} onOpenFamily={handleOpenFamily} onOpenClient={handleOpenClient} canEdit={canDo('edit')} canDelete={canDo('delete')} showPayments={canDo('viewPayments')} onOpenTrash={() => setView('trash')} onScan={qrScanSupported ? openScanner : undefined} searchRequest={ledgerSearch} onReceipt={setReceiptEntry} onMessage={setMessageEntry} onImport={canDo('manageStorage') ? () => setShowImport(true) : undefined} onOpenDues={canDo('viewPayments') ? () => setView('dues') : undefined} />}
+          {view === 'trash' && canDo('delete') && (
+            <TrashView
+              hasBg={hasBg}
+              onBack={() => setView('ledger')}
+              onRestored={handleTrashRestored}
+              requestConfirm={requestConfirm}
+              closeConfirm={closeConfirm}
+            />
+          )}
+          {view === 'reports' && (
+            <ReportsView hasBg={hasBg} showPayments={canDo('viewPayments')} onBack={() => setView('home')} refreshKey={revision} onDayClose={canDo('viewPayments') ? () => setView('day_close') : undefined} />
+          )}
+          {view === 'calendar' && (
+            <CalendarView refreshKey={revision} hasBg={hasBg} onOpenEntry={handleOpenBooking} onNewBooking={handleNewBooking} />
+          )}
+          {view === 'dues' && canDo('viewPayments') && (
+            <DuesView
+              refreshKey={revision}
+              hasBg={hasBg}
+              canEdit={canDo('edit')}
+              canEditTemplates={canDo('manageSettings')}
+              onSave={handleSaveEntry}
+              onOpenClient={handleOpenClient}
+              onBack={() => setView('home')}
+            />
+          )}
+          {view === 'day_close' && canDo('viewPayments') && (
+            <DayCloseView
+              hasBg={hasBg}
+              closes={dayCloses}
+              activePanditId={activePanditId}
+              canClose={canDo('closeDay')}
+              onCloseDay={handleCloseDay}
+              onBack={() => setView('reports')}
+              refreshKey={revision}
+              requestConfirm={requestConfirm}
+              closeConfirm={closeConfirm}
+            />
+          )}
+          {view === 'storage' && canDo('manageStorage') && (
+            <StorageView
+              hasBg={hasBg}
+              activePanditId={activePanditId}
+              onBack={() => setView('home')}
+              onOpenTrash={() => setView('trash')}
+              onChanged={handleStorageCleaned}
+              requestConfirm={requestConfirm}
+              closeConfirm={closeConfirm}
+            />
+          )}
+          {view === 'face_search' && <FaceSearchView hasBg={hasBg} />}
+          {view === 'client_detail' && detailPerson && (
+            <ClientDetailView
+              key={detailPerson.id}
+              person={detailPerson}
+              refreshKey={revision}
+              hasBg={hasBg}
+              onBack={() => setView('ledger')}
+              onNewVisit={handleNewVisit}
+              onEditVisit={handleEditEntry}
+              onReceipt={setReceiptEntry}
+              onOpenFamily={handleOpenFamily}
+              onSavePeople={handleSavePeople}
+              canEdit={canDo('edit')}
+              showPayments={canDo('viewPayments')}
+            />
+          )}
+          {view === 'vanshavali' && (
+            <VanshavaliView
+              people={people}
+              refreshKey={revision}
+              hasBg={hasBg}
+              focusPersonId={focusPersonId}
+              onFocus={setFocusPersonId}
+              onSavePeople={handleSavePeople}
+            />
+          )}
         </div>
       </main>
 
@@ -316,11 +903,97 @@ const App: React.FC = () => {
       <div className={`fixed bottom-0 left-0 right-0 h-16 z-40 no-print`}>
          <div className={`max-w-lg mx-auto h-full flex justify-around items-center ${hasBg ? 'glass-panel border-t border-white/20' : 'bg-white border-t border-slate-200'}`}>
             <NavButton active={view === 'home'} onClick={() => setView('home')} icon={<HomeIcon />} label="Home" hasBg={hasBg} />
-            <NavButton active={view === 'add_client'} onClick={() => setView('add_client')} icon={<PlusIcon />} label="Add Client" hasBg={hasBg} />
+            <NavButton active={view === 'add_client'} onClick={handleNewEntry} icon={<PlusIcon />} label="Add Client" hasBg={hasBg} />
             <NavButton active={view === 'ledger'} onClick={() => setView('ledger')} icon={<ClipboardIcon />} label="Ledger" hasBg={hasBg} />
+            <NavButton active={view === 'calendar'} onClick={() => setView('calendar')} icon={<CalendarIcon />} label="Calendar" hasBg={hasBg} />
+            <NavButton active={view === 'vanshavali'} onClick={() => setView('vanshavali')} icon={<FamilyTreeIcon />} label="Vanshavali" hasBg={hasBg} />
+            <NavButton active={view === 'reports'} onClick={() => setView('reports')} icon={<ChartIcon />} label="Reports" hasBg={hasBg} />
          </div>
       </div>
 
+      {/* Backup & Restore */}
+      {showBackup && (
+        <BackupModal
+          onClose={() => setShowBackup(false)}
+          onRestored={reloadAfterRestore}
+          canRestore={canDo('manageStorage')}
+          requestConfirm={requestConfirm}
+          closeConfirm={closeConfirm}
+        />
+      )}
+
+      {/* Active Family Member */}
+      {!locked && (!activePanditId || showPanditSelect) && (
+        <PanditSelectModal
+          contacts={PANDIT_CONTACTS}
+          activeId={activePanditId}
+          onSelect={handleSelectPandit}
+          onClose={activePanditId ? () => setShowPanditSelect(false) : undefined}
+          onLock={lockEnabled && activePanditId ? handleLockNow : undefined}
+          onOpenSecurity={activePanditId && canDo('manageSecurity') ? () => { setShowPanditSelect(false); setShowSecurity(true); } : undefined}
+          onOpenReceipts={activePanditId && canDo('manageSettings') ? () => { setShowPanditSelect(false); setShowReceiptFormat(true); } : undefined}
+          onOpenRituals={activePanditId && canDo('manageSettings') ? () => { setShowPanditSelect(false); setShowRituals(true); } : undefined}
+        />
+      )}
+
+      {/* Single Booking Receipt */}
+      {receiptEntry && !locked && (
+        <ReceiptModal
+          entry={receiptEntry}
+          person={people.find(p => p.id === receiptEntry.personId)}
+          showPayments={canDo('viewPayments')}
+          onClose={() => setReceiptEntry(null)}
+        />
+      )}
+
+      {/* Spreadsheet Import */}
+      {showImport && !locked && (
+        <LedgerImportModal activePanditId={activePanditId} onImport={handleImportEntries} onClose={() => setShowImport(false)} />
+      )}
+
+      {/* WhatsApp Message */}
+      {messageEntry && !locked && (
+        <MessageModal
+          entry={messageEntry}
+          showPayments={canDo('viewPayments')}
+          canEditTemplates={canDo('manageSettings')}
+          onClose={() => setMessageEntry(null)}
+        />
+      )}
+
+      {/* Receipt QR Scanner */}
+      {showScanner && !locked && <QrScanModal onScan={handleScannedCode} message={scanMessage} onClose={() => setShowScanner(false)} />}
+
+      {/* Receipt Number Format */}
+      {showReceiptFormat && !locked && <ReceiptFormatModal onClose={() => setShowReceiptFormat(false)} />}
+
+      {/* Ritual Catalog */}
+      {showRituals && !locked && <RitualCatalogModal onClose={() => setShowRituals(false)} onChanged={scheduleSync} />}
+
+      {/* App Lock Settings */}
+      {showSecurity && !locked && (
+        <SecurityModal
+          contacts={PANDIT_CONTACTS}
+          settings={security}
+          onSave={handleSaveSecurity}
+          onClose={() => setShowSecurity(false)}
+        />
+      )}
+
+      {/* Lock Screen */}
+      {locked && lockEnabled && (
+        <LockScreen
+          key={unlockAs || 'lock'}
+          contacts={PANDIT_CONTACTS}
+          settings={security}
+          initialMemberId={unlockAs || activePanditId}
+          onUnlock={handleUnlock}
+        />
+      )}
+
+      {/* Sync Settings */}
+      {showSync && !locked && canDo('manageSettings') && <SyncModal onClose={() => setShowSync(false)} />}
+
       {/* Confirmation Modal */}
       {confirmState && (
         <ConfirmationModal
@@ -338,17 +1011,22 @@ const App: React.FC = () => {
         <StorageRecoveryModal
           isOpen={showStorageModal}
           onClose={() => setShowStorageModal(false)}
-          failedEntry={failedEntry}
-          onSuccess={(entry) => {
-             // If entry provided, it means we saved text-only
-             if (entry) {
-                setEntries(prev => [entry, ...prev]);
-                setView('ledger');
+          onSaveWithoutPhoto={async () => {
+             // A normal save (pilgrim profile, revision history) without the new photo
+             const saved = await handleSaveEntry({ ...failedEntry, clientPhoto: undefined }, true);
+             if (saved) {
+                setEditingEntry(null);
+                setVisitPerson(null);
+                setView(newBookingDate ? 'calendar' : 'ledger');
+                setNewBookingDate(null);
+                setShowStorageModal(false);
+                setFailedEntry(null);
              }
-             setShowStorageModal(false);
-             setFailedEntry(null);
+             return saved;
           }}
-          refreshData={refreshData}
+          refreshData={handleStorageCleaned}
+          canManageStorage={canDo('manageStorage')}
+          activePanditId={activePanditId}
         />
       )}
 
@@ -361,27 +1039,28 @@ const App: React.FC = () => {
 const StorageRecoveryModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
-  failedEntry: ClientEntry;
-  onSuccess: (savedEntry?: ClientEntry) => void;
-  refreshData: () => Promise<void>;
-}> = ({ isOpen, onClose, failedEntry, onSuccess, refreshData }) => {
+  // Resolves false when the record still could not be saved
+  onSaveWithoutPhoto: () => Promise<boolean>;
+  refreshData: () => void;
+  canManageStorage: boolean;
+  activePanditId: string | null;
+}> = ({ isOpen, onClose, onSaveWithoutPhoto, refreshData, canManageStorage, activePanditId }) => {
   if (!isOpen) return null;
 
   const handleSaveTextOnly = async () => {
     try {
-      const entryNoPhoto = { ...failedEntry, clientPhoto: undefined };
-      await dbService.saveClient(entryNoPhoto);
-      onSuccess(entryNoPhoto);
+      if (!(await onSaveWithoutPhoto())) alert("Still cannot save. Free up space with one of the options below.");
     } catch (e) {
       alert("Still cannot save. Critical storage failure.");
     }
   };
 
   const handleOptimizeImages = async () => {
+    if (!canManageStorage) return;
     try {
       // Remove photos from records older than 30 days
       const count = await dbService.stripOldPhotos(30);
-      await refreshData();
+      refreshData();
       alert(`Optimization complete! Removed photos from ${count} old records.`);
       onClose(); // Close modal so user can try saving again normally
     } catch (e) {
@@ -390,11 +1069,12 @@ const StorageRecoveryModal: React.FC<{
   };
 
   const handleDeleteOld = async () => {
-    if (window.confirm("Are you sure? This will delete ALL records older than 1 year.")) {
+    if (!canManageStorage) return;
+    if (window.confirm("Are you sure? Records older than 1 year will be moved to the Recycle Bin without their photos (records with payments on a closed day are kept).")) {
       try {
-        const count = await dbService.deleteOldRecords(365);
-        await refreshData();
-        alert(`Cleanup complete! Deleted ${count} records older than 1 year.`);
+        const count = await deleteOldRecords(365, activePanditId || undefined);
+        refreshData();
+        alert(`Cleanup complete! Moved ${count} records older than 1 year to the Recycle Bin.`);
         onClose();
       } catch (e) {
         alert("Cleanup failed.");
@@ -427,27 +1107,33 @@ const StorageRecoveryModal: React.FC<{
              <span className="text-xl">📄</span>
           </button>
 
-          <button 
-             onClick={handleOptimizeImages}
-             className="w-full bg-orange-50 border border-orange-100 p-3 rounded-xl flex items-center justify-between hover:bg-orange-100 transition text-left"
-          >
-             <div>
-               <div className="font-bold text-orange-900 text-sm">Clear Old Photos</div>
-               <div className="text-xs text-orange-600">Remove photos from records &gt; 30 days.</div>
-             </div>
-             <span className="text-xl">🧹</span>
-          </button>
+          {canManageStorage ? (
+            <>
+              <button 
+                 onClick={handleOptimizeImages}
+                 className="w-full bg-orange-50 border border-orange-100 p-3 rounded-xl flex items-center justify-between hover:bg-orange-100 transition text-left"
+              >
+                 <div>
+                   <div className="font-bold text-orange-900 text-sm">Clear Old Photos</div>
+                   <div className="text-xs text-orange-600">Remove photos from records &gt; 30 days.</div>
+                 </div>
+                 <span className="text-xl">🧹</span>
+              </button>
 
-          <button 
-             onClick={handleDeleteOld}
-             className="w-full bg-red-50 border border-red-100 p-3 rounded-xl flex items-center justify-between hover:bg-red-100 transition text-left"
-          >
-             <div>
-               <div className="font-bold text-red-900 text-sm">Delete Old Records</div>
-               <div className="text-xs text-red-600">Delete all records older than 1 year.</div>
-             </div>
-             <span className="text-xl">🗑️</span>
-          </button>
+              <button 
+                 onClick={handleDeleteOld}
+                 className="w-full bg-red-50 border border-red-100 p-3 rounded-xl flex items-center justify-between hover:bg-red-100 transition text-left"
+              >
+                 <div>
+                   <div className="font-bold text-red-900 text-sm">Delete Old Records</div>
+                   <div className="text-xs text-red-600">Move records older than 1 year to the Recycle Bin.</div>
+                 </div>
+                 <span className="text-xl">🗑️</span>
+              </button>
+            </>
+          ) : (
+            <p className="text-xs text-slate-500 px-1">Ask the head of the family to free up space on this phone.</p>
+          )}
         </div>
 
         <div className="bg-slate-50 p-3 text-right">
@@ -518,7 +1204,7 @@ const NavButton = ({ active, onClick, icon, label, hasBg }: { active: boolean, o
   </button>
 );
 
-const HomeView: React.FC<{ contacts: Contact[], hasBg: boolean, setView: (v: ViewState) => void }> = ({ contacts, hasBg, setView }) => (
+const HomeView: React.FC<{ contacts: Contact[], hasBg: boolean, setView: (v: ViewState) => void, onScan?: () => void, reminders: ClientEntry[], onOpenDues?: () => void, onBookDay: (date: string) => void }> = ({ contacts, hasBg, setView, onScan, reminders, onOpenDues, onBookDay }) => (
   <div className="space-y-6 animate-[fadeIn_0.5s_ease-out]">
     <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg p-6 border-b-4 border-indigo-500 text-center relative overflow-hidden`}>
        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-orange-400 via-indigo-500 to-green-400"></div>
@@ -530,9 +1216,45 @@ const HomeView: React.FC<{ contacts: Contact[], hasBg: boolean, setView: (v: Vie
          <button onClick={() => setView('face_search')} className="bg-indigo-100 text-indigo-800 px-4 py-2 rounded-full text-sm font-bold flex items-center gap-2 hover:bg-indigo-200 transition">
             <FaceScanIcon className="w-4 h-4" /> Face Search
          </button>
+         {onScan && (
+           <button onClick={onScan} className="bg-indigo-100 text-indigo-800 px-4 py-2 rounded-full text-sm font-bold flex items-center gap-2 hover:bg-indigo-200 transition">
+              <QrCodeIcon className="w-4 h-4" /> Scan Receipt
+           </button>
+         )}
+         {onOpenDues && (
+           <button onClick={onOpenDues} className="bg-indigo-100 text-indigo-800 px-4 py-2 rounded-full text-sm font-bold flex items-center gap-2 hover:bg-indigo-200 transition">
+              <WalletIcon className="w-4 h-4" /> Dues
+           </button>
+         )}
        </div>
     </div>
 
+    {/* Balance follow-ups due today or earlier */}
+    {reminders.length > 0 && (
+      <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg overflow-hidden border border-orange-200`}>
+        <div className="bg-orange-50 px-5 py-3 border-b border-orange-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <AlertTriangleIcon className="w-5 h-5 text-orange-500" />
+            <h3 className="font-bold text-orange-900">Payment Follow-ups ({reminders.length})</h3>
+          </div>
+          {onOpenDues && <button onClick={onOpenDues} className="text-xs font-bold text-orange-700 hover:underline">View all</button>}
+        </div>
+        <div className="divide-y divide-slate-100">
+          {reminders.slice(0, 5).map(entry => (
+            <button key={entry.id} onClick={onOpenDues} className="w-full flex items-center justify-between px-5 py-3 text-left hover:bg-slate-50">
+              <div className="min-w-0">
+                <p className="font-bold text-slate-800 truncate">{entry.clientName}</p>
+                <p className="text-xs text-slate-500">{entry.uniqueCode} • follow up {new Date(entry.followUpAt!).toLocaleDateString()}</p>
+              </div>
+              <span className="text-sm font-bold text-red-600 shrink-0">{formatINR(outstandingBalance(entry))}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    )}
+
+    <AuspiciousDays hasBg={hasBg} onSelect={onBookDay} />
+
     <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg overflow-hidden border border-slate-100`}>
       <div className="bg-slate-100/80 px-5 py-4 border-b border-slate-200 flex items-center gap-2">
         <PhoneIcon className="w-5 h-5 text-slate-500" />
@@ -563,33 +1285,122 @@ const HomeView: React.FC<{ contacts: Contact[], hasBg: boolean, setView: (v: Vie
 );
 
 const AddClientView: React.FC<{ 
+  initialEntry?: ClientEntry,
+  pilgrim?: Person,
   onSave: (entry: ClientEntry) => Promise<boolean>, 
   onSuccess: () => void,
   hasBg: boolean,
   requestConfirm: (title: string, message: string, onConfirm: () => void, type?: 'danger' | 'info') => void,
-  closeConfirm: () => void
-}> = ({ onSave, onSuccess, hasBg, requestConfirm, closeConfirm }) => {
+  closeConfirm: () => void,
+  people: Person[],
+  offlineEntries: ClientEntry[],
+  onSavePeople: (people: Person[]) => Promise<boolean>,
+  activePanditId: string | null,
+  showPayments: boolean,
+  lockedDays: Set<string>,
+  scheduleFor?: { date: string } // Calendar day a new booking was started from
+}> = ({ initialEntry, pilgrim, onSave, onSuccess, hasBg, requestConfirm, closeConfirm, people, offlineEntries, onSavePeople, activePanditId, showPayments, lockedDays, scheduleFor }) => {
+  const isEditing = !!initialEntry;
   const [formData, setFormData] = useState({
-    name: '',
-    phone: '',
-    address: '',
-    plan: '',
-    payment: ''
+    name: initialEntry?.clientName || pilgrim?.name || '',
+    phone: initialEntry?.phone || pilgrim?.phone || '',
+    address: initialEntry?.address || pilgrim?.address || '',
+    plan: initialEntry?.servicePlan || '',
+    agreedTotal: initialEntry?.agreedTotal ? String(initialEntry.agreedTotal) : '',
+    paymentNotes: initialEntry?.paymentNotes || ''
+  });
+  // Catalog ritual the plan was filled from; the plan text stays editable
+  const [rituals] = useState(loadRituals);
+  const [ritualId, setRitualId] = useState(initialEntry?.ritualId || '');
+  // Looked up among removed rituals too, so editing an older booking keeps its ritual
+  const ritual = findRitual(ritualId);
+  const [payments, setPayments] = useState<PaymentTransaction[]>(initialEntry?.payments || []);
+  // Saved payments on a closed day stay as they are
+  const lockedPaymentIds = new Set((initialEntry?.payments || []).filter(p => isPaymentLocked(p, lockedDays)).map(p => p.id));
+  const [personId, setPersonId] = useState<string | undefined>(initialEntry?.personId || pilgrim?.id);
+  // New bookings default to the person registering them
+  const [performedBy, setPerformedBy] = useState(initialEntry ? initialEntry.performedBy || '' : activePanditId || '');
+  // When and where the ritual takes place
+  const [schedule, setSchedule] = useState({
+    date: initialEntry?.scheduledDate || scheduleFor?.date || '',
+    slot: initialEntry?.scheduledSlot || ('' as TimeSlot | ''),
+    location: initialEntry?.location || ''
+  });
+  // Other bookings on the chosen day, to warn about clashes
+  const [dayBookings, setDayBookings] = useState<ClientEntry[]>([]);
+  useEffect(() => {
+    setDayBookings([]);
+    if (!schedule.date) return;
+    let cancelled = false;
+    loadBookings(schedule.date, schedule.date)
+      .then(result => { if (!cancelled) setDayBookings(result); })
+      .catch(err => console.warn("Could not check for clashing bookings", err));
+    return () => { cancelled = true; };
+  }, [schedule.date]);
+  const conflicts = findConflicts(dayBookings, {
+    id: initialEntry?.id ?? -1,
+    scheduledDate: schedule.date || undefined,
+    scheduledSlot: schedule.slot || undefined,
+    performedBy: performedBy || undefined
   });
-  const [code, setCode] = useState('');
+
+  // Returning pilgrims are offered by phone number until a profile is chosen
+  const phoneMatches = personId ? [] : findPilgrimsByPhone(formData.phone, people);
+  const [matchVisits, setMatchVisits] = useState<ClientEntry[]>([]);
+  const matchIds = phoneMatches.map(p => p.id).join(',');
+  useEffect(() => {
+    let cancelled = false;
+    loadVisits(matchIds ? matchIds.split(',') : [])
+      .then(result => { if (!cancelled) setMatchVisits(result); })
+      .catch(err => console.warn("Could not count previous visits", err));
+    return () => { cancelled = true; };
+  }, [matchIds]);
+
+  const attachToPilgrim = (person: Person) => {
+    setPersonId(person.id);
+    setFormData(prev => ({
+      ...prev,
+      name: prev.name || person.name,
+      address: prev.address || person.address || ''
+    }));
+    if (!clientPhoto && !photoId) {
+      setPhotoId(person.photoId);
+      setClientPhoto(person.photo);
+    }
+  };
+  const [code, setCode] = useState(initialEntry?.uniqueCode || '');
   const [aiLoading, setAiLoading] = useState(false);
-  const [signature, setSignature] = useState('');
-  const [clientPhoto, setClientPhoto] = useState<string | undefined>(undefined);
+  // Stored images are referenced by id; fresh captures stay inline until the record is saved
+  const [signatureId, setSignatureId] = useState(initialEntry?.signatureId);
+  const [signature, setSignature] = useState(initialEntry?.signatureImage || '');
+  const [resign, setResign] = useState(!initialEntry?.signatureId && !initialEntry?.signatureImage);
+  const [photoId, setPhotoId] = useState<string | undefined>(initialEntry ? initialEntry.photoId : pilgrim?.photoId);
+  const [clientPhoto, setClientPhoto] = useState<string | undefined>(initialEntry ? initialEntry.clientPhoto : pilgrim?.photo);
   const [photoMode, setPhotoMode] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    // Generate code once on mount
-    const randomSuffix = Math.random().toString(36).substring(2, 6).toUpperCase();
-    const dateSuffix = new Date().getDate().toString().padStart(2,'0');
-    setCode(`YATRA-${dateSuffix}${randomSuffix}`);
+    // Generate code once on mount (edited records keep their code)
+    if (initialEntry) return;
+    generateReceiptCode()
+      .then(setCode)
+      .catch(err => {
+        console.warn("Could not read receipt codes, numbering from the LocalStorage copy", err);
+        setCode(nextCodeFrom(offlineEntries.map(e => e.uniqueCode)));
+      });
   }, []);
 
+  const handleChooseRitual = (id: string) => {
+    const next = findRitual(id);
+    setRitualId(id);
+    setFormData(prev => ({
+      ...prev,
+      plan: replaceRitualInPlan(prev.plan, ritual, next),
+      // The standard dakshina is a suggestion; an amount already agreed is kept
+      agreedTotal: showPayments && next && (!prev.agreedTotal || prev.agreedTotal === String(ritual?.dakshina)) ? String(next.dakshina) : prev.agreedTotal
+    }));
+  };
+
   const handleAiGenerate = async () => {
     if (!formData.plan) {
       alert("Please enter a ritual name first (e.g. Rudrabhishek)");
@@ -605,29 +1416,44 @@ const AddClientView: React.FC<{
     e.preventDefault();
     if (isSubmitting) return;
 
-    let confirmMsg = `Are you sure you want to save the record for ${formData.name}?`;
-    if (!signature) confirmMsg = `⚠️ No signature provided.\n\n${confirmMsg}`;
+    let confirmMsg = isEditing
+      ? `Save changes to the record for ${formData.name}? The previous version will be kept in its history.`
+      : `Are you sure you want to save the record for ${formData.name}?`;
+    if (!signature && !signatureId) confirmMsg = `⚠️ No signature provided.\n\n${confirmMsg}`;
+    if (conflicts.length > 0) confirmMsg = `⚠️ ${panditName(performedBy)} is already booked at this time (${conflicts.map(c => c.clientName).join(', ')}).\n\n${confirmMsg}`;
     
     // Use custom confirmation modal via callback
-    requestConfirm("Save Record", confirmMsg, async () => {
+    requestConfirm(isEditing ? "Update Record" : "Save Record", confirmMsg, async () => {
         setIsSubmitting(true);
 
         try {
-          // Create safe timestamp and ID
-          const timestamp = Date.now();
-          const uniqueId = timestamp + Math.floor(Math.random() * 1000);
+          // Create safe timestamp and ID (edits keep the original ones)
+          const timestamp = initialEntry ? initialEntry.timestamp : Date.now();
+          const uniqueId = initialEntry ? initialEntry.id : timestamp + Math.floor(Math.random() * 1000);
+          const uniqueCode = initialEntry ? code : await ensureUniqueCode(code).catch(() => code);
 
           const newEntry: ClientEntry = {
+            ...initialEntry,
             id: uniqueId,
-            uniqueCode: code,
+            uniqueCode: uniqueCode,
             clientName: formData.name,
             phone: formData.phone,
             address: formData.address,
             servicePlan: formData.plan,
-            paymentDetails: formData.payment,
+            ritualId: ritualId || undefined,
+            agreedTotal: Number(formData.agreedTotal) || 0,
+            payments: payments.filter(p => p.amount > 0),
+            paymentNotes: formData.paymentNotes.trim() || undefined,
+            photoId: photoId,
             clientPhoto: clientPhoto,
-            signatureImage: signature || null,
-            timestamp: timestamp
+            signatureId: signatureId,
+            signatureImage: signature || undefined,
+            timestamp: timestamp,
+            personId: personId,
+            performedBy: performedBy || undefined,
+            scheduledDate: schedule.date || undefined,
+            scheduledSlot: schedule.date && schedule.slot ? schedule.slot : undefined,
+            location: schedule.location.trim() || undefined
           };
           
           const success = await onSave(newEntry);
@@ -654,7 +1480,7 @@ const AddClientView: React.FC<{
   return (
     <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg overflow-hidden animate-[slideUp_0.3s_ease-out]`}>
       <div className="bg-slate-100/50 p-4 border-b border-slate-200 flex justify-between items-center">
-        <h2 className="font-bold text-lg text-slate-800">New Yatra Record</h2>
+        <h2 className="font-bold text-lg text-slate-800">{isEditing ? 'Edit Yatra Record' : 'New Yatra Record'}</h2>
         <span className="font-mono text-xs font-bold bg-indigo-100 text-indigo-700 px-3 py-1 rounded-full border border-indigo-200">
           {code}
         </span>
@@ -665,12 +1491,12 @@ const AddClientView: React.FC<{
         <div>
            <label className={labelClass}>Client Photo</label>
            {photoMode ? (
-             <CameraCapture onCapture={(img) => { setClientPhoto(img); setPhotoMode(false); }} />
+             <CameraCapture onCapture={(img) => { setClientPhoto(img); setPhotoId(undefined); setPhotoMode(false); }} />
            ) : (
-             clientPhoto ? (
+             clientPhoto || photoId ? (
                 <div className="relative w-32 h-32">
-                  <img src={clientPhoto} className="w-full h-full object-cover rounded-xl border-2 border-indigo-100" />
-                  <button type="button" onClick={() => setClientPhoto(undefined)} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow"><div className="w-4 h-4 flex items-center justify-center">×</div></button>
+                  <MediaImage mediaId={photoId} inline={clientPhoto} variant="full" className="w-full h-full object-cover rounded-xl border-2 border-indigo-100" />
+                  <button type="button" onClick={() => { setClientPhoto(undefined); setPhotoId(undefined); }} className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow"><div className="w-4 h-4 flex items-center justify-center">×</div></button>
                 </div>
              ) : (
                 <button type="button" onClick={() => setPhotoMode(true)} className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-3 rounded-xl w-full font-medium hover:bg-slate-200 transition">
@@ -687,6 +1513,28 @@ const AddClientView: React.FC<{
         <div>
            <label className={labelClass}>Phone Number</label>
            <input required type="tel" className={inputClass} value={formData.phone} onChange={e => setFormData({...formData, phone: e.target.value})} placeholder="e.g. 9876543210" />
+           {phoneMatches.map(match => (
+             <div key={match.id} className="mt-2 flex items-center justify-between gap-3 bg-green-50 border border-green-200 rounded-xl p-3">
+               <div className="min-w-0">
+                 <div className="text-[10px] font-bold text-green-700 uppercase tracking-wider">Returning Pilgrim</div>
+                 <div className="font-bold text-slate-800 truncate">{match.name}</div>
+                 <div className="text-xs text-slate-500">{visitsOf(match.id, matchVisits).length} previous visit(s)</div>
+               </div>
+               <button type="button" onClick={() => attachToPilgrim(match)} className="shrink-0 text-xs bg-green-600 text-white font-bold px-3 py-2 rounded-lg hover:bg-green-700">
+                 Add Visit
+               </button>
+             </div>
+           ))}
+        </div>
+        <div>
+           <label className={labelClass}>Pilgrim Profile (Vanshavali)</label>
+           <PersonPicker
+             people={people}
+             selectedId={personId}
+             onSelect={setPersonId}
+             onCreate={(person) => onSavePeople([person])}
+             suggestedName={formData.name}
+           />
         </div>
         <div>
            <label className={labelClass}>Address</label>
@@ -705,15 +1553,82 @@ const AddClientView: React.FC<{
                {aiLoading ? "Thinking..." : "AI Generate"}
              </button>
            </div>
-           <textarea required rows={5} className={inputClass} value={formData.plan} onChange={e => setFormData({...formData, plan: e.target.value})} placeholder="Type ritual (e.g. Yamuna Pujan) or trip plan (e.g. 2 Days Mathura)..." />
+           <select className={`${inputClass} mb-2`} value={ritualId} onChange={e => handleChooseRitual(e.target.value)}>
+             <option value="">Choose from ritual catalog...</option>
+             {rituals.map(r => <option key={r.id} value={r.id}>{r.name} • {r.nameHi}{showPayments ? ` • ${formatINR(r.dakshina)}` : ''}</option>)}
+             {ritualId && !rituals.some(r => r.id === ritualId) && <option value={ritualId}>{ritual ? `${ritual.name} (removed from catalog)` : 'Ritual removed from catalog'}</option>}
+           </select>
+           {ritual && <p className="text-[11px] text-slate-500 mb-2 ml-1">{formatDuration(ritual.durationMinutes)} • {ritual.samagri.length} samagri item{ritual.samagri.length === 1 ? '' : 's'} added to the plan</p>}
+           <textarea required rows={5} className={inputClass} value={formData.plan} onChange={e => setFormData({...formData, plan: e.target.value})} placeholder="Type ritual (e.g. Yamuna Pujan) or trip plan (e.g. 2 Days Mathura)... Notes can be added below a catalog ritual." />
         </div>
         <div>
-           <label className={labelClass}>Payment Details</label>
-           <input required className={inputClass} value={formData.payment} onChange={e => setFormData({...formData, payment: e.target.value})} placeholder="Amount & Status" />
+           <label className={labelClass}>Performed By</label>
+           <select className={inputClass} value={performedBy} onChange={e => setPerformedBy(e.target.value)}>
+             <option value="">Not assigned</option>
+             {PANDIT_CONTACTS.map(c => <option key={c.id} value={c.id}>{c.name} ({c.role})</option>)}
+           </select>
+           {initialEntry?.registeredBy && (
+             <p className="text-[11px] text-slate-500 mt-1 ml-1">Registered by {panditName(initialEntry.registeredBy)}</p>
+           )}
         </div>
+        <div>
+           <label className={labelClass}>Scheduled For</label>
+           <div className="flex gap-2">
+             <input type="date" className={`${inputClass} flex-1`} value={schedule.date} onChange={e => setSchedule({ ...schedule, date: e.target.value })} />
+             <select className={`${inputClass} flex-1`} value={schedule.slot} disabled={!schedule.date} onChange={e => setSchedule({ ...schedule, slot: e.target.value as TimeSlot | '' })}>
+               <option value="">Any time</option>
+               {TIME_SLOTS.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+             </select>
+           </div>
+           {schedule.date && <PanchangInfo date={schedule.date} className="mt-2" />}
+           <input className={`${inputClass} mt-2`} value={schedule.location} onChange={e => setSchedule({ ...schedule, location: e.target.value })} placeholder="Location (e.g. Vishram Ghat, Govardhan)" />
+           {conflicts.length > 0 && (
+             <div className="mt-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700 flex gap-2">
+               <AlertTriangleIcon className="w-4 h-4 shrink-0" />
+               <div>
+                 <p className="font-bold">{panditName(performedBy)} is already booked on {formatDay(schedule.date)}:</p>
+                 {conflicts.map(c => <p key={c.id}>{c.clientName} ({c.uniqueCode}) • {slotLabel(c.scheduledSlot)}{c.location ? ` • ${c.location}` : ''}</p>)}
+               </div>
+             </div>
+           )}
+        </div>
+        {/* Members without payment access leave the amounts to the head */}
+        {showPayments && (
+          <>
+            <div>
+               <label className={labelClass}>Agreed Total (₹)</label>
+               <input required type="number" min="0" inputMode="numeric" className={inputClass} value={formData.agreedTotal} onChange={e => setFormData({...formData, agreedTotal: e.target.value})} placeholder="Total dakshina & charges agreed" />
+               {ritual && Number(formData.agreedTotal) !== ritual.dakshina && (
+                 <p className="text-[11px] text-slate-500 mt-1 ml-1">Standard dakshina for {ritual.name}: {formatINR(ritual.dakshina)}</p>
+               )}
+            </div>
+            <div>
+               <div className="flex justify-between items-end mb-1">
+                 <label className={labelClass}>Payments Received</label>
+                 <span className="text-[10px] font-bold text-slate-500 mr-1">
+                   Paid {formatINR(totalPaid({ payments }))} • Due {formatINR(Math.max(outstandingBalance({ payments, agreedTotal: Number(formData.agreedTotal) || 0 }), 0))}
+                 </span>
+               </div>
+               <PaymentsEditor payments={payments} onChange={setPayments} isLocked={p => lockedPaymentIds.has(p.id)} />
+            </div>
+            <div>
+               <label className={labelClass}>Payment Notes</label>
+               <textarea rows={2} className={inputClass} value={formData.paymentNotes} onChange={e => setFormData({...formData, paymentNotes: e.target.value})} placeholder="Optional (e.g. balance promised after parikrama)" />
+            </div>
+          </>
+        )}
         <div>
            <label className={labelClass}>Client Signature</label>
-           <SignaturePad onSave={setSignature} className="mt-1" />
+           {resign ? (
+             <SignaturePad onSave={setSignature} className="mt-1" />
+           ) : (
+             <div className="flex items-end justify-between gap-3 mt-1">
+               <MediaImage mediaId={signatureId} inline={signature} variant="full" alt="Signature" className="h-16 object-contain border-b border-slate-300 pb-1" />
+               <button type="button" onClick={() => { setSignature(''); setSignatureId(undefined); setResign(true); }} className="text-xs bg-slate-200 text-slate-600 px-3 py-1 rounded hover:bg-slate-300">
+                 Sign Again
+               </button>
+             </div>
+           )}
         </div>
 
         <button 
@@ -728,7 +1643,7 @@ const AddClientView: React.FC<{
              </>
            ) : (
              <>
-               <span>💾</span> Save Record
+               <span>💾</span> {isEditing ? 'Update Record' : 'Save Record'}
              </>
            )}
         </button>
@@ -737,51 +1652,263 @@ const AddClientView: React.FC<{
   );
 };
 
-const LedgerView: React.FC<{ entries: ClientEntry[], loading: boolean, hasBg: boolean, onDelete: (id: number) => void }> = ({ entries, loading, hasBg, onDelete }) => {
-  const [searchTerm, setSearchTerm] = useState('');
+const LedgerView: React.FC<{ refreshKey: unknown, offlineEntries: ClientEntry[], loading: boolean, hasBg: boolean, onDelete: (id: number) => void, onEdit: (entry: ClientEntry) => void, people: Person[], onOpenFamily: (personId: string) => void, onOpenClient: (personId: string) => void, canEdit: boolean, canDelete: boolean, showPayments: boolean, onOpenTrash: () => void, onScan?: () => void, searchRequest: { text: string } | null, onReceipt: (entry: ClientEntry) => void, onMessage: (entry: ClientEntry) => void, onImport?: () => void, onOpenDues?: () => void }> = ({ refreshKey, offlineEntries, loading, hasBg, onDelete, onEdit, people, onOpenFamily, onOpenClient, canEdit, canDelete, showPayments, onOpenTrash, onScan, searchRequest, onReceipt, onMessage, onImport, onOpenDues }) => {
+  const [searchTerm, setSearchTerm] = useState(searchRequest?.text || '');
+  const [debouncedSearch, setDebouncedSearch] = useState(searchRequest?.text || '');
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [showPreview, setShowPreview] = useState(false);
+  const [panditFilter, setPanditFilter] = useState('');
+  const [ritualFilter, setRitualFilter] = useState('');
+  const [groupByPandit, setGroupByPandit] = useState(false);
+  // Cards only load thumbnails; the full image is read when it is opened
+  const [viewingImage, setViewingImage] = useState<{ mediaId?: string, inline?: string | null } | null>(null);
+
+  // Records are paged from the database; 'refreshKey' changes whenever they do, and
+  // 'offlineEntries' (the LocalStorage copy) is shown when the database is unavailable
+  const [rows, setRows] = useState<LedgerRow[]>([]);
+  const [summary, setSummary] = useState<LedgerSummary | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [pageLoading, setPageLoading] = useState(false);
+  // All matching records, loaded only for printing or a spreadsheet export
+  const [printEntries, setPrintEntries] = useState<ClientEntry[] | null>(null);
+  const [exportEntries, setExportEntries] = useState<ClientEntry[] | null>(null);
+  // Closest existing codes when a searched code matches nothing
+  const [codeSuggestions, setCodeSuggestions] = useState<string[]>([]);
+  const positionRef = useRef<LedgerPosition | null>(null);
+  const loadingRef = useRef(false);
+  const generationRef = useRef(0);
 
-  const filteredEntries = entries.filter(entry => {
-    // Search Text Filter
-    const searchLower = searchTerm.toLowerCase();
-    const matchesSearch = 
-      !searchTerm ||
-      entry.clientName.toLowerCase().includes(searchLower) ||
-      entry.phone.includes(searchLower) ||
-      entry.uniqueCode.toLowerCase().includes(searchLower) ||
-      entry.servicePlan.toLowerCase().includes(searchLower);
-
-    // Date Range Filter
-    let matchesDate = true;
-    if (dateFrom || dateTo) {
-       const entryDate = new Date(entry.timestamp);
-       entryDate.setHours(0,0,0,0);
-       
-       if (dateFrom) {
-         const from = new Date(dateFrom);
-         if (entryDate < from) matchesDate = false;
-       }
-       if (dateTo) {
-         const to = new Date(dateTo);
-         if (entryDate > to) matchesDate = false;
-       }
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // A scanned code while the ledger is already open
+  useEffect(() => {
+    if (searchRequest) setSearchTerm(searchRequest.text);
+  }, [searchRequest]);
+
+  useEffect(() => {
+    setCodeSuggestions([]);
+    if (!summary || summary.count > 0 || !looksLikeCode(debouncedSearch)) return;
+    let cancelled = false;
+    suggestReceiptCodes(debouncedSearch)
+      .then(codes => { if (!cancelled) setCodeSuggestions(codes); })
+      .catch(err => console.warn("Could not suggest receipt codes", err));
+    return () => { cancelled = true; };
+  }, [summary, debouncedSearch]);
+
+  // Inclusive range in local time: start of 'from' day to end of 'to' day
+  const filter: LedgerFilter = {
+    search: debouncedSearch,
+    from: dateFrom ? fromDateInputValue(dateFrom) : undefined,
+    to: dateTo ? fromDateInputValue(dateTo) + 24 * 60 * 60 * 1000 - 1 : undefined,
+    panditId: panditFilter,
+    ritualId: ritualFilter
+  };
+  const sections = ledgerSections(groupByPandit);
+  const loadedCount = rows.filter(r => r.type === 'entry').length;
+
+  const loadMore = async (limit: number = LEDGER_PAGE_SIZE) => {
+    if (loadingRef.current || !positionRef.current) return;
+    const generation = generationRef.current;
+    loadingRef.current = true;
+    setPageLoading(true);
+    try {
+      const result = await loadLedgerRows(filter, sections, positionRef.current, limit);
+      if (generation === generationRef.current) {
+        positionRef.current = result.position;
+        setRows(prev => [...prev, ...result.rows]);
+      }
+    } catch (err) {
+      console.warn("Paging failed, filtering in memory", err);
+      if (generation === generationRef.current) {
+        positionRef.current = null;
+        setRows(ledgerRowsFromMemory(offlineEntries, filter, sections));
+      }
+    } finally {
+      // A reload may already have started a newer load
+      if (generation === generationRef.current) {
+        loadingRef.current = false;
+        setPageLoading(false);
+      }
     }
+  };
 
-    return matchesSearch && matchesDate;
-  });
+  // Start over when filters change; after edits reload as many rows as were showing
+  useEffect(() => {
+    if (loading) return;
+    generationRef.current++;
+    const generation = generationRef.current;
+    const reloadCount = Math.max(LEDGER_PAGE_SIZE, loadedCount);
+    positionRef.current = { section: 0, after: null };
+    loadingRef.current = false;
+    setRows([]);
+    loadMore(reloadCount);
+
+    Promise.all([summarizeLedger(filter), dbService.countClients()])
+      .then(([result, count]) => {
+        if (generation !== generationRef.current) return;
+        setSummary(result);
+        setTotalCount(count);
+      })
+      .catch(() => {
+        if (generation !== generationRef.current) return;
+        setSummary(summarizeMemory(offlineEntries, filter));
+        setTotalCount(offlineEntries.length);
+      });
+  }, [loading, debouncedSearch, dateFrom, dateTo, panditFilter, ritualFilter, groupByPandit, refreshKey, offlineEntries]);
 
   const clearFilters = () => {
     setSearchTerm('');
     setDateFrom('');
     setDateTo('');
+    setPanditFilter('');
+    setRitualFilter('');
   };
 
-  const handlePrint = () => {
+  const loadMatching = async () => {
+    try {
+      return await loadAllMatching(filter);
+    } catch (err) {
+      return offlineEntries.filter(e => matchesLedgerFilter(e, filter));
+    }
+  };
+
+  const handlePrint = async () => {
+    setPrintEntries(await loadMatching());
     setShowPreview(true);
   };
 
+  const handleExport = async () => {
+    setExportEntries(await loadMatching());
+  };
+
+  // The printed register is rendered in full only while printing
+  useEffect(() => {
+    const clear = () => setPrintEntries(null);
+    window.addEventListener('afterprint', clear);
+    return () => window.removeEventListener('afterprint', clear);
+  }, []);
+
+  const renderGroupHeader = (contact: Contact | undefined, totals?: { count: number, received: number }) => (
+    <div className={`flex items-center gap-3 ${hasBg ? 'glass-panel' : 'bg-white'} px-4 py-3 rounded-xl shadow-sm border border-slate-100 print:shadow-none print:border-0 print:border-b-2 print:border-black print:rounded-none`}>
+      <div className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-bold shrink-0 ${contact ? contact.colorClass : 'bg-slate-100 text-slate-500'}`}>
+        {contact ? contact.initial : '?'}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="font-bold text-slate-800 truncate">{contact ? contact.name : 'Not assigned'}</div>
+        {totals && (
+          <div className="text-xs text-slate-500">
+            {totals.count} booking(s)
+            {showPayments && <> • Received {formatINR(totals.received)}</>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  // 'forPrint' reads images right away, since printed cards are never scrolled into view
+  const renderEntry = (entry: ClientEntry, forPrint: boolean = false) => (
+    <div key={entry.id} className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100 overflow-hidden page-break print:break-inside-avoid print:shadow-none print:border-2 print:border-black print:rounded-none print:bg-white print:mb-8`}>
+      <div className="bg-slate-50/80 px-4 py-3 border-b border-slate-200 flex justify-between items-center print:bg-slate-100 print:border-b-2 print:border-black print:py-2">
+          <span className="font-bold text-slate-600 text-xs uppercase tracking-wide print:text-black">
+            {new Date(entry.timestamp).toLocaleDateString()} 
+            <span className="print:hidden"> • {new Date(entry.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+          </span>
+          <div className="flex items-center gap-2">
+            <span className="font-mono font-bold text-xs bg-white border border-slate-200 px-2 py-1 rounded text-slate-600 print:text-black print:border-black">
+              {entry.uniqueCode}
+            </span>
+            <button onClick={() => onMessage(entry)} className="no-print text-green-600 hover:text-green-700 p-1" title="WhatsApp Message">
+              <MessageIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => onReceipt(entry)} className="no-print text-green-600 hover:text-green-700 p-1" title="Share Receipt">
+              <ShareIcon className="w-4 h-4" />
+            </button>
+            {canEdit && (
+              <button onClick={() => onEdit(entry)} className="no-print text-indigo-400 hover:text-indigo-600 p-1" title="Edit Record">
+                <PencilIcon className="w-4 h-4" />
+              </button>
+            )}
+            {canDelete && (
+              <button onClick={() => onDelete(entry.id)} className="no-print text-red-400 hover:text-red-600 p-1">
+                <div className="w-4 h-4 flex items-center justify-center">×</div>
+              </button>
+            )}
+          </div>
+      </div>
+      <div className="p-5 print:p-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start gap-4 mb-4 print:flex-row">
+            <div className="flex gap-4">
+                {(entry.photoId || entry.clientPhoto) && (
+                  <MediaImage
+                    mediaId={entry.photoId}
+                    inline={entry.clientPhoto}
+                    onClick={() => setViewingImage({ mediaId: entry.photoId, inline: entry.clientPhoto })}
+                    lazy={!forPrint}
+                    className="w-16 h-16 rounded-lg object-cover border border-slate-200 cursor-zoom-in print:w-20 print:h-20 print:grayscale print:border-black"
+                    alt="Client"
+                  />
+                )}
+                <div>
+                  {entry.personId ? (
+                    <button onClick={() => onOpenClient(entry.personId!)} className="text-left text-xl font-bold text-slate-900 print:text-black leading-none mb-1 hover:text-indigo-700 hover:underline">{entry.clientName}</button>
+                  ) : (
+                    <h3 className="text-xl font-bold text-slate-900 print:text-black leading-none mb-1">{entry.clientName}</h3>
+                  )}
+                  <div className="flex flex-col gap-1 text-sm text-slate-500 print:text-black mt-2">
+                    <span className="flex items-center gap-1"><PhoneIcon className="w-3 h-3" /> {entry.phone}</span>
+                    {entry.address && <span className="text-xs">{entry.address}</span>}
+                    {entry.scheduledDate && (
+                      <span className="text-[11px] text-indigo-700 font-bold flex items-center gap-1 print:text-black">
+                        <CalendarIcon className="w-3 h-3" /> {formatDay(entry.scheduledDate)} • {slotLabel(entry.scheduledSlot)}{entry.location ? ` • ${entry.location}` : ''}
+                      </span>
+                    )}
+                    {(entry.performedBy || entry.registeredBy) && (
+                      <span className="text-[11px] text-slate-500 print:text-black">
+                        Performed by <span className="font-bold text-slate-700 print:text-black">{panditName(entry.performedBy)}</span>
+                        {entry.registeredBy && entry.registeredBy !== entry.performedBy && <> • Registered by {panditName(entry.registeredBy)}</>}
+                      </span>
+                    )}
+                    {entry.personId && people.some(p => p.id === entry.personId) && (
+                      <button onClick={() => onOpenFamily(entry.personId!)} className="no-print text-xs font-bold text-amber-700 flex items-center gap-1 hover:underline">
+                        <FamilyTreeIcon className="w-3 h-3" /> {people.find(p => p.id === entry.personId)!.gotra || 'Family'} Vanshavali
+                      </button>
+                    )}
+                  </div>
+                </div>
+            </div>
+            <div className="text-right flex-shrink-0 flex flex-col items-end gap-2">
+                {showPayments && <PaymentSummary entry={entry} />}
+                {forPrint && <QrCode value={entry.uniqueCode} size={72} />}
+            </div>
+          </div>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-100 text-sm text-slate-700 whitespace-pre-wrap leading-relaxed mb-4 font-serif print:bg-white print:border-0 print:p-0 print:pl-2 print:border-l-2 print:border-black print:rounded-none print:text-justify print:text-black">
+            {entry.servicePlan}
+          </div>
+          <div className="flex justify-between items-end mt-4 pt-4 border-t border-slate-100 print:border-black print:mt-4 print:pt-4">
+              <div className="hidden print:block text-[10px] text-black pt-8 font-bold">Authorized Signature: _______________________</div>
+              {entry.signatureId || entry.signatureImage ? (
+                  <div className="flex flex-col items-end">
+                      <MediaImage
+                        mediaId={entry.signatureId}
+                        inline={entry.signatureImage}
+                        onClick={() => setViewingImage({ mediaId: entry.signatureId, inline: entry.signatureImage })}
+                        lazy={!forPrint}
+                        className="h-10 object-contain border-b border-slate-300 pb-1 cursor-zoom-in print:h-12 print:grayscale print:border-black"
+                        alt="Signature"
+                      />
+                      <span className="text-[10px] text-slate-400 mt-1 print:text-black">Client Signature</span>
+                  </div>
+              ) : <div className="text-[10px] text-slate-300 italic">No Signature</div>}
+          </div>
+          {entry.revisions && entry.revisions.length > 0 && <RevisionHistory revisions={entry.revisions} hidePayments={!showPayments} />}
+      </div>
+    </div>
+  );
+
   return (
     <>
       <div className="space-y-4 animate-[fadeIn_0.5s_ease-out] print:space-y-0 print:block">
@@ -789,18 +1916,40 @@ const LedgerView: React.FC<{ entries: ClientEntry[], loading: boolean, hasBg: bo
         <div className={`flex justify-between items-center ${hasBg ? 'glass-panel' : 'bg-white'} p-4 rounded-xl shadow-sm border border-slate-100 no-print`}>
           <div>
             <h2 className="font-bold text-lg text-slate-800">Ledger Records</h2>
-            <p className="text-xs text-slate-500">{loading ? 'Loading...' : `Showing: ${filteredEntries.length} / ${entries.length}`}</p>
+            <p className="text-xs text-slate-500">{loading || !summary ? 'Loading...' : `Showing: ${summary.count} / ${totalCount}`}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canDelete && (
+              <button onClick={onOpenTrash} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-red-600 transition" title="Recycle Bin">
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onOpenDues && (
+              <button onClick={onOpenDues} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-orange-600 transition" title="Outstanding Dues">
+                <WalletIcon className="w-5 h-5" />
+              </button>
+            )}
+            {onImport && (
+              <button onClick={onImport} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-indigo-600 transition" title="Import Spreadsheet">
+                <UploadIcon className="w-5 h-5" />
+              </button>
+            )}
+            {canEdit && (
+              <button onClick={handleExport} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-indigo-600 transition" title="Export Spreadsheet">
+                <DownloadIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={handlePrint} className="bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-900 shadow-lg shadow-slate-300 active:scale-95 transition-transform">
+              <PrintIcon className="w-4 h-4" /> Print / PDF
+            </button>
           </div>
-          <button onClick={handlePrint} className="bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-900 shadow-lg shadow-slate-300 active:scale-95 transition-transform">
-            <PrintIcon className="w-4 h-4" /> Print / PDF
-          </button>
         </div>
 
         {/* Filter Controls (No Print) */}
         <div className={`no-print ${hasBg ? 'glass-panel' : 'bg-white'} p-4 rounded-xl shadow-sm border border-slate-100 space-y-3`}>
           <div className="flex gap-2 items-center mb-2">
               <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Filter Records</span>
-              {(searchTerm || dateFrom || dateTo) && (
+              {(searchTerm || dateFrom || dateTo || panditFilter || ritualFilter) && (
                 <button onClick={clearFilters} className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded flex items-center gap-1 hover:bg-slate-200">
                   <RefreshCcwIcon className="w-3 h-3" /> Clear
                 </button>
@@ -814,10 +1963,15 @@ const LedgerView: React.FC<{ entries: ClientEntry[], loading: boolean, hasBg: bo
                   <input 
                     type="text" 
                     placeholder="Search name, phone, code..." 
-                    className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    className="w-full pl-9 pr-10 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                   />
+                  {onScan && (
+                    <button onClick={onScan} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-indigo-600 p-1" title="Scan Receipt">
+                      <QrCodeIcon className="w-4 h-4" />
+                    </button>
+                  )}
               </div>
               <div className="flex gap-2">
                   <div className="relative flex-1">
@@ -844,6 +1998,46 @@ const LedgerView: React.FC<{ entries: ClientEntry[], loading: boolean, hasBg: bo
                   </div>
               </div>
           </div>
+          <div className="flex gap-2 items-center">
+              <select
+                className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-600"
+                value={panditFilter}
+                onChange={(e) => setPanditFilter(e.target.value)}
+              >
+                <option value="">All Pandits</option>
+                {PANDIT_CONTACTS.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-xs font-bold text-slate-600 cursor-pointer shrink-0">
+                <input type="checkbox" checked={groupByPandit} onChange={(e) => setGroupByPandit(e.target.checked)} />
+                Group by Pandit
+              </label>
+          </div>
+          <select
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-600"
+            value={ritualFilter}
+            onChange={(e) => setRitualFilter(e.target.value)}
+          >
+            <option value="">All Rituals</option>
+            {loadRituals().map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          {summary?.count === 0 && looksLikeCode(debouncedSearch) && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-900 space-y-1">
+              <div>
+                No record with code <span className="font-mono font-bold">{debouncedSearch.toUpperCase()}</span>.
+                {isCheckableCode(debouncedSearch) && !hasValidCheckDigit(debouncedSearch) && ' The last digit does not match, so it was probably mistyped.'}
+              </div>
+              {codeSuggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>Did you mean</span>
+                  {codeSuggestions.map(suggestion => (
+                    <button key={suggestion} onClick={() => setSearchTerm(suggestion)} className="font-mono font-bold bg-white border border-amber-300 px-2 py-0.5 rounded hover:bg-amber-100">
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Print Header (Visible during actual Print) */}
@@ -857,91 +2051,159 @@ const LedgerView: React.FC<{ entries: ClientEntry[], loading: boolean, hasBg: bo
           </div>
           <div className="flex justify-between items-end text-xs text-slate-500 px-1 font-mono border-t border-black pt-2">
               <span>Date: {new Date().toLocaleDateString()}</span>
-              <span>Records: {filteredEntries.length}</span>
+              <span>Records: {printEntries ? printEntries.length : summary?.count ?? 0}</span>
           </div>
         </div>
 
-        {loading ? (
+        {loading || (rows.length === 0 && pageLoading) ? (
           <div className="text-center py-20 text-slate-500">Loading database...</div>
-        ) : filteredEntries.length === 0 ? (
+        ) : rows.length === 0 ? (
           <div className={`text-center py-20 px-6 rounded-2xl border-2 border-dashed ${hasBg ? 'bg-white/60 border-white/50 text-slate-700' : 'border-slate-200 text-slate-400'} no-print`}>
             <ClipboardIcon className="w-12 h-12 mx-auto mb-3 opacity-50" />
             <p className="font-medium">No matching records found.</p>
-            {(searchTerm || dateFrom || dateTo) && <button onClick={clearFilters} className="text-indigo-600 font-bold mt-2 text-sm hover:underline">Clear Filters</button>}
+            {(searchTerm || dateFrom || dateTo || panditFilter || ritualFilter) && <button onClick={clearFilters} className="text-indigo-600 font-bold mt-2 text-sm hover:underline">Clear Filters</button>}
           </div>
         ) : (
-          <div className="space-y-4 print:space-y-8">
-            {filteredEntries.map(entry => (
-              <div key={entry.id} className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100 overflow-hidden page-break print:break-inside-avoid print:shadow-none print:border-2 print:border-black print:rounded-none print:bg-white print:mb-8`}>
-                <div className="bg-slate-50/80 px-4 py-3 border-b border-slate-200 flex justify-between items-center print:bg-slate-100 print:border-b-2 print:border-black print:py-2">
-                    <span className="font-bold text-slate-600 text-xs uppercase tracking-wide print:text-black">
-                      {new Date(entry.timestamp).toLocaleDateString()} 
-                      <span className="print:hidden"> • {new Date(entry.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
-                    </span>
-                    <div className="flex items-center gap-2">
-                      <span className="font-mono font-bold text-xs bg-white border border-slate-200 px-2 py-1 rounded text-slate-600 print:text-black print:border-black">
-                        {entry.uniqueCode}
-                      </span>
-                      <button onClick={() => onDelete(entry.id)} className="no-print text-red-400 hover:text-red-600 p-1">
-                        <div className="w-4 h-4 flex items-center justify-center">×</div>
-                      </button>
-                    </div>
-                </div>
-                <div className="p-5 print:p-6">
-                    <div className="flex flex-col sm:flex-row justify-between items-start gap-4 mb-4 print:flex-row">
-                      <div className="flex gap-4">
-                          {entry.clientPhoto && (
-                            <img src={entry.clientPhoto} className="w-16 h-16 rounded-lg object-cover border border-slate-200 print:w-20 print:h-20 print:grayscale print:border-black" alt="Client" />
-                          )}
-                          <div>
-                            <h3 className="text-xl font-bold text-slate-900 print:text-black leading-none mb-1">{entry.clientName}</h3>
-                            <div className="flex flex-col gap-1 text-sm text-slate-500 print:text-black mt-2">
-                              <span className="flex items-center gap-1"><PhoneIcon className="w-3 h-3" /> {entry.phone}</span>
-                              {entry.address && <span className="text-xs">{entry.address}</span>}
-                            </div>
-                          </div>
-                      </div>
-                      <div className="text-right flex-shrink-0">
-                          <div className="inline-block border border-green-200 bg-green-50 text-green-800 px-3 py-1 rounded-md font-bold text-sm print:bg-transparent print:border-black print:text-black print:rounded-none">
-                            {entry.paymentDetails}
-                          </div>
-                      </div>
-                    </div>
-                    <div className="bg-slate-50 p-4 rounded-lg border border-slate-100 text-sm text-slate-700 whitespace-pre-wrap leading-relaxed mb-4 font-serif print:bg-white print:border-0 print:p-0 print:pl-2 print:border-l-2 print:border-black print:rounded-none print:text-justify print:text-black">
-                      {entry.servicePlan}
-                    </div>
-                    <div className="flex justify-between items-end mt-4 pt-4 border-t border-slate-100 print:border-black print:mt-4 print:pt-4">
-                        <div className="hidden print:block text-[10px] text-black pt-8 font-bold">Authorized Signature: _______________________</div>
-                        {entry.signatureImage ? (
-                            <div className="flex flex-col items-end">
-                                <img src={entry.signatureImage} alt="Signature" className="h-10 object-contain border-b border-slate-300 pb-1 print:h-12 print:grayscale print:border-black" />
-                                <span className="text-[10px] text-slate-400 mt-1 print:text-black">Client Signature</span>
-                            </div>
-                        ) : <div className="text-[10px] text-slate-300 italic">No Signature</div>}
-                    </div>
+          <div className="print:hidden">
+            <VirtualList<LedgerRow>
+              items={rows}
+              getKey={row => row.type === 'header' ? `section-${row.section.key}` : row.entry.id}
+              estimateHeight={row => row.type === 'header' ? 80 : 300}
+              onEndReached={() => loadMore()}
+              renderItem={row => (
+                <div className={row.type === 'header' ? 'pb-4 pt-2' : 'pb-4'}>
+                  {row.type === 'header'
+                    ? renderGroupHeader(row.section.contact, summary?.bySection[row.section.key])
+                    : renderEntry(row.entry)}
                 </div>
+              )}
+            />
+            {pageLoading && <div className="text-center py-4 text-xs text-slate-500">Loading more...</div>}
+          </div>
+        )}
+
+        {/* Full register, rendered only while printing */}
+        {printEntries && (
+          <div className="hidden print:block">
+            {groupByPandit ? (
+              <div className="print:space-y-8">
+                {ledgerRowsFromMemory(printEntries, filter, sections).map(row => row.type === 'header'
+                  ? <React.Fragment key={`section-${row.section.key}`}>{renderGroupHeader(row.section.contact, summary?.bySection[row.section.key])}</React.Fragment>
+                  : renderEntry(row.entry, true))}
               </div>
-            ))}
+            ) : (
+              <div className="print:space-y-8">
+                {printEntries.map(entry => renderEntry(entry, true))}
+              </div>
+            )}
           </div>
         )}
       </div>
 
       {/* Print Preview Modal */}
+      {exportEntries && (
+        <LedgerExportModal entries={exportEntries} showPayments={showPayments} onClose={() => setExportEntries(null)} />
+      )}
+
       {showPreview && (
         <PrintPreviewModal 
-          entries={filteredEntries} 
-          onClose={() => setShowPreview(false)} 
+          entries={printEntries || []} 
+          showPayments={showPayments}
+          onClose={() => {
+            setShowPreview(false);
+            setPrintEntries(null);
+          }} 
           onPrint={() => {
             setShowPreview(false);
             setTimeout(() => window.print(), 300);
           }} 
         />
       )}
+
+      {viewingImage && (
+        <div onClick={() => setViewingImage(null)} className="no-print fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+          <MediaImage mediaId={viewingImage.mediaId} inline={viewingImage.inline} variant="full" className="max-w-full max-h-full min-w-[8rem] min-h-[8rem] object-contain rounded-xl bg-white" alt="Full size" />
+          <button onClick={() => setViewingImage(null)} className="absolute top-4 right-4 bg-white/90 text-slate-700 rounded-full p-2 shadow"><XIcon className="w-5 h-5" /></button>
+        </div>
+      )}
     </>
   );
 };
 
-const PrintPreviewModal: React.FC<{ entries: ClientEntry[], onClose: () => void, onPrint: () => void }> = ({ entries, onClose, onPrint }) => {
+const PaymentSummary: React.FC<{ entry: ClientEntry, forPrint?: boolean }> = ({ entry, forPrint }) => {
+  const paid = totalPaid(entry);
+  const balance = outstandingBalance(entry);
+  const boxClass = forPrint
+    ? 'border border-black text-black'
+    : 'border border-slate-200 bg-white/60 text-slate-700 print:bg-transparent print:border-black print:text-black print:rounded-none';
+
+  return (
+    <div className={`inline-block text-left rounded-md px-3 py-2 text-xs min-w-[150px] ${boxClass}`}>
+      <div className="flex justify-between gap-4"><span>Agreed</span><span className="font-bold">{formatINR(entry.agreedTotal)}</span></div>
+      <div className="flex justify-between gap-4"><span>Paid</span><span className="font-bold">{formatINR(paid)}</span></div>
+      <div className={`flex justify-between gap-4 mt-1 pt-1 border-t ${forPrint ? 'border-black' : 'border-slate-200 print:border-black'}`}>
+        <span className="font-bold">{balance < 0 ? 'Overpaid' : 'Balance'}</span>
+        <span className={`font-bold ${forPrint ? '' : balance > 0 ? 'text-red-600 print:text-black' : 'text-green-700 print:text-black'}`}>
+          {balance === 0 && paid > 0 ? 'Paid in full' : formatINR(Math.abs(balance))}
+        </span>
+      </div>
+      {entry.payments.length > 0 && (
+        <div className={`mt-2 pt-1 border-t space-y-0.5 ${forPrint ? 'border-black' : 'border-slate-200 print:border-black'}`}>
+          {entry.payments.map(p => (
+            <div key={p.id} className="flex justify-between gap-3 text-[10px]">
+              <span>{new Date(p.date).toLocaleDateString()} • {PAYMENT_TYPE_LABELS[p.type]} • {PAYMENT_MODE_LABELS[p.mode]}{p.reference ? ` (${p.reference})` : ''}</span>
+              <span className="font-bold">{formatINR(p.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {entry.paymentNotes && (
+        <div className={`mt-2 pt-1 border-t text-[10px] italic whitespace-pre-wrap ${forPrint ? 'border-black' : 'border-slate-200 print:border-black'}`}>
+          {entry.paymentNotes}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RevisionHistory: React.FC<{ revisions: ClientRevision[], hidePayments?: boolean }> = ({ revisions, hidePayments }) => {
+  const [open, setOpen] = useState(false);
+  const latest = revisions[revisions.length - 1];
+  const visibleChanges = (rev: ClientRevision) => hidePayments ? rev.changes.filter(c => !isPaymentField(c.field)) : rev.changes;
+
+  return (
+    <div className="mt-4 pt-3 border-t border-dashed border-slate-200 no-print">
+      <button onClick={() => setOpen(!open)} className="text-xs text-slate-500 font-bold flex items-center gap-1 hover:text-indigo-600">
+        <HistoryIcon className="w-3 h-3" />
+        Edited {revisions.length} {revisions.length === 1 ? 'time' : 'times'} • Last {new Date(latest.editedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+        <span className="ml-1">{open ? '▲' : '▼'}</span>
+      </button>
+      {open && (
+        <div className="mt-3 space-y-3">
+          {[...revisions].reverse().map((rev, i) => (
+            <div key={rev.editedAt + '-' + i} className="bg-slate-50 border border-slate-100 rounded-lg p-3">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-2">
+                {new Date(rev.editedAt).toLocaleString()}
+              </div>
+              <div className="space-y-1">
+                {visibleChanges(rev).map(change => (
+                  <div key={change.field} className="text-xs text-slate-700">
+                    <span className="font-bold">{change.label}:</span>{' '}
+                    <span className="line-through text-red-500 whitespace-pre-wrap">{change.before || '—'}</span>
+                    {' → '}
+                    <span className="text-green-700 whitespace-pre-wrap">{change.after || '—'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PrintPreviewModal: React.FC<{ entries: ClientEntry[], showPayments: boolean, onClose: () => void, onPrint: () => void }> = ({ entries, showPayments, onClose, onPrint }) => {
   const [downloading, setDownloading] = useState(false);
 
   const handleDownloadPdf = async () => {
@@ -1035,8 +2297,8 @@ const PrintPreviewModal: React.FC<{ entries: ClientEntry[], onClose: () => void,
                    <div className="p-4">
                       <div className="flex flex-row justify-between items-start gap-4 mb-4">
                          <div className="flex gap-4">
-                            {entry.clientPhoto && (
-                              <img src={entry.clientPhoto} className="w-20 h-20 rounded object-cover border border-black grayscale" alt="Client" />
+                            {(entry.photoId || entry.clientPhoto) && (
+                              <MediaImage mediaId={entry.photoId} inline={entry.clientPhoto} variant="full" lazy={false} className="w-20 h-20 rounded object-cover border border-black grayscale" alt="Client" />
                             )}
                             <div>
                               <h3 className="text-xl font-bold text-black leading-none mb-1">{entry.clientName}</h3>
@@ -1046,10 +2308,9 @@ const PrintPreviewModal: React.FC<{ entries: ClientEntry[], onClose: () => void,
                               </div>
                             </div>
                          </div>
-                         <div className="text-right flex-shrink-0">
-                            <div className="inline-block border border-black px-3 py-1 font-bold text-sm text-black">
-                              {entry.paymentDetails}
-                            </div>
+                         <div className="text-right flex-shrink-0 flex flex-col items-end gap-2">
+                            {showPayments && <PaymentSummary entry={entry} forPrint />}
+                            <QrCode value={entry.uniqueCode} size={72} />
                          </div>
                       </div>
                       <div className="pl-2 border-l-2 border-slate-300 text-sm text-justify text-black mb-4 whitespace-pre-wrap font-serif">
@@ -1057,9 +2318,9 @@ const PrintPreviewModal: React.FC<{ entries: ClientEntry[], onClose: () => void,
                       </div>
                       <div className="flex justify-between items-end mt-2 pt-2 border-t border-black">
                           <div className="text-[10px] text-black pt-8 font-bold">Authorized Signature: _______________________</div>
-                          {entry.signatureImage ? (
+                          {entry.signatureId || entry.signatureImage ? (
                               <div className="flex flex-col items-end">
-                                  <img src={entry.signatureImage} alt="Signature" className="h-12 object-contain grayscale" />
+                                  <MediaImage mediaId={entry.signatureId} inline={entry.signatureImage} variant="full" lazy={false} alt="Signature" className="h-12 object-contain grayscale" />
                                   <span className="text-[10px] text-black mt-1">Client Signature</span>
                               </div>
                           ) : <div className="text-[10px] text-slate-300 italic">No Signature</div>}
@@ -1075,9 +2336,142 @@ const PrintPreviewModal: React.FC<{ entries: ClientEntry[], onClose: () => void,
   );
 };
 
-const FaceSearchView: React.FC<{ entries: ClientEntry[], hasBg: boolean }> = ({ entries, hasBg }) => {
+// One pilgrim's booking as proof: rendered like a printed slip, then captured as an
+// image or PDF and handed to the share sheet (WhatsApp) or downloaded
+const ReceiptModal: React.FC<{ entry: ClientEntry, person?: Person, showPayments: boolean, onClose: () => void }> = ({ entry, person, showPayments, onClose }) => {
+  const [working, setWorking] = useState<'image' | 'pdf' | null>(null);
+  const head = PANDIT_CONTACTS.find(c => c.accessRole === 'head') || PANDIT_CONTACTS[0];
+  const baseName = `Yatra_Receipt_${entry.uniqueCode}`;
+  const shareText = `Booking receipt ${entry.uniqueCode} • Yatra To Mathura`;
+
+  const handleExport = async (kind: 'image' | 'pdf') => {
+    const element = document.getElementById('receipt-content');
+    const html2pdf = (window as any).html2pdf;
+    if (!element || !html2pdf) {
+      alert("PDF Library not loaded. Please try again.");
+      return;
+    }
+
+    setWorking(kind);
+    try {
+      const worker = html2pdf().set({
+        margin: 6,
+        filename: `${baseName}.pdf`,
+        image: { type: 'jpeg', quality: 0.95 },
+        html2canvas: { scale: 2, useCORS: true, backgroundColor: '#ffffff' },
+        jsPDF: { unit: 'mm', format: 'a5', orientation: 'portrait' }
+      }).from(element);
+
+      let blob: Blob;
+      if (kind === 'pdf') {
+        blob = await worker.outputPdf('blob');
+      } else {
+        const canvas: HTMLCanvasElement = await worker.toCanvas().get('canvas');
+        blob = await new Promise<Blob>((resolve, reject) =>
+          canvas.toBlob(result => (result ? resolve(result) : reject(new Error("Could not create image"))), 'image/png'));
+      }
+      await shareOrDownload(blob, `${baseName}.${kind === 'pdf' ? 'pdf' : 'png'}`, shareText);
+    } catch (e) {
+      console.error("Receipt Export Error", e);
+      alert("Error creating the receipt. Please try again.");
+    }
+    setWorking(null);
+  };
+
+  const spinner = <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-slate-900/95 backdrop-blur-md no-print animate-[fadeIn_0.2s_ease-out]">
+      {/* Toolbar */}
+      <div className="flex-none h-16 bg-slate-800 text-white flex items-center justify-between px-4 shadow-md border-b border-slate-700">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+            <ShareIcon className="w-5 h-5 text-indigo-400" />
+            Receipt
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded text-slate-300 hover:text-white font-medium text-sm transition">Close</button>
+          <button
+            onClick={() => handleExport('pdf')}
+            disabled={!!working}
+            className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-full font-bold text-sm flex items-center gap-2 shadow transition disabled:opacity-50"
+          >
+             {working === 'pdf' ? spinner : <DownloadIcon className="w-4 h-4" />}
+             PDF
+          </button>
+          <button
+            onClick={() => handleExport('image')}
+            disabled={!!working}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-full font-bold text-sm flex items-center gap-2 shadow-lg active:scale-95 transition disabled:opacity-50"
+          >
+             {working === 'image' ? spinner : <ShareIcon className="w-4 h-4" />}
+             Share
+          </button>
+        </div>
+      </div>
+
+      {/* Preview Area */}
+      <div className="flex-grow overflow-y-auto p-4 sm:p-8 bg-slate-900 flex justify-center custom-scrollbar">
+        <div id="receipt-content" className="bg-white text-black w-full max-w-[420px] shadow-2xl p-6 self-start">
+          {/* Letterhead */}
+          <div className="text-center border-b-2 border-black pb-4 mb-4">
+            <div className="text-3xl">🕉️</div>
+            <h1 className="text-xl font-bold uppercase tracking-wider">Yatra To Mathura</h1>
+            <p className="text-black/70 text-xs">Authorized Yatra Service • Mathura</p>
+            <p className="text-sm font-bold mt-2">{head.name} &amp; Family</p>
+            <div className="flex flex-wrap justify-center gap-x-3 text-[10px] text-black/70 mt-1">
+              {PANDIT_CONTACTS.map(c => <span key={c.id}>{c.name.split(' ')[0]}: {c.phone}</span>)}
+            </div>
+          </div>
+
+          <div className="flex justify-between items-start gap-4 mb-4">
+            <div className="min-w-0">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-black/60">Booking Receipt</div>
+              <div className="font-mono font-bold text-lg">{entry.uniqueCode}</div>
+              <div className="text-xs">{new Date(entry.timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</div>
+            </div>
+            <QrCode value={entry.uniqueCode} size={88} />
+          </div>
+
+          {/* Pilgrim */}
+          <div className="border-t border-black pt-3 mb-4 space-y-1 text-sm">
+            <div className="text-lg font-bold leading-tight">{entry.clientName}</div>
+            {person?.gotra && <div className="text-xs">Gotra: {person.gotra}</div>}
+            <div className="flex items-center gap-1"><PhoneIcon className="w-3 h-3" /> {entry.phone}</div>
+            {entry.address && <div className="text-xs">{entry.address}</div>}
+            {entry.performedBy && <div className="text-xs">Performed by <span className="font-bold">{panditName(entry.performedBy)}</span></div>}
+          </div>
+
+          {/* Ritual */}
+          <div className="mb-4">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-black/60 mb-1">Ritual / Seva</div>
+            <div className="pl-2 border-l-2 border-black text-sm whitespace-pre-wrap font-serif">{entry.servicePlan}</div>
+          </div>
+
+          {showPayments && (
+            <div className="mb-4">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-black/60 mb-1">Payments</div>
+              <PaymentSummary entry={entry} forPrint />
+            </div>
+          )}
+
+          <div className="flex justify-between items-end pt-3 border-t border-black">
+            <div className="text-[10px] font-bold pt-8">Authorized Signature: ____________</div>
+            {entry.signatureId || entry.signatureImage ? (
+              <div className="flex flex-col items-end">
+                <MediaImage mediaId={entry.signatureId} inline={entry.signatureImage} variant="full" lazy={false} alt="Signature" className="h-12 object-contain grayscale" />
+                <span className="text-[10px] mt-1">Pilgrim Signature</span>
+              </div>
+            ) : <div className="text-[10px] text-slate-400 italic">No Signature</div>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FaceSearchView: React.FC<{ hasBg: boolean }> = ({ hasBg }) => {
   const [scannedImage, setScannedImage] = useState<string | null>(null);
-  const [resultId, setResultId] = useState<number | null>(null);
+  const [matchedEntry, setMatchedEntry] = useState<ClientEntry | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -1085,12 +2479,25 @@ const FaceSearchView: React.FC<{ entries: ClientEntry[], hasBg: boolean }> = ({
     setScannedImage(image);
     setLoading(true);
     setError(null);
-    setResultId(null);
+    setMatchedEntry(null);
     
-    // Prepare candidates (filter only those with photos)
-    const candidates = entries
-      .filter(e => e.clientPhoto)
-      .map(e => ({ id: e.id, name: e.clientName, photo: e.clientPhoto! }));
+    // Prepare candidates: the newest records with photos, as the matcher compares at most 10
+    const withPhotos: ClientEntry[] = [];
+    let candidates: { id: number, name: string, photo: string }[] = [];
+    try {
+      await dbService.scanClients({}, null, entry => {
+        if (entry.photoId || entry.clientPhoto) withPhotos.push(entry);
+        return withPhotos.length < 10;
+      });
+      const media = await dbService.getMedia(withPhotos.filter(e => e.photoId).map(e => e.photoId!));
+      const photoById = new Map<string, string>();
+      for (const m of media) photoById.set(m.id, await blobToDataUrl(m.blob));
+      candidates = withPhotos
+        .map(e => ({ id: e.id, name: e.clientName, photo: e.clientPhoto || photoById.get(e.photoId!) || '' }))
+        .filter(c => c.photo);
+    } catch (err) {
+      console.warn("Could not load client photos", err);
+    }
 
     if (candidates.length === 0) {
       setError("No clients with photos in the ledger yet.");
@@ -1100,16 +2507,15 @@ const FaceSearchView: React.FC<{ entries: ClientEntry[], hasBg: boolean }> = ({
 
     const matchId = await findMatchingFace(image, candidates);
     
-    if (matchId) {
-      setResultId(matchId);
+    const match = withPhotos.find(e => e.id === matchId);
+    if (match) {
+      setMatchedEntry(match);
     } else {
       setError("No matching client found.");
     }
     setLoading(false);
   };
 
-  const matchedEntry = resultId ? entries.find(e => e.id === resultId) : null;
-
   return (
     <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg p-6`}>
        <h2 className="font-bold text-xl mb-4 text-slate-800 flex items-center gap-2">
@@ -1124,7 +2530,7 @@ const FaceSearchView: React.FC<{ entries: ClientEntry[], hasBg: boolean }> = ({
        ) : (
          <div className="mb-6 flex flex-col items-center">
             <img src={scannedImage} className="w-32 h-32 rounded-full object-cover border-4 border-indigo-100 mb-4" />
-            <button onClick={() => { setScannedImage(null); setResultId(null); setError(null); }} className="text-indigo-600 text-sm font-bold hover:underline">Scan Again</button>
+            <button onClick={() => { setScannedImage(null); setMatchedEntry(null); setError(null); }} className="text-indigo-600 text-sm font-bold hover:underline">Scan Again</button>
          </div>
        )}
 
@@ -1151,7 +2557,7 @@ const FaceSearchView: React.FC<{ entries: ClientEntry[], hasBg: boolean }> = ({
            
            <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm">
               <div className="flex items-center gap-4 mb-4">
-                 {matchedEntry.clientPhoto && <img src={matchedEntry.clientPhoto} className="w-16 h-16 rounded-lg object-cover" />}
+                 {(matchedEntry.photoId || matchedEntry.clientPhoto) && <MediaImage mediaId={matchedEntry.photoId} inline={matchedEntry.clientPhoto} className="w-16 h-16 rounded-lg object-cover" />}
                  <div>
                    <h3 className="font-bold text-lg">{matchedEntry.clientName}</h3>
                    <p className="text-sm text-slate-500">{matchedEntry.phone}</p>
@@ -0,0 +1,54 @@
+import React, { useMemo } from 'react';
+import { auspiciousDays, todayInIndia, tithiLabel } from '../services/panchang';
+import { formatDay } from '../services/calendar';
+import { SunIcon } from './Icons';
+
+interface AuspiciousDaysProps {
+  hasBg: boolean;
+  onSelect?: (date: string) => void; // Opens the day, e.g. to book it
+}
+
+const LOOK_AHEAD_DAYS = 45;
+const MAX_ROWS = 8;
+
+const AuspiciousDays: React.FC<AuspiciousDaysProps> = ({ hasBg, onSelect }) => {
+  const today = todayInIndia();
+  const days = useMemo(() => auspiciousDays(today, LOOK_AHEAD_DAYS).slice(0, MAX_ROWS), [today]);
+
+  return (
+    <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg overflow-hidden border border-slate-100`}>
+      <div className="bg-amber-50 px-5 py-4 border-b border-amber-100 flex items-center gap-2">
+        <SunIcon className="w-5 h-5 text-amber-600" />
+        <h3 className="font-bold text-amber-900">Upcoming Auspicious Days</h3>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {days.map(day => (
+          <button
+            key={day.date}
+            onClick={() => onSelect?.(day.date)}
+            disabled={!onSelect}
+            className="w-full flex items-center gap-3 px-5 py-3 text-left hover:bg-slate-50 disabled:hover:bg-transparent"
+          >
+            <div className="w-12 text-center shrink-0">
+              <div className="text-lg font-extrabold text-slate-800 leading-none">{Number(day.date.slice(8))}</div>
+              <div className="text-[10px] font-bold text-slate-500 uppercase">
+                {formatDay(day.date, { month: 'short', weekday: 'short' })}
+              </div>
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-bold text-slate-800 truncate">
+                {day.festivals.length > 0 ? day.festivals.map(f => f.name).join(' • ') : day.vrat}
+              </p>
+              <p className="text-xs text-slate-500 truncate">
+                {day.month} {day.paksha} {tithiLabel(day.tithi)}{day.festivals[0]?.note ? ` • ${day.festivals[0].note}` : ''}
+              </p>
+            </div>
+          </button>
+        ))}
+      </div>
+      <p className="px-5 py-2 text-[10px] text-slate-400 border-t border-slate-100">Calculated for Mathura on this phone; temple calendars can differ by a day.</p>
+    </div>
+  );
+};
+
+export default AuspiciousDays;
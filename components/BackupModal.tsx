@@ -0,0 +1,283 @@
+import React, { useRef, useState } from 'react';
+import { BackupArchive, RestoreMode, RestoreReport, RestoreCounts, MIN_PASSPHRASE_LENGTH, createArchive, encryptArchive, archiveFileName, downloadFile, readBackupFile, decryptArchive, restoreArchive } from '../services/backup';
+import { EncryptedEnvelope } from '../services/crypto';
+import { ArchiveIcon, DownloadIcon, UploadIcon, XIcon, AlertTriangleIcon } from './Icons';
+
+interface BackupModalProps {
+  onClose: () => void;
+  // Reloads app state after a restore wrote to the database
+  onRestored: () => Promise<void>;
+  // Restoring can overwrite or wipe the register, so it needs storage access
+  canRestore: boolean;
+  requestConfirm: (title: string, message: string, onConfirm: () => void, type?: 'danger' | 'info') => void;
+  closeConfirm: () => void;
+}
+
+const CountsRow: React.FC<{ label: string, counts: RestoreCounts }> = ({ label, counts }) => (
+  <tr className="border-t border-slate-100">
+    <td className="py-1 font-bold text-slate-700">{label}</td>
+    <td className="py-1 text-center text-green-700">{counts.added}</td>
+    <td className="py-1 text-center text-indigo-700">{counts.updated}</td>
+    <td className="py-1 text-center text-slate-500">{counts.skipped}</td>
+  </tr>
+);
+
+const BackupModal: React.FC<BackupModalProps> = ({ onClose, onRestored, canRestore, requestConfirm, closeConfirm }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  // Export passphrase (typed twice) and the passphrase for an encrypted file being imported
+  const [exporting, setExporting] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseRepeat, setPassphraseRepeat] = useState('');
+  const [envelope, setEnvelope] = useState<EncryptedEnvelope | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+
+  const passphraseError =
+    passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.` :
+    passphrase !== passphraseRepeat ? 'Passphrases do not match.' : null;
+
+  const handleExport = async () => {
+    if (passphraseError) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await createArchive();
+      const blob = new Blob([await encryptArchive(data, passphrase)], { type: 'application/json' });
+      downloadFile(blob, archiveFileName(data.exportedAt, true));
+      setExporting(false);
+      setPassphrase('');
+      setPassphraseRepeat('');
+    } catch (e: any) {
+      console.error("Backup export failed", e);
+      setError("Could not create backup: " + e.message);
+    }
+    setBusy(false);
+  };
+
+  const handleUnlock = async () => {
+    if (!envelope) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setArchive(await decryptArchive(envelope, unlockPassphrase));
+      setEnvelope(null);
+      setUnlockPassphrase('');
+    } catch (e: any) {
+      setError(e.message);
+    }
+    setBusy(false);
+  };
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = '';
+    if (!file) return;
+
+    setError(null);
+    setReport(null);
+    setArchive(null);
+    setEnvelope(null);
+    try {
+      const result = readBackupFile(await file.text());
+      if ('envelope' in result) {
+        setEnvelope(result.envelope);
+      } else {
+        setArchive(result.archive);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const runRestore = async () => {
+    if (!archive) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await restoreArchive(archive, mode);
+      await onRestored();
+      setReport(result);
+      setArchive(null);
+    } catch (e: any) {
+      console.error("Restore failed", e);
+      setError("Restore failed. Nothing was changed. " + (e?.message || ''));
+    }
+    setBusy(false);
+  };
+
+  const handleRestore = () => {
+    if (mode === 'replace') {
+      requestConfirm(
+        "Replace All Records",
+        "Every record, family register entry and background photo on this device will be replaced by the backup, and the Recycle Bin will be emptied. This cannot be undone.",
+        () => { closeConfirm(); runRestore(); },
+        'danger'
+      );
+    } else {
+      runRestore();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden max-h-full flex flex-col">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <ArchiveIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">Backup & Restore</h3>
+              <p className="text-xs text-indigo-700">Keep a copy of the register off this phone.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <button
+            onClick={() => setExporting(!exporting)}
+            disabled={busy}
+            className="w-full bg-indigo-50 border border-indigo-100 p-3 rounded-xl flex items-center justify-between hover:bg-indigo-100 transition text-left disabled:opacity-50"
+          >
+            <div>
+              <div className="font-bold text-indigo-900 text-sm">Download Backup</div>
+              <div className="text-xs text-indigo-600">All records, photos, signatures & backgrounds, locked with a passphrase.</div>
+            </div>
+            <DownloadIcon className="w-5 h-5 text-indigo-600" />
+          </button>
+
+          {exporting && (
+            <div className="border border-indigo-100 rounded-xl p-3 space-y-2">
+              <input type="password" autoComplete="new-password" className={fieldClass} value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Backup passphrase" />
+              <input type="password" autoComplete="new-password" className={fieldClass} value={passphraseRepeat} onChange={e => setPassphraseRepeat(e.target.value)} placeholder="Repeat passphrase" />
+              <p className="text-[11px] text-slate-500">
+                {passphrase && passphraseError ? <span className="text-red-600 font-bold">{passphraseError}</span> : 'Without this passphrase the backup cannot be restored. Write it down somewhere safe.'}
+              </p>
+              <button
+                onClick={handleExport}
+                disabled={busy || !!passphraseError}
+                className="w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-bold text-sm shadow active:scale-95 transition disabled:opacity-50"
+              >
+                {busy ? 'Encrypting...' : 'Download Encrypted Backup'}
+              </button>
+            </div>
+          )}
+
+          {canRestore ? (
+            <>
+              <button
+                onClick={() => fileRef.current?.click()}
+                disabled={busy}
+                className="w-full bg-slate-50 border border-slate-200 p-3 rounded-xl flex items-center justify-between hover:bg-slate-100 transition text-left disabled:opacity-50"
+              >
+                <div>
+                  <div className="font-bold text-slate-800 text-sm">Restore From File</div>
+                  <div className="text-xs text-slate-500">Choose a backup file to load.</div>
+                </div>
+                <UploadIcon className="w-5 h-5 text-slate-500" />
+              </button>
+              <input type="file" ref={fileRef} className="hidden" accept=".json,application/json" onChange={handleFile} />
+            </>
+          ) : (
+            <p className="text-xs text-slate-500 text-center">Only a member who manages storage can restore a backup.</p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-800 p-3 rounded-lg border border-red-100 text-sm font-medium flex gap-2">
+              <AlertTriangleIcon className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+            </div>
+          )}
+
+          {envelope && (
+            <div className="border border-slate-200 rounded-xl p-3 space-y-2">
+              <div className="font-bold text-slate-800 text-sm">🔒 This backup is encrypted</div>
+              <input
+                type="password"
+                autoComplete="off"
+                className={fieldClass}
+                value={unlockPassphrase}
+                onChange={e => setUnlockPassphrase(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleUnlock()}
+                placeholder="Enter backup passphrase"
+              />
+              <button
+                onClick={handleUnlock}
+                disabled={busy || !unlockPassphrase}
+                className="w-full py-2 rounded-lg bg-slate-800 hover:bg-slate-900 text-white font-bold text-sm shadow active:scale-95 transition disabled:opacity-50"
+              >
+                {busy ? 'Unlocking...' : 'Unlock Backup'}
+              </button>
+            </div>
+          )}
+
+          {archive && (
+            <div className="border border-slate-200 rounded-xl p-3 space-y-3">
+              <div className="text-xs text-slate-600">
+                <div className="font-bold text-slate-800 text-sm mb-1">Backup from {new Date(archive.exportedAt).toLocaleString()}</div>
+                {archive.clients.length} records • {archive.people.length} people • {archive.backgrounds.length} backgrounds • {archive.dayCloses.length} day closes • {archive.rituals.length} rituals
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+                  <span><span className="font-bold">Merge</span><span className="block text-xs text-slate-500">Add missing records, update older ones, keep everything else.</span></span>
+                </label>
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+                  <span><span className="font-bold text-red-700">Replace</span><span className="block text-xs text-slate-500">Delete everything on this device and load the backup.</span></span>
+                </label>
+              </div>
+              <button
+                onClick={handleRestore}
+                disabled={busy}
+                className={`w-full py-2 rounded-lg text-white font-bold text-sm shadow active:scale-95 transition disabled:opacity-50 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+              >
+                {busy ? 'Restoring...' : mode === 'replace' ? 'Replace With Backup' : 'Merge Backup'}
+              </button>
+            </div>
+          )}
+
+          {report && (
+            <div className="border border-green-200 bg-green-50 rounded-xl p-3">
+              <div className="font-bold text-green-900 text-sm mb-2">Restore complete ({report.mode})</div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-bold"></th>
+                    <th className="font-bold">Added</th>
+                    <th className="font-bold">Updated</th>
+                    <th className="font-bold">Skipped</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <CountsRow label="Records" counts={report.clients} />
+                  <CountsRow label="People" counts={report.people} />
+                  <CountsRow label="Backgrounds" counts={report.backgrounds} />
+                  <CountsRow label="Day closes" counts={report.dayCloses} />
+                  <CountsRow label="Rituals" counts={report.rituals} />
+                </tbody>
+              </table>
+              {report.conflicts.length > 0 && (
+                <div className="mt-3 text-xs text-orange-800">
+                  <div className="font-bold mb-1">Skipped — code already used by a different record:</div>
+                  <ul className="list-disc pl-4 space-y-0.5">
+                    {report.conflicts.map((c, i) => <li key={i}>{c}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
@@ -0,0 +1,51 @@
+import React from 'react';
+
+interface BarChartProps {
+  data: { key: string, label: string, value: number }[];
+  formatValue?: (value: number) => string;
+  color?: string; // Tailwind fill class
+  height?: number;
+}
+
+const WIDTH = 600;
+const AXIS_HEIGHT = 18;
+const TOP_MARGIN = 14;
+const MAX_LABELS = 8;
+
+// Column chart drawn as plain SVG; it scales with its container and prints as is
+const BarChart: React.FC<BarChartProps> = ({ data, formatValue = String, color = 'fill-indigo-500', height = 160 }) => {
+  const max = Math.max(0, ...data.map(d => d.value));
+  const plotHeight = height - AXIS_HEIGHT - TOP_MARGIN;
+  const slot = WIDTH / Math.max(1, data.length);
+  const barWidth = Math.max(1, slot * 0.7);
+  // Label only every n-th bar so the text never overlaps
+  const labelEvery = Math.max(1, Math.ceil(data.length / MAX_LABELS));
+
+  if (data.length === 0 || max === 0) {
+    return <div className="h-24 flex items-center justify-center text-xs text-slate-400 italic">Nothing in this period</div>;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+      <line x1={0} x2={WIDTH} y1={TOP_MARGIN} y2={TOP_MARGIN} className="stroke-slate-200" strokeDasharray="4 4" />
+      <text x={2} y={TOP_MARGIN - 4} fontSize={10} className="fill-slate-400">{formatValue(max)}</text>
+      <line x1={0} x2={WIDTH} y1={TOP_MARGIN + plotHeight} y2={TOP_MARGIN + plotHeight} className="stroke-slate-300" />
+      {data.map((d, i) => {
+        const barHeight = (d.value / max) * plotHeight;
+        const x = i * slot + (slot - barWidth) / 2;
+        return (
+          <g key={d.key}>
+            <rect x={x} y={TOP_MARGIN + plotHeight - barHeight} width={barWidth} height={barHeight} rx={Math.min(3, barWidth / 4)} className={color}>
+              <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text x={i * slot + slot / 2} y={height - 4} fontSize={10} textAnchor="middle" className="fill-slate-500">{d.label}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
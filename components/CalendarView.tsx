@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { ClientEntry } from '../types';
+import { PANDIT_CONTACTS } from '../constants';
+import { CalendarMode, CALENDAR_MODES, bookingsOn, conflictingIds, formatDay, isSameMonth, loadBookings, monthGrid, periodTitle, shiftPeriod, slotLabel, todayKey, weekDays } from '../services/calendar';
+import { findPandit } from '../services/pandits';
+import { ritualNameOf } from '../services/reports';
+import PanchangInfo from './PanchangInfo';
+import { AlertTriangleIcon, CalendarIcon, PlusIcon } from './Icons';
+
+interface CalendarViewProps {
+  refreshKey: unknown; // Changes whenever records change
+  hasBg: boolean;
+  onOpenEntry: (entry: ClientEntry) => void;
+  onNewBooking: (date: string) => void;
+}
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const UNASSIGNED = '';
+
+const PanditChip: React.FC<{ entry: ClientEntry }> = ({ entry }) => {
+  const pandit = findPandit(entry.performedBy);
+  return (
+    <span className={`h-5 w-5 rounded-full text-[10px] font-bold flex items-center justify-center shrink-0 ${pandit ? pandit.colorClass : 'bg-slate-200 text-slate-500'}`} title={pandit?.name || 'Not assigned'}>
+      {pandit?.initial || '?'}
+    </span>
+  );
+};
+
+const BookingRow: React.FC<{ entry: ClientEntry, clash: boolean, onOpen: (entry: ClientEntry) => void }> = ({ entry, clash, onOpen }) => (
+  <button
+    onClick={() => onOpen(entry)}
+    className={`w-full text-left rounded-lg px-3 py-2 border transition ${clash ? 'bg-red-50 border-red-200 hover:border-red-400' : 'bg-slate-50 border-slate-100 hover:border-indigo-300'}`}
+  >
+    <div className="flex items-center gap-2">
+      <PanditChip entry={entry} />
+      <span className="text-[11px] font-bold text-indigo-700 shrink-0">{slotLabel(entry.scheduledSlot)}</span>
+      {clash && <AlertTriangleIcon className="w-4 h-4 text-red-500 ml-auto shrink-0" />}
+    </div>
+    <p className="font-bold text-sm text-slate-800 mt-1 truncate">{ritualNameOf(entry)} • {entry.clientName}</p>
+    <p className="text-[11px] text-slate-500 truncate">{entry.uniqueCode}{entry.location ? ` • ${entry.location}` : ''}{entry.phone ? ` • ${entry.phone}` : ''}</p>
+  </button>
+);
+
+const CalendarView: React.FC<CalendarViewProps> = ({ refreshKey, hasBg, onOpenEntry, onNewBooking }) => {
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [day, setDay] = useState(todayKey());
+  const [panditFilter, setPanditFilter] = useState<string>('all');
+  // Bookings of the days on screen (the whole grid in month mode)
+  const [bookings, setBookings] = useState<ClientEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const shownDays = mode === 'day' ? [day] : mode === 'week' ? weekDays(day) : monthGrid(day);
+  const firstDay = shownDays[0];
+  const lastDay = shownDays[shownDays.length - 1];
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadBookings(firstDay, lastDay)
+      .then(result => { if (!cancelled) setBookings(result); })
+      .catch(err => {
+        console.error("Could not load bookings", err);
+        if (!cancelled) setError("The calendar needs the on-device database, which is not available.");
+      });
+    return () => { cancelled = true; };
+  }, [firstDay, lastDay, refreshKey]);
+
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100`;
+  const scheduled = bookings.filter(e => panditFilter === 'all' || (e.performedBy || UNASSIGNED) === panditFilter);
+  // Conflicts are found across all pandits, whatever the filter shows
+  const conflicts = conflictingIds(bookings);
+  const visibleDays = mode === 'month' ? shownDays.filter(d => isSameMonth(d, day)) : shownDays;
+  const clashes = scheduled.filter(e => conflicts.has(e.id) && visibleDays.includes(e.scheduledDate!));
+
+  const openDay = (target: string) => {
+    setDay(target);
+    setMode('day');
+  };
+
+  // One agenda per pandit for the day
+  const agendas = (() => {
+    const dayBookings = bookingsOn(scheduled, day);
+    const ids = panditFilter === 'all' ? [...PANDIT_CONTACTS.map(c => c.id), UNASSIGNED] : [panditFilter];
+    return ids
+      .map(id => ({ id, bookings: dayBookings.filter(e => (e.performedBy || UNASSIGNED) === id) }))
+      .filter(a => a.bookings.length > 0 || (a.id !== UNASSIGNED && panditFilter !== 'all'));
+  })();
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out]">
+      <div className={`${panelClass} p-4 space-y-3`}>
+        <div className="flex justify-between items-center gap-2">
+          <div className="flex items-center gap-2">
+            <CalendarIcon className="w-5 h-5 text-indigo-600" />
+            <h2 className="font-bold text-lg text-slate-800">Bookings</h2>
+          </div>
+          <select
+            className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            value={panditFilter}
+            onChange={e => setPanditFilter(e.target.value)}
+          >
+            <option value="all">All pandits</option>
+            {PANDIT_CONTACTS.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            <option value={UNASSIGNED}>Not assigned</option>
+          </select>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {CALENDAR_MODES.map(m => (
+            <button
+              key={m.key}
+              onClick={() => setMode(m.key)}
+              className={`flex-1 py-1.5 rounded-md text-sm font-bold transition ${mode === m.key ? 'bg-white shadow text-indigo-700' : 'text-slate-500'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <button onClick={() => setDay(shiftPeriod(day, mode, -1))} className="px-3 py-1 rounded-lg bg-slate-100 text-slate-600 font-bold hover:bg-slate-200">‹</button>
+          <div className="text-center">
+            <p className="font-bold text-slate-800 text-sm">{periodTitle(day, mode)}</p>
+            {day !== todayKey() && <button onClick={() => setDay(todayKey())} className="text-[11px] font-bold text-indigo-600 hover:underline">Today</button>}
+          </div>
+          <button onClick={() => setDay(shiftPeriod(day, mode, 1))} className="px-3 py-1 rounded-lg bg-slate-100 text-slate-600 font-bold hover:bg-slate-200">›</button>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700">{error}</div>}
+
+      {clashes.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700 flex items-center gap-2">
+          <AlertTriangleIcon className="w-4 h-4 shrink-0" />
+          {clashes.length} booking{clashes.length > 1 ? 's' : ''} in this period {clashes.length > 1 ? 'overlap' : 'overlaps'} with another booking of the same pandit.
+        </div>
+      )}
+
+      {mode === 'day' && (
+        <div className="space-y-3">
+          <PanchangInfo date={day} />
+          {agendas.length === 0 && <div className="text-center py-8 text-slate-400 text-sm">No bookings on this day</div>}
+          {agendas.map(agenda => {
+            const pandit = findPandit(agenda.id || undefined);
+            return (
+              <div key={agenda.id || 'unassigned'} className={`${panelClass} p-4 space-y-2`}>
+                <div className="flex items-center gap-2">
+                  <span className={`h-7 w-7 rounded-full text-xs font-bold flex items-center justify-center ${pandit ? pandit.colorClass : 'bg-slate-200 text-slate-500'}`}>{pandit?.initial || '?'}</span>
+                  <h3 className="font-bold text-slate-700 text-sm flex-1">{pandit?.name || 'Not assigned'}</h3>
+                  <span className="text-xs text-slate-500">{agenda.bookings.length} booking{agenda.bookings.length === 1 ? '' : 's'}</span>
+                </div>
+                {agenda.bookings.length === 0 && <p className="text-xs text-slate-400 italic">Free all day</p>}
+                {agenda.bookings.map(entry => <BookingRow key={entry.id} entry={entry} clash={conflicts.has(entry.id)} onOpen={onOpenEntry} />)}
+              </div>
+            );
+          })}
+          <button onClick={() => onNewBooking(day)} className="w-full flex items-center justify-center gap-2 bg-indigo-50 text-indigo-700 py-2 rounded-xl text-sm font-bold hover:bg-indigo-100">
+            <PlusIcon className="w-4 h-4" /> New booking on {formatDay(day)}
+          </button>
+        </div>
+      )}
+
+      {mode === 'week' && (
+        <div className="space-y-2">
+          {weekDays(day).map(d => {
+            const dayBookings = bookingsOn(scheduled, d);
+            return (
+              <div key={d} className={`${panelClass} p-3 space-y-2 ${d === todayKey() ? 'ring-2 ring-indigo-300' : ''}`}>
+                <div className="flex justify-between items-center">
+                  <button onClick={() => openDay(d)} className="font-bold text-sm text-slate-700 hover:text-indigo-700">{formatDay(d)}</button>
+                  <button onClick={() => onNewBooking(d)} className="p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-slate-100" title="New booking">
+                    <PlusIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                {dayBookings.length === 0
+                  ? <p className="text-xs text-slate-400 italic">No bookings</p>
+                  : dayBookings.map(entry => <BookingRow key={entry.id} entry={entry} clash={conflicts.has(entry.id)} onOpen={onOpenEntry} />)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {mode === 'month' && (
+        <div className={`${panelClass} p-2`}>
+          <div className="grid grid-cols-7 text-center text-[10px] font-bold text-slate-500 uppercase mb-1">
+            {WEEKDAY_NAMES.map(name => <div key={name}>{name}</div>)}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {monthGrid(day).map(d => {
+              const dayBookings = bookingsOn(scheduled, d);
+              const clash = dayBookings.some(e => conflicts.has(e.id));
+              return (
+                <button
+                  key={d}
+                  onClick={() => openDay(d)}
+                  className={`min-h-[56px] rounded-lg p-1 text-left border transition ${isSameMonth(d, day) ? 'bg-white border-slate-100' : 'bg-slate-50 border-transparent text-slate-300'} ${d === todayKey() ? 'ring-2 ring-indigo-300' : ''} hover:border-indigo-300`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs font-bold">{Number(d.slice(8))}</span>
+                    {clash && <AlertTriangleIcon className="w-3 h-3 text-red-500" />}
+                  </div>
+                  <div className="flex flex-wrap gap-0.5 mt-1">
+                    {dayBookings.slice(0, 4).map(entry => <PanditChip key={entry.id} entry={entry} />)}
+                    {dayBookings.length > 4 && <span className="text-[10px] font-bold text-slate-500">+{dayBookings.length - 4}</span>}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarView;
@@ -1,15 +1,21 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { CameraIcon, SwitchCameraIcon, XIcon, CheckIcon } from './Icons';
+import { createQrReader } from '../services/qr';
 
 interface CameraCaptureProps {
-  onCapture: (imageData: string) => void;
+  onCapture?: (imageData: string) => void;
+  // Scan mode: reads QR codes from the live video instead of taking a photo
+  onScan?: (text: string) => void;
+  autoStart?: boolean;
   label?: string;
 }
 
-const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, label = "Take Photo" }) => {
+const SCAN_INTERVAL_MS = 250;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onScan, autoStart = false, label = "Take Photo" }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [active, setActive] = useState(false);
+  const [active, setActive] = useState(autoStart);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const [error, setError] = useState<string | null>(null);
@@ -60,6 +66,47 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, label = "Take
     };
   }, [active, facingMode, capturedImage]);
 
+  // Scan Loop (decoded on the phone; frames never leave it)
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const scanning = !!onScan && active && !loading && !error;
+
+  useEffect(() => {
+    if (!scanning) return;
+    const read = createQrReader();
+    if (!read) {
+      setError("QR scanning is not supported on this browser. Type the code in the search instead.");
+      return;
+    }
+
+    let stopped = false;
+    let timer: number | undefined;
+    let lastText = '';
+    const tick = async () => {
+      const video = videoRef.current;
+      if (stopped) return;
+      if (video && video.readyState >= 2) {
+        try {
+          const text = await read(video);
+          // The same code stays in view for a while; report it once
+          if (!stopped && text && text !== lastText) {
+            lastText = text;
+            onScanRef.current?.(text);
+          }
+        } catch (err) {
+          console.warn("QR scan failed", err);
+        }
+      }
+      if (!stopped) timer = window.setTimeout(tick, SCAN_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [scanning]);
+
   const handleCapture = () => {
     if (videoRef.current && canvasRef.current) {
       const video = videoRef.current;
@@ -96,7 +143,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, label = "Take
 
   const handleConfirm = () => {
     if (capturedImage) {
-      onCapture(capturedImage);
+      onCapture?.(capturedImage);
       // Reset
       setCapturedImage(null);
       setActive(false);
@@ -151,6 +198,13 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, label = "Take
           </div>
         )}
         
+        {onScan && !error && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+            <div className="w-48 h-48 border-4 border-white/80 rounded-2xl shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"></div>
+            <p className="mt-3 text-white text-xs font-bold drop-shadow">Point at the QR code on the receipt</p>
+          </div>
+        )}
+
         <div className="absolute top-2 right-2 z-10">
            <button onClick={() => setActive(false)} className="bg-black/40 text-white p-2 rounded-full hover:bg-black/60 backdrop-blur-md transition">
              <XIcon className="w-5 h-5" />
@@ -161,13 +215,15 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, label = "Take
            <button onClick={toggleCamera} className="bg-white/20 text-white p-3 rounded-full backdrop-blur-md hover:bg-white/30 transition">
               <SwitchCameraIcon className="w-6 h-6" />
            </button>
-           <button 
-             onClick={handleCapture} 
-             disabled={loading || !!error}
-             className="bg-white p-1 rounded-full shadow-lg active:scale-95 transition-transform disabled:opacity-50 disabled:scale-100"
-           >
-              <div className="w-14 h-14 border-4 border-black rounded-full bg-white"></div>
-           </button>
+           {!onScan && (
+             <button 
+               onClick={handleCapture} 
+               disabled={loading || !!error}
+               className="bg-white p-1 rounded-full shadow-lg active:scale-95 transition-transform disabled:opacity-50 disabled:scale-100"
+             >
+                <div className="w-14 h-14 border-4 border-black rounded-full bg-white"></div>
+             </button>
+           )}
            <div className="w-12"></div> {/* Spacer */}
         </div>
       </div>
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { ClientEntry, Person } from '../types';
+import { loadVisits, pilgrimTotals } from '../services/pilgrims';
+import { formatINR, totalPaid, outstandingBalance } from '../services/payments';
+import { storeMedia } from '../services/media';
+import CameraCapture from './CameraCapture';
+import MediaImage from './MediaImage';
+import { PhoneIcon, PlusIcon, PencilIcon, FamilyTreeIcon, CameraIcon, ShareIcon } from './Icons';
+
+interface ClientDetailViewProps {
+  person: Person;
+  refreshKey: unknown; // Changes whenever records change
+  hasBg: boolean;
+  onBack: () => void;
+  onNewVisit: (person: Person) => void;
+  onEditVisit: (entry: ClientEntry) => void;
+  onReceipt: (entry: ClientEntry) => void;
+  onOpenFamily: (personId: string) => void;
+  onSavePeople: (people: Person[]) => Promise<boolean>;
+  canEdit: boolean;
+  showPayments: boolean;
+}
+
+const ClientDetailView: React.FC<ClientDetailViewProps> = ({ person, refreshKey, hasBg, onBack, onNewVisit, onEditVisit, onReceipt, onOpenFamily, onSavePeople, canEdit, showPayments }) => {
+  const [editing, setEditing] = useState(false);
+  const [photoMode, setPhotoMode] = useState(false);
+  const [draft, setDraft] = useState({ name: person.name, phone: person.phone || '', address: person.address || '' });
+
+  const [visits, setVisits] = useState<ClientEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVisits([person.id])
+      .then(result => { if (!cancelled) setVisits(result); })
+      .catch(err => console.warn("Could not load the pilgrim's visits", err));
+    return () => { cancelled = true; };
+  }, [person.id, refreshKey]);
+
+  const totals = pilgrimTotals(visits);
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg border border-slate-100`;
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const saveProfile = async () => {
+    if (!draft.name.trim()) return;
+    const ok = await onSavePeople([{
+      ...person,
+      name: draft.name.trim(),
+      phone: draft.phone.trim() || undefined,
+      address: draft.address.trim() || undefined
+    }]);
+    if (ok) setEditing(false);
+  };
+
+  const savePhoto = async (photo: string) => {
+    setPhotoMode(false);
+    try {
+      const photoId = await storeMedia(photo, 'photo');
+      await onSavePeople([{ ...person, photoId, photo: undefined }]);
+    } catch (e) {
+      console.error("Could not store photo", e);
+      alert("Could not save the photo. The phone may be out of storage.");
+    }
+  };
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out]">
+      <button onClick={onBack} className="text-sm font-bold text-indigo-700 hover:underline">← Back</button>
+
+      <div className={`${panelClass} p-5`}>
+        {photoMode ? (
+          <CameraCapture onCapture={savePhoto} label="Take Profile Photo" />
+        ) : (
+          <div className="flex gap-4 items-start">
+            <button onClick={() => setPhotoMode(true)} className="shrink-0" title="Update Photo">
+              {person.photoId || person.photo ? (
+                <MediaImage mediaId={person.photoId} inline={person.photo} variant="full" className="w-20 h-20 rounded-xl object-cover border-2 border-indigo-100" alt={person.name} />
+              ) : (
+                <div className="w-20 h-20 rounded-xl bg-slate-100 flex items-center justify-center text-slate-400">
+                  <CameraIcon className="w-6 h-6" />
+                </div>
+              )}
+            </button>
+            <div className="flex-1 min-w-0">
+              {editing ? (
+                <div className="space-y-2">
+                  <input className={fieldClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Name" />
+                  <input type="tel" className={fieldClass} value={draft.phone} onChange={e => setDraft({ ...draft, phone: e.target.value })} placeholder="Phone" />
+                  <input className={fieldClass} value={draft.address} onChange={e => setDraft({ ...draft, address: e.target.value })} placeholder="Address" />
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setEditing(false)} className="text-xs text-slate-500 font-bold px-3 py-1 hover:underline">Cancel</button>
+                    <button onClick={saveProfile} className="text-xs bg-indigo-600 text-white font-bold px-3 py-1 rounded-md hover:bg-indigo-700">Save</button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <h2 className="text-xl font-bold text-slate-900">{person.name}</h2>
+                    {person.phone && (
+                      <a href={`tel:${person.phone}`} className="text-sm text-slate-600 flex items-center gap-1 mt-1 hover:text-indigo-600">
+                        <PhoneIcon className="w-3 h-3" /> {person.phone}
+                      </a>
+                    )}
+                    {person.address && <p className="text-xs text-slate-500 mt-1">{person.address}</p>}
+                    {person.gotra && <p className="text-xs text-amber-700 font-bold mt-1">Gotra: {person.gotra}</p>}
+                  </div>
+                  {canEdit && (
+                    <button onClick={() => setEditing(true)} className="text-indigo-400 hover:text-indigo-600 p-1" title="Edit Profile">
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className={`grid ${showPayments ? 'grid-cols-3' : 'grid-cols-1'} gap-2 mt-5 text-center`}>
+          <div className="bg-slate-50 rounded-lg p-2">
+            <div className="text-lg font-bold text-slate-800">{totals.visits}</div>
+            <div className="text-[10px] font-bold text-slate-500 uppercase">Visits</div>
+          </div>
+          {showPayments && (
+            <>
+              <div className="bg-green-50 rounded-lg p-2">
+                <div className="text-lg font-bold text-green-800">{formatINR(totals.paid)}</div>
+                <div className="text-[10px] font-bold text-green-700 uppercase">Paid</div>
+              </div>
+              <div className={`${totals.outstanding > 0 ? 'bg-red-50' : 'bg-slate-50'} rounded-lg p-2`}>
+                <div className={`text-lg font-bold ${totals.outstanding > 0 ? 'text-red-700' : 'text-slate-800'}`}>{formatINR(totals.outstanding)}</div>
+                <div className="text-[10px] font-bold text-slate-500 uppercase">Due</div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button onClick={() => onNewVisit(person)} className="flex-1 bg-indigo-600 text-white py-2 rounded-xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition">
+            <PlusIcon className="w-4 h-4" /> New Visit
+          </button>
+          <button onClick={() => onOpenFamily(person.id)} className="flex-1 bg-amber-50 text-amber-800 border border-amber-200 py-2 rounded-xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-amber-100 transition">
+            <FamilyTreeIcon className="w-4 h-4" /> Vanshavali
+          </button>
+        </div>
+      </div>
+
+      <div className={`${panelClass} p-5`}>
+        <h3 className="font-bold text-slate-700 mb-4">Visit Timeline</h3>
+        {visits.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">No visits recorded yet.</p>
+        ) : (
+          <ol className="relative border-l-2 border-indigo-100 ml-2 space-y-5">
+            {visits.map(visit => {
+              const balance = outstandingBalance(visit);
+              return (
+                <li key={visit.id} className="ml-4">
+                  <div className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-indigo-500 border-2 border-white"></div>
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-xs font-bold text-slate-500 uppercase">
+                      {new Date(visit.timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-[10px] font-bold bg-slate-100 text-slate-600 px-2 py-0.5 rounded">{visit.uniqueCode}</span>
+                      <button onClick={() => onReceipt(visit)} className="text-green-600 hover:text-green-700" title="Share Receipt">
+                        <ShareIcon className="w-3 h-3" />
+                      </button>
+                      {canEdit && (
+                        <button onClick={() => onEditVisit(visit)} className="text-indigo-400 hover:text-indigo-600" title="Edit Visit">
+                          <PencilIcon className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-sm text-slate-700 mt-1 whitespace-pre-wrap line-clamp-3">{visit.servicePlan}</div>
+                  <div className="flex justify-between items-end mt-2">
+                    {showPayments ? (
+                      <span className="text-xs text-slate-500">
+                        Paid {formatINR(totalPaid(visit))}
+                        {balance > 0 && <span className="text-red-600 font-bold"> • Due {formatINR(balance)}</span>}
+                      </span>
+                    ) : <span></span>}
+                    {(visit.signatureId || visit.signatureImage) && <MediaImage mediaId={visit.signatureId} inline={visit.signatureImage} alt="Signature" className="h-6 object-contain" />}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClientDetailView;
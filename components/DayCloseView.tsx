@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { DayClose, PaymentMode } from '../types';
+import { DayPayment, buildDayClose, dayLabel, dayOf, emptyModeTotals, loadDayPayments, sumModes, totalsByMode } from '../services/cashbook';
+import { formatINR, PAYMENT_MODE_LABELS, PAYMENT_TYPE_LABELS } from '../services/payments';
+import { panditName } from '../services/pandits';
+import { CheckIcon, LockIcon, PrintIcon } from './Icons';
+
+interface DayCloseViewProps {
+  hasBg: boolean;
+  closes: DayClose[];
+  activePanditId: string | null;
+  canClose: boolean;
+  onCloseDay: (close: DayClose) => Promise<boolean>;
+  onBack: () => void;
+  refreshKey: unknown; // Changes whenever records change
+  requestConfirm: (title: string, message: string, onConfirm: () => void, type?: 'danger' | 'info') => void;
+  closeConfirm: () => void;
+}
+
+const MODES = Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[];
+
+const signed = (amount: number) => (amount > 0 ? `+${formatINR(amount)}` : amount < 0 ? `-${formatINR(-amount)}` : formatINR(0));
+
+const DayCloseView: React.FC<DayCloseViewProps> = ({ hasBg, closes, activePanditId, canClose, onCloseDay, onBack, refreshKey, requestConfirm, closeConfirm }) => {
+  const [day, setDay] = useState(dayOf(Date.now()));
+  const [payments, setPayments] = useState<DayPayment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [counted, setCounted] = useState<Record<PaymentMode, string>>({ cash: '', upi: '', bank: '' });
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const closed = closes.find(c => c.id === day);
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100 p-4 print:shadow-none print:border-black print:rounded-none print:bg-white`;
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  useEffect(() => {
+    let cancelled = false;
+    setPayments(null);
+    setError(null);
+    loadDayPayments(day)
+      .then(result => { if (!cancelled) setPayments(result); })
+      .catch(err => {
+        console.error("Could not read the day's payments", err);
+        if (!cancelled) setError("The day close needs the on-device database, which is not available.");
+      });
+    return () => { cancelled = true; };
+  }, [day, refreshKey]);
+
+  // A new day starts with empty counts
+  useEffect(() => {
+    setCounted({ cash: '', upi: '', bank: '' });
+    setNote('');
+  }, [day]);
+
+  const expected = closed ? closed.expected : totalsByMode(payments || []);
+  const countedTotals: Record<PaymentMode, number> = closed
+    ? closed.counted
+    : MODES.reduce((totals, mode) => ({ ...totals, [mode]: Number(counted[mode]) || 0 }), emptyModeTotals());
+  const difference = sumModes(countedTotals) - sumModes(expected);
+  const allCounted = MODES.every(mode => counted[mode] !== '' || expected[mode] === 0);
+
+  // Payments added to a closed day from another phone before the close reached it
+  const unexpected = closed && payments ? payments.filter(p => !closed.paymentIds.includes(p.payment.id)) : [];
+
+  const handleClose = () => {
+    if (!payments || saving) return;
+    if (difference !== 0 && !note.trim()) {
+      alert("Please write a note explaining the difference before closing the day.");
+      return;
+    }
+    requestConfirm(
+      "Close Day",
+      `Close ${dayLabel(day)}? Payments dated this day will be locked and can no longer be changed.`,
+      async () => {
+        closeConfirm();
+        setSaving(true);
+        await onCloseDay(buildDayClose(day, payments, countedTotals, note, activePanditId || undefined));
+        setSaving(false);
+      },
+      'info'
+    );
+  };
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out] print:space-y-3">
+      <div className="flex justify-between items-center no-print">
+        <button onClick={onBack} className="text-sm font-bold text-indigo-700 hover:underline">← Back</button>
+        <button onClick={() => window.print()} disabled={!payments} className="bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-900 disabled:opacity-50">
+          <PrintIcon className="w-4 h-4" /> Print Sheet
+        </button>
+      </div>
+
+      <div className={`${panelClass} flex justify-between items-center gap-2`}>
+        <div className="flex items-center gap-2">
+          <LockIcon className={`w-5 h-5 print:hidden ${closed ? 'text-green-600' : 'text-indigo-600'}`} />
+          <div>
+            <h2 className="font-bold text-lg text-slate-800 print:text-black">Day Close</h2>
+            <p className="text-xs text-slate-500 print:text-black">
+              <span className="hidden print:inline">Yatra To Mathura • </span>{dayLabel(day)}
+            </p>
+          </div>
+        </div>
+        <input
+          type="date"
+          className="no-print px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+          value={day}
+          max={dayOf(Date.now())}
+          onChange={e => e.target.value && setDay(e.target.value)}
+        />
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700">{error}</div>}
+      {!payments && !error && <div className="text-center py-10 text-slate-400 text-sm">Loading payments...</div>}
+
+      {payments && (
+        <>
+          {closed && (
+            <div className="bg-green-50 border border-green-200 rounded-lg px-3 py-2 text-xs text-green-800 print:bg-white print:border-black print:text-black">
+              Closed by {closed.closedBy ? panditName(closed.closedBy) : 'unknown'} on {new Date(closed.closedAt).toLocaleString()}. Payments dated this day are locked.
+            </div>
+          )}
+          {unexpected.length > 0 && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 text-xs text-orange-800 no-print">
+              {unexpected.length} payment{unexpected.length > 1 ? 's were' : ' was'} added to this day on another phone after it was closed and {unexpected.length > 1 ? 'are' : 'is'} not in the totals below.
+            </div>
+          )}
+
+          {/* Receipts */}
+          <div className={`${panelClass} print:break-inside-avoid`}>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 print:text-black">Receipts in the register</h3>
+            {payments.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">No payments dated this day</p>
+            ) : (
+              <table className="w-full text-xs text-slate-700 print:text-black">
+                <thead>
+                  <tr className="text-left text-slate-500 print:text-black">
+                    <th className="py-1 font-bold">Code</th>
+                    <th className="py-1 font-bold">Pilgrim</th>
+                    <th className="py-1 font-bold">Mode</th>
+                    <th className="py-1 font-bold hidden sm:table-cell print:table-cell">Reference</th>
+                    <th className="py-1 font-bold text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {payments.map(({ entry, payment }) => (
+                    <tr key={payment.id}>
+                      <td className="py-1 font-mono">{entry.uniqueCode}</td>
+                      <td className="py-1">{entry.clientName}<span className="text-slate-400 print:text-black"> • {PAYMENT_TYPE_LABELS[payment.type]}</span></td>
+                      <td className="py-1">{PAYMENT_MODE_LABELS[payment.mode]}</td>
+                      <td className="py-1 hidden sm:table-cell print:table-cell">{payment.reference}</td>
+                      <td className="py-1 text-right font-bold">{formatINR(payment.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Reconciliation */}
+          <div className={`${panelClass} print:break-inside-avoid`}>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 print:text-black">Reconciliation</h3>
+            <table className="w-full text-sm text-slate-700 print:text-black">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 print:text-black">
+                  <th className="py-1 font-bold">Mode</th>
+                  <th className="py-1 font-bold text-right">Expected</th>
+                  <th className="py-1 font-bold text-right">Counted</th>
+                  <th className="py-1 font-bold text-right">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {MODES.map(mode => (
+                  <tr key={mode}>
+                    <td className="py-1 font-bold">{PAYMENT_MODE_LABELS[mode]}</td>
+                    <td className="py-1 text-right">{formatINR(expected[mode])}</td>
+                    <td className="py-1 text-right">
+                      {closed || !canClose ? formatINR(countedTotals[mode]) : (
+                        <input
+                          type="number"
+                          min="0"
+                          inputMode="numeric"
+                          className={`${fieldClass} w-24 text-right ml-auto`}
+                          value={counted[mode]}
+                          onChange={e => setCounted(prev => ({ ...prev, [mode]: e.target.value }))}
+                          placeholder="0"
+                        />
+                      )}
+                    </td>
+                    <td className={`py-1 text-right font-bold ${countedTotals[mode] - expected[mode] === 0 ? '' : 'text-red-600'} print:text-black`}>
+                      {signed(countedTotals[mode] - expected[mode])}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-extrabold">
+                  <td className="py-1">Total</td>
+                  <td className="py-1 text-right">{formatINR(sumModes(expected))}</td>
+                  <td className="py-1 text-right">{formatINR(sumModes(countedTotals))}</td>
+                  <td className={`py-1 text-right ${difference === 0 ? 'text-green-700' : 'text-red-600'} print:text-black`}>{signed(difference)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            <div className="mt-3">
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1 print:text-black">Note</label>
+              {closed || !canClose ? (
+                <p className="text-sm text-slate-700 whitespace-pre-wrap print:text-black">{(closed ? closed.note : note) || '—'}</p>
+              ) : (
+                <textarea
+                  rows={2}
+                  className={fieldClass}
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  placeholder={difference === 0 ? 'Optional' : 'Explain the difference (e.g. ₹100 change given, UPI not yet received)'}
+                />
+              )}
+            </div>
+          </div>
+
+          {!closed && canClose && (
+            <button
+              onClick={handleClose}
+              disabled={saving || !allCounted}
+              className="no-print w-full bg-indigo-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 disabled:opacity-50 transition"
+            >
+              <CheckIcon className="w-5 h-5" /> {saving ? 'Closing...' : 'Close Day & Lock Payments'}
+            </button>
+          )}
+          {!closed && !canClose && (
+            <p className="no-print text-xs text-slate-500 text-center">Only the head of the family can close the day.</p>
+          )}
+
+          {/* Signatures on paper */}
+          <div className="hidden print:flex justify-between pt-12 text-xs text-black">
+            <span className="border-t border-black pt-1 px-6">Counted by</span>
+            <span className="border-t border-black pt-1 px-6">Checked by</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DayCloseView;
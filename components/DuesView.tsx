@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { ClientEntry, PaymentMode } from '../types';
+import { DuesFilter, DUES_FILTERS, ageInDays, describeAge, isFollowUpDue, loadOutstanding, outstandingEntries, totalOutstanding } from '../services/dues';
+import { createPayment, formatINR, fromDateInputValue, outstandingBalance, toDateInputValue, totalPaid, PAYMENT_MODE_LABELS } from '../services/payments';
+import { BALANCE_REMINDER_TEMPLATE_ID } from '../services/messages';
+import MessageModal from './MessageModal';
+import { AlertTriangleIcon, CalendarIcon, CheckIcon, MessageIcon, PlusIcon, XIcon } from './Icons';
+
+interface DuesViewProps {
+  refreshKey: unknown; // Changes whenever records change
+  hasBg: boolean;
+  canEdit: boolean;
+  canEditTemplates: boolean;
+  onSave: (entry: ClientEntry) => Promise<boolean>;
+  onOpenClient: (personId: string) => void;
+  onBack: () => void;
+}
+
+interface PaymentDraft {
+  entryId: number;
+  amount: string;
+  mode: PaymentMode;
+  reference: string;
+}
+
+const DuesView: React.FC<DuesViewProps> = ({ refreshKey, hasBg, canEdit, canEditTemplates, onSave, onOpenClient, onBack }) => {
+  const [filter, setFilter] = useState<DuesFilter>('all');
+  const [unpaid, setUnpaid] = useState<ClientEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PaymentDraft | null>(null);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [reminderEntry, setReminderEntry] = useState<ClientEntry | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadOutstanding()
+      .then(result => { if (!cancelled) setUnpaid(result); })
+      .catch(err => {
+        console.error("Could not load outstanding dues", err);
+        if (!cancelled) setError("Outstanding dues need the on-device database, which is not available.");
+      });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const allDues = unpaid || [];
+  const dues = outstandingEntries(allDues, filter);
+  const fieldClass = "p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const save = async (entry: ClientEntry) => {
+    setSavingId(entry.id);
+    const saved = await onSave(entry);
+    setSavingId(null);
+    return saved;
+  };
+
+  const handleRecordPayment = async (entry: ClientEntry) => {
+    if (!draft) return;
+    const amount = Number(draft.amount) || 0;
+    if (amount <= 0) {
+      alert("Please enter the amount received.");
+      return;
+    }
+    const payments = [...entry.payments, createPayment({ amount, mode: draft.mode, type: 'balance', reference: draft.reference.trim() })];
+    // A settled booking needs no further reminders
+    const settled = outstandingBalance({ payments, agreedTotal: entry.agreedTotal }) <= 0;
+    if (await save({ ...entry, payments, followUpAt: settled ? undefined : entry.followUpAt })) setDraft(null);
+  };
+
+  const handleFollowUp = (entry: ClientEntry, value: string) => {
+    save({ ...entry, followUpAt: value ? fromDateInputValue(value) : undefined });
+  };
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out]">
+      <button onClick={onBack} className="text-sm font-bold text-indigo-700 hover:underline">← Back</button>
+
+      <div className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100 p-4 space-y-3`}>
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <h2 className="font-bold text-lg text-slate-800">Outstanding Dues</h2>
+            <p className="text-xs text-slate-500">{allDues.length} booking{allDues.length === 1 ? '' : 's'} not fully paid, oldest first</p>
+          </div>
+          <div className="text-right">
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Total due</div>
+            <div className="text-xl font-extrabold text-red-600">{formatINR(totalOutstanding(allDues))}</div>
+          </div>
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {DUES_FILTERS.map(f => (
+            <button
+              key={f.key}
+              onClick={() => setFilter(f.key)}
+              className={`flex-1 py-1.5 rounded-md text-xs font-bold transition ${filter === f.key ? 'bg-white shadow text-indigo-700' : 'text-slate-500'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700">{error}</div>}
+      {!unpaid && !error && <div className="text-center py-10 text-slate-400 text-sm">Loading...</div>}
+
+      {unpaid && dues.length === 0 && (
+        <div className="text-center py-10 text-slate-400 text-sm">
+          {filter === 'all' ? 'Every booking is fully paid.' : 'Nothing in this list.'}
+        </div>
+      )}
+
+      {dues.map(entry => {
+        const age = ageInDays(entry.timestamp);
+        const overdue = isFollowUpDue(entry);
+        const busy = savingId === entry.id;
+        return (
+          <div key={entry.id} className={`${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border ${overdue ? 'border-orange-300' : 'border-slate-100'} p-4 space-y-3`}>
+            <div className="flex justify-between items-start gap-2">
+              <div className="min-w-0">
+                <button
+                  onClick={() => entry.personId && onOpenClient(entry.personId)}
+                  className="font-bold text-slate-800 truncate block text-left hover:text-indigo-700"
+                >
+                  {entry.clientName}
+                </button>
+                <p className="text-xs text-slate-500">
+                  <span className="font-mono">{entry.uniqueCode}</span> • {entry.phone || 'No phone'} • {new Date(entry.timestamp).toLocaleDateString()}
+                </p>
+              </div>
+              <span className={`shrink-0 text-[10px] font-bold px-2 py-1 rounded-full ${age > 30 ? 'bg-red-100 text-red-700' : age > 7 ? 'bg-orange-100 text-orange-700' : 'bg-slate-100 text-slate-600'}`}>
+                {describeAge(age)}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+              <div className="bg-slate-50 rounded-lg py-1.5">
+                <div className="text-slate-500 font-bold uppercase text-[10px]">Agreed</div>
+                <div className="font-bold text-slate-800">{formatINR(entry.agreedTotal)}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg py-1.5">
+                <div className="text-slate-500 font-bold uppercase text-[10px]">Paid</div>
+                <div className="font-bold text-green-700">{formatINR(totalPaid(entry))}</div>
+              </div>
+              <div className="bg-red-50 rounded-lg py-1.5">
+                <div className="text-red-500 font-bold uppercase text-[10px]">Due</div>
+                <div className="font-bold text-red-700">{formatINR(outstandingBalance(entry))}</div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs">
+              <CalendarIcon className={`w-4 h-4 shrink-0 ${overdue ? 'text-orange-500' : 'text-slate-400'}`} />
+              <span className={`font-bold ${overdue ? 'text-orange-700' : 'text-slate-500'}`}>Follow up</span>
+              {canEdit ? (
+                <input
+                  type="date"
+                  className={`${fieldClass} py-1 flex-1`}
+                  value={entry.followUpAt ? toDateInputValue(entry.followUpAt) : ''}
+                  disabled={busy}
+                  onChange={e => handleFollowUp(entry, e.target.value)}
+                />
+              ) : (
+                <span className="flex-1 text-slate-700">{entry.followUpAt ? new Date(entry.followUpAt).toLocaleDateString() : 'Not set'}</span>
+              )}
+              {overdue && <AlertTriangleIcon className="w-4 h-4 text-orange-500 shrink-0" />}
+            </div>
+
+            {draft?.entryId === entry.id ? (
+              <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 text-sm font-bold">₹</span>
+                    <input
+                      type="number"
+                      min="0"
+                      inputMode="numeric"
+                      autoFocus
+                      className={`${fieldClass} w-full pl-6`}
+                      value={draft.amount}
+                      onChange={e => setDraft({ ...draft, amount: e.target.value })}
+                      placeholder="Amount received"
+                    />
+                  </div>
+                  <select className={fieldClass} value={draft.mode} onChange={e => setDraft({ ...draft, mode: e.target.value as PaymentMode })}>
+                    {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(m => <option key={m} value={m}>{PAYMENT_MODE_LABELS[m]}</option>)}
+                  </select>
+                </div>
+                <input
+                  className={`${fieldClass} w-full`}
+                  value={draft.reference}
+                  onChange={e => setDraft({ ...draft, reference: e.target.value })}
+                  placeholder={draft.mode === 'cash' ? 'Receipt / note' : 'UTR / Txn ref'}
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setDraft(null)} className="text-slate-500 font-bold text-sm px-3 flex items-center gap-1 hover:underline">
+                    <XIcon className="w-4 h-4" /> Cancel
+                  </button>
+                  <button onClick={() => handleRecordPayment(entry)} disabled={busy} className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-1 hover:bg-green-700 disabled:opacity-50">
+                    <CheckIcon className="w-4 h-4" /> {busy ? 'Saving...' : 'Save Payment'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                {canEdit && (
+                  <button
+                    onClick={() => setDraft({ entryId: entry.id, amount: String(outstandingBalance(entry)), mode: 'cash', reference: '' })}
+                    className="flex-1 bg-indigo-50 text-indigo-700 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 hover:bg-indigo-100"
+                  >
+                    <PlusIcon className="w-4 h-4" /> Record Payment
+                  </button>
+                )}
+                <button
+                  onClick={() => setReminderEntry(entry)}
+                  className="flex-1 bg-green-50 text-green-700 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 hover:bg-green-100"
+                >
+                  <MessageIcon className="w-4 h-4" /> Send Reminder
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {reminderEntry && (
+        <MessageModal
+          entry={reminderEntry}
+          showPayments
+          canEditTemplates={canEditTemplates}
+          initialTemplateId={BALANCE_REMINDER_TEMPLATE_ID}
+          onClose={() => setReminderEntry(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DuesView;
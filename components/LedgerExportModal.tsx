@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ClientEntry } from '../types';
+import { EXPORT_COLUMNS, loadExportColumns, saveExportColumns, exportRows, exportFileName } from '../services/ledgerTransfer';
+import { toCsv, toXlsx } from '../services/spreadsheet';
+import { downloadFile } from '../services/backup';
+import { DownloadIcon, XIcon } from './Icons';
+
+interface LedgerExportModalProps {
+  entries: ClientEntry[]; // The records matching the ledger filters
+  showPayments: boolean;
+  onClose: () => void;
+}
+
+const LedgerExportModal: React.FC<LedgerExportModalProps> = ({ entries, showPayments, onClose }) => {
+  const available = EXPORT_COLUMNS.filter(c => showPayments || !c.payments);
+  const [selected, setSelected] = useState<string[]>(() => loadExportColumns().filter(key => available.some(c => c.key === key)));
+
+  const toggle = (key: string) => {
+    setSelected(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    saveExportColumns(selected);
+    const rows = exportRows(entries, selected);
+    downloadFile(format === 'csv' ? toCsv(rows) : toXlsx(rows, 'Ledger'), exportFileName(format));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 no-print animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <DownloadIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">Export Spreadsheet</h3>
+              <p className="text-xs text-indigo-700">{entries.length} record(s) matching the current filters.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Columns</span>
+            <button
+              onClick={() => setSelected(selected.length === available.length ? [] : available.map(c => c.key))}
+              className="text-xs font-bold text-indigo-600 hover:underline"
+            >
+              {selected.length === available.length ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {available.map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" className="accent-indigo-600" checked={selected.includes(column.key)} onChange={() => toggle(column.key)} />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-slate-50 p-3 flex justify-end gap-2 border-t border-slate-100">
+          <button onClick={onClose} className="text-slate-500 font-bold text-sm px-3 hover:underline">Cancel</button>
+          <button onClick={() => handleExport('csv')} disabled={selected.length === 0 || entries.length === 0} className="bg-white border border-indigo-200 text-indigo-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-50 disabled:opacity-50">CSV</button>
+          <button onClick={() => handleExport('xlsx')} disabled={selected.length === 0 || entries.length === 0} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">Excel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerExportModal;
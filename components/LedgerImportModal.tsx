@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ClientEntry } from '../types';
+import { IMPORT_FIELDS, ImportMapping, ImportRow, guessMapping, loadImportContext, validateImport } from '../services/ledgerTransfer';
+import { readSpreadsheet } from '../services/spreadsheet';
+import { UploadIcon, AlertTriangleIcon, CheckIcon, XIcon } from './Icons';
+
+interface LedgerImportModalProps {
+  activePanditId: string | null;
+  // Saves the checked records; false when saving failed (the error is already shown)
+  onImport: (entries: ClientEntry[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Nothing is written until the last step: pick a file, match its columns, review the rows
+const LedgerImportModal: React.FC<LedgerImportModalProps> = ({ activePanditId, onImport, onClose }) => {
+  const [step, setStep] = useState<'file' | 'map' | 'review'>('file');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [results, setResults] = useState<ImportRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+  const headers = rows[0] || [];
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && (!mapping || mapping[f.key] < 0));
+
+  const ready = results.filter(r => r.entry && !r.duplicateOf);
+  const duplicates = results.filter(r => r.entry && r.duplicateOf);
+  const invalid = results.filter(r => !r.entry);
+  const toImport = includeDuplicates ? [...ready, ...duplicates] : ready;
+  const problems = results.filter(r => !r.entry || r.duplicateOf);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.length < 2) throw new Error("The file has no rows below the header");
+      setFileName(file.name);
+      setRows(data);
+      setMapping(guessMapping(data[0]));
+      setStep('map');
+    } catch (err: any) {
+      console.error("Spreadsheet read failed", err);
+      setError(err.message || "Could not read the file");
+    }
+    setBusy(false);
+  };
+
+  const handleCheck = async () => {
+    if (!mapping) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setResults(validateImport(rows, mapping, await loadImportContext(activePanditId || undefined)));
+      setStep('review');
+    } catch (err: any) {
+      console.error("Import check failed", err);
+      setError("Could not compare with the register: " + err.message);
+    }
+    setBusy(false);
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    if (await onImport(toImport.map(r => r.entry!))) onClose();
+    else setBusy(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 no-print animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <UploadIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">Import Spreadsheet</h3>
+              <p className="text-xs text-indigo-700">{fileName || 'CSV or Excel (.xlsx), first row as headings.'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700 font-bold">{error}</div>
+          )}
+
+          {step === 'file' && (
+            <label className="w-full h-32 bg-slate-50 border-2 border-dashed border-slate-300 rounded-xl flex flex-col items-center justify-center gap-2 cursor-pointer hover:bg-indigo-50 hover:border-indigo-300 transition">
+              {busy ? <div className="w-6 h-6 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div> : <UploadIcon className="w-8 h-8 text-indigo-500" />}
+              <span className="text-sm font-bold text-slate-500">Choose a file</span>
+              <input type="file" accept=".csv,.xlsx,.txt,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" className="hidden" onChange={handleFile} disabled={busy} />
+            </label>
+          )}
+
+          {step === 'map' && mapping && (
+            <>
+              <p className="text-xs text-slate-500">Match each field to a column of the file. {rows.length - 1} row(s) found.</p>
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="grid grid-cols-2 gap-2 items-center">
+                  <span className="text-sm font-bold text-slate-700">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </span>
+                  <select className={fieldClass} value={mapping[field.key]} onChange={e => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}>
+                    <option value={-1}>Not in file</option>
+                    {headers.map((header, i) => (
+                      <option key={i} value={i}>{header || `Column ${i + 1}`}{rows[1]?.[i] ? ` (e.g. ${String(rows[1][i]).slice(0, 20)})` : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <p className="text-[11px] text-slate-500">Rows without a receipt code get a new one. Rows without a date are dated today.</p>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-green-50 rounded-lg p-2"><div className="text-xl font-bold text-green-700">{ready.length}</div><div className="text-[10px] font-bold text-green-800 uppercase">Ready</div></div>
+                <div className="bg-amber-50 rounded-lg p-2"><div className="text-xl font-bold text-amber-700">{duplicates.length}</div><div className="text-[10px] font-bold text-amber-800 uppercase">Duplicates</div></div>
+                <div className="bg-red-50 rounded-lg p-2"><div className="text-xl font-bold text-red-700">{invalid.length}</div><div className="text-[10px] font-bold text-red-800 uppercase">Errors</div></div>
+              </div>
+              {duplicates.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input type="checkbox" className="accent-indigo-600" checked={includeDuplicates} onChange={e => setIncludeDuplicates(e.target.checked)} />
+                  Import the duplicates as well
+                </label>
+              )}
+              {invalid.length > 0 && <p className="text-[11px] text-slate-500">Rows with errors are skipped. Fix them in the file and import it again.</p>}
+              {problems.length > 0 && (
+                <ul className="border border-slate-100 rounded-lg divide-y divide-slate-100 text-xs max-h-60 overflow-y-auto">
+                  {problems.slice(0, 200).map(r => (
+                    <li key={r.line} className="px-3 py-2 flex gap-2">
+                      <AlertTriangleIcon className={`w-4 h-4 shrink-0 ${r.entry ? 'text-amber-500' : 'text-red-500'}`} />
+                      <span><span className="font-bold">Row {r.line}:</span> {[...r.errors, ...(r.duplicateOf ? [r.duplicateOf] : [])].join('. ')}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="bg-slate-50 p-3 flex justify-between items-center gap-2 border-t border-slate-100">
+          {step !== 'file' ? (
+            <button onClick={() => setStep(step === 'review' ? 'map' : 'file')} disabled={busy} className="text-slate-500 font-bold text-sm px-3 hover:underline">Back</button>
+          ) : <span />}
+          {step === 'map' && (
+            <button onClick={handleCheck} disabled={busy || missingRequired.length > 0} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">
+              {busy ? 'Checking...' : 'Check Rows'}
+            </button>
+          )}
+          {step === 'review' && (
+            <button onClick={handleImport} disabled={busy || toImport.length === 0} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2">
+              <CheckIcon className="w-4 h-4" /> {busy ? 'Importing...' : `Import ${toImport.length} Record(s)`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerImportModal;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Contact } from '../types';
+import { SecuritySettings, hasPin, verifyPin } from '../services/access';
+import { LockIcon } from './Icons';
+
+interface LockScreenProps {
+  contacts: Contact[];
+  settings: SecuritySettings;
+  initialMemberId: string | null;
+  onUnlock: (memberId: string) => void;
+}
+
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 30;
+
+const LockScreen: React.FC<LockScreenProps> = ({ contacts, settings, initialMemberId, onUnlock }) => {
+  const members = contacts.filter(c => hasPin(settings, c.id));
+  const [memberId, setMemberId] = useState(
+    members.some(m => m.id === initialMemberId) ? initialMemberId! : members[0]?.id
+  );
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [failures, setFailures] = useState(0);
+  const [waitUntil, setWaitUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  // Countdown while locked out after repeated wrong PINs
+  useEffect(() => {
+    if (waitUntil <= now) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [waitUntil, now]);
+
+  const secondsLeft = Math.max(0, Math.ceil((waitUntil - now) / 1000));
+
+  const handleUnlock = async () => {
+    if (!memberId || !pin || checking || secondsLeft > 0) return;
+    setChecking(true);
+    const ok = await verifyPin(settings, memberId, pin).catch(() => false);
+    setChecking(false);
+    setPin('');
+    if (ok) {
+      onUnlock(memberId);
+      return;
+    }
+    const count = failures + 1;
+    if (count >= MAX_ATTEMPTS) {
+      setFailures(0);
+      setWaitUntil(Date.now() + LOCKOUT_SECONDS * 1000);
+      setNow(Date.now());
+      setError(`Too many wrong attempts.`);
+    } else {
+      setFailures(count);
+      setError(`Wrong PIN. ${MAX_ATTEMPTS - count} attempt(s) left.`);
+    }
+  };
+
+  const pressKey = (key: string) => {
+    setError(null);
+    setPin(prev => (key === '⌫' ? prev.slice(0, -1) : (prev + key).slice(0, 8)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gradient-to-b from-indigo-900 to-indigo-950 text-white flex flex-col items-center justify-center p-6 no-print">
+      <div className="bg-white/10 p-3 rounded-full mb-3">
+        <LockIcon className="w-8 h-8" />
+      </div>
+      <h1 className="font-bold text-xl">Yatra Seva</h1>
+      <p className="text-xs text-indigo-200 uppercase tracking-wider font-semibold mb-6">Locked</p>
+
+      <div className="flex gap-3 mb-6 flex-wrap justify-center">
+        {members.map(m => (
+          <button
+            key={m.id}
+            onClick={() => { setMemberId(m.id); setPin(''); setError(null); }}
+            className={`flex flex-col items-center gap-1 w-16 transition ${m.id === memberId ? 'opacity-100' : 'opacity-50'}`}
+          >
+            <div className={`h-12 w-12 rounded-full flex items-center justify-center text-lg font-bold shadow ${m.colorClass} ${m.id === memberId ? 'ring-2 ring-white' : ''}`}>
+              {m.initial}
+            </div>
+            <span className="text-[10px] font-bold truncate w-full text-center">{m.name.split(' ')[0]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3 h-4 mb-2">
+        {Array.from({ length: Math.max(pin.length, 4) }).map((_, i) => (
+          <div key={i} className={`w-3 h-3 rounded-full ${i < pin.length ? 'bg-white' : 'bg-white/20'}`}></div>
+        ))}
+      </div>
+      <p className="text-xs text-orange-300 font-bold h-5 mb-4">
+        {secondsLeft > 0 ? `${error || ''} Try again in ${secondsLeft}s.` : error}
+      </p>
+
+      <div className="grid grid-cols-3 gap-3 w-64">
+        {['1', '2', '3', '4', '5', '6', '7', '8', '9', '⌫', '0'].map(key => (
+          <button
+            key={key}
+            onClick={() => pressKey(key)}
+            disabled={secondsLeft > 0}
+            className="h-14 rounded-2xl bg-white/10 hover:bg-white/20 active:scale-95 transition text-xl font-bold disabled:opacity-30"
+          >
+            {key}
+          </button>
+        ))}
+        <button
+          onClick={handleUnlock}
+          disabled={!pin || checking || secondsLeft > 0}
+          className="h-14 rounded-2xl bg-orange-500 hover:bg-orange-600 active:scale-95 transition text-sm font-bold disabled:opacity-30"
+        >
+          {checking ? '...' : 'Unlock'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { dbService } from '../services/db';
+
+interface MediaImageProps {
+  mediaId?: string;
+  // Inline data URL (unsaved capture or a record from the LocalStorage fallback)
+  inline?: string | null;
+  variant?: 'thumb' | 'full';
+  className?: string;
+  alt?: string;
+  onClick?: () => void;
+  // Wait until the image is near the screen before reading it (off for print / PDF)
+  lazy?: boolean;
+}
+
+// Loads an image from the media store only while it is on screen
+const MediaImage: React.FC<MediaImageProps> = ({ mediaId, inline, variant = 'thumb', className, alt, onClick, lazy = true }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [visible, setVisible] = useState(!lazy);
+  const placeholderRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (visible || !placeholderRef.current) return;
+    const observer = new IntersectionObserver(records => {
+      if (records.some(r => r.isIntersecting)) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(placeholderRef.current);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+    if (inline || !mediaId) {
+      setUrl(null);
+      return;
+    }
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    dbService.getMedia([mediaId])
+      .then(([media]) => {
+        if (cancelled || !media) return;
+        objectUrl = URL.createObjectURL(variant === 'full' ? media.blob : media.thumb);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.warn("Could not load image", err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [mediaId, inline, variant, visible]);
+
+  const src = visible ? inline || url : null;
+  if (!src) return <div ref={placeholderRef} className={`${className || ''} bg-slate-100`} onClick={onClick}></div>;
+  return <img src={src} className={className} alt={alt} onClick={onClick} decoding="async" />;
+};
+
+export default MediaImage;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ClientEntry } from '../types';
+import { MessageLanguage, MessageTemplate, LANGUAGE_LABELS, PLACEHOLDERS, loadTemplates, saveTemplates, resetTemplates, fillTemplate, whatsAppLink, toWhatsAppNumber } from '../services/messages';
+import { MessageIcon, PencilIcon, XIcon } from './Icons';
+
+interface MessageModalProps {
+  entry: ClientEntry;
+  showPayments: boolean;
+  canEditTemplates: boolean;
+  initialTemplateId?: string; // Template to start with, e.g. the balance reminder
+  onClose: () => void;
+}
+
+const MessageModal: React.FC<MessageModalProps> = ({ entry, showPayments, canEditTemplates, initialTemplateId, onClose }) => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>(loadTemplates);
+  const initialTemplate = templates.find(t => t.id === initialTemplateId);
+  const [language, setLanguage] = useState<MessageLanguage>(initialTemplate?.language || 'en');
+  const [selectedId, setSelectedId] = useState<string | null>(initialTemplate?.id || null);
+  // Message as it will be sent; can be changed for this pilgrim without touching the template
+  const [text, setText] = useState(() => (initialTemplate ? fillTemplate(initialTemplate.body, entry, !showPayments) : ''));
+  const [editing, setEditing] = useState<MessageTemplate | null>(null);
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+  const visible = templates.filter(t => t.language === language);
+  const selected = templates.find(t => t.id === selectedId) || null;
+  const hasPhone = toWhatsAppNumber(entry.phone).length >= 10;
+
+  const choose = (template: MessageTemplate) => {
+    setSelectedId(template.id);
+    setText(fillTemplate(template.body, entry, !showPayments));
+  };
+
+  const handleSend = () => {
+    window.open(whatsAppLink(entry.phone, text), '_blank');
+    onClose();
+  };
+
+  const handleSaveTemplate = () => {
+    if (!editing) return;
+    const updated = templates.some(t => t.id === editing.id)
+      ? templates.map(t => (t.id === editing.id ? editing : t))
+      : [...templates, editing];
+    saveTemplates(updated);
+    setTemplates(updated);
+    setEditing(null);
+    choose(editing);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!editing) return;
+    const updated = templates.filter(t => t.id !== editing.id);
+    saveTemplates(updated);
+    setTemplates(updated);
+    setEditing(null);
+    setSelectedId(null);
+    setText('');
+  };
+
+  const handleReset = () => {
+    resetTemplates();
+    setTemplates(loadTemplates());
+    setSelectedId(null);
+    setText('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="bg-green-50 p-4 border-b border-green-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-green-100 text-green-700 p-2 rounded-full">
+              <MessageIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-green-900">WhatsApp Message</h3>
+              <p className="text-xs text-green-800">{entry.clientName} • {entry.phone || 'No phone number'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        {editing ? (
+          <div className="p-4 space-y-3 overflow-y-auto">
+            <input className={fieldClass} value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} placeholder="Template name" />
+            <textarea className={`${fieldClass} h-40`} value={editing.body} onChange={e => setEditing({ ...editing, body: e.target.value })} />
+            <div className="flex flex-wrap gap-1">
+              {PLACEHOLDERS.map(p => (
+                <button
+                  key={p.key}
+                  onClick={() => setEditing({ ...editing, body: `${editing.body}{${p.key}}` })}
+                  className="text-[10px] font-mono bg-slate-100 text-slate-600 px-2 py-1 rounded hover:bg-indigo-50 hover:text-indigo-700"
+                  title={p.label}
+                >
+                  {`{${p.key}}`}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between items-center pt-2">
+              {templates.some(t => t.id === editing.id) ? (
+                <button onClick={handleDeleteTemplate} className="text-red-500 text-sm font-bold hover:underline">Delete</button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <button onClick={() => setEditing(null)} className="text-slate-500 font-bold text-sm px-3 hover:underline">Cancel</button>
+                <button onClick={handleSaveTemplate} disabled={!editing.name.trim() || !editing.body.trim()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">Save Template</button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="p-4 space-y-3 overflow-y-auto">
+              <div className="flex bg-slate-100 rounded-lg p-1">
+                {(Object.keys(LANGUAGE_LABELS) as MessageLanguage[]).map(lang => (
+                  <button
+                    key={lang}
+                    onClick={() => { setLanguage(lang); setSelectedId(null); setText(''); }}
+                    className={`flex-1 py-1.5 rounded-md text-sm font-bold transition ${language === lang ? 'bg-white shadow text-indigo-700' : 'text-slate-500'}`}
+                  >
+                    {LANGUAGE_LABELS[lang]}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {visible.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => choose(t)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold border transition ${selectedId === t.id ? 'bg-green-600 text-white border-green-600' : 'bg-white text-slate-600 border-slate-200 hover:border-green-400'}`}
+                  >
+                    {t.name}
+                  </button>
+                ))}
+                {canEditTemplates && (
+                  <button
+                    onClick={() => setEditing({ id: 'T' + Date.now().toString(36), name: '', language, body: '' })}
+                    className="px-3 py-1.5 rounded-full text-xs font-bold border border-dashed border-slate-300 text-slate-500 hover:text-indigo-600"
+                  >
+                    + New
+                  </button>
+                )}
+              </div>
+
+              {selected && (
+                <>
+                  <textarea className={`${fieldClass} h-44`} value={text} onChange={e => setText(e.target.value)} />
+                  {canEditTemplates && (
+                    <button onClick={() => setEditing(selected)} className="text-xs font-bold text-indigo-600 flex items-center gap-1 hover:underline">
+                      <PencilIcon className="w-3 h-3" /> Edit "{selected.name}" template
+                    </button>
+                  )}
+                </>
+              )}
+              {!hasPhone && <p className="text-xs text-red-600 font-bold">This record has no valid phone number.</p>}
+            </div>
+
+            <div className="bg-slate-50 p-3 flex justify-between items-center gap-2 border-t border-slate-100">
+              {canEditTemplates ? (
+                <button onClick={handleReset} className="text-slate-400 text-xs font-bold hover:underline">Reset Templates</button>
+              ) : <span />}
+              <button
+                onClick={handleSend}
+                disabled={!text.trim() || !hasPhone}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-green-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                <MessageIcon className="w-4 h-4" /> Open WhatsApp
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageModal;
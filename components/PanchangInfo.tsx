@@ -0,0 +1,33 @@
+import React from 'react';
+import { describeDay, formatTime, panchangFor } from '../services/panchang';
+import { SunIcon } from './Icons';
+
+interface PanchangInfoProps {
+  date: string; // YYYY-MM-DD
+  className?: string;
+}
+
+// One day of the Mathura panchang, shown wherever a booking date is picked
+const PanchangInfo: React.FC<PanchangInfoProps> = ({ date, className = '' }) => {
+  const day = panchangFor(date);
+  return (
+    <div className={`bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-900 space-y-1 ${className}`}>
+      <p className="font-bold">{describeDay(day)} • {day.nakshatra} nakshatra</p>
+      <p className="flex items-center gap-1 text-amber-800">
+        <SunIcon className="w-3 h-3" /> Sunrise {formatTime(day.sunrise)} • Sunset {formatTime(day.sunset)}
+      </p>
+      {(day.festivals.length > 0 || day.vrat) && (
+        <div className="flex flex-wrap gap-1 pt-0.5">
+          {day.festivals.map(f => (
+            <span key={f.id} className="bg-orange-500 text-white px-2 py-0.5 rounded-full font-bold" title={f.note}>{f.name}</span>
+          ))}
+          {day.vrat && !day.festivals.some(f => f.name.includes(day.vrat!)) && (
+            <span className="bg-amber-200 text-amber-900 px-2 py-0.5 rounded-full font-bold">{day.vrat}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PanchangInfo;
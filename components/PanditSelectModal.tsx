@@ -0,0 +1,74 @@
+import React from 'react';
+import { Contact } from '../types';
+import { CheckIcon, XIcon, LockIcon, ShieldIcon, ClipboardIcon, BookIcon } from './Icons';
+
+interface PanditSelectModalProps {
+  contacts: Contact[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  // Not offered at app start, when someone has to be chosen
+  onClose?: () => void;
+  // Shown once an app lock is set up / for members allowed to manage it
+  onLock?: () => void;
+  onOpenSecurity?: () => void;
+  onOpenReceipts?: () => void;
+  onOpenRituals?: () => void;
+}
+
+const PanditSelectModal: React.FC<PanditSelectModalProps> = ({ contacts, activeId, onSelect, onClose, onLock, onOpenSecurity, onOpenReceipts, onOpenRituals }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+    <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden">
+      <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+        <div>
+          <h3 className="font-bold text-indigo-900">Who is using this phone?</h3>
+          <p className="text-xs text-indigo-700">New records are registered in this name.</p>
+        </div>
+        {onClose && <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>}
+      </div>
+      <div className="divide-y divide-slate-100">
+        {contacts.map(contact => (
+          <button
+            key={contact.id}
+            onClick={() => onSelect(contact.id)}
+            className={`w-full flex items-center p-4 text-left hover:bg-slate-50 transition active:bg-slate-100 ${contact.id === activeId ? 'bg-indigo-50/60' : ''}`}
+          >
+            <div className={`h-10 w-10 rounded-full flex items-center justify-center font-bold mr-3 shadow-sm shrink-0 ${contact.colorClass}`}>
+              {contact.initial}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="font-bold text-slate-800 truncate">{contact.name}</div>
+              <div className="text-xs text-slate-500 font-medium uppercase tracking-wide">{contact.role}</div>
+            </div>
+            {contact.id === activeId && <CheckIcon className="w-5 h-5 text-indigo-600" />}
+          </button>
+        ))}
+      </div>
+      {(onLock || onOpenSecurity || onOpenReceipts || onOpenRituals) && (
+        <div className="bg-slate-50 p-3 flex gap-2 border-t border-slate-100">
+          {onLock && (
+            <button onClick={onLock} className="flex-1 bg-slate-800 text-white py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-slate-900">
+              <LockIcon className="w-4 h-4" /> Lock Now
+            </button>
+          )}
+          {onOpenSecurity && (
+            <button onClick={onOpenSecurity} className="flex-1 bg-indigo-50 text-indigo-800 border border-indigo-200 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-indigo-100">
+              <ShieldIcon className="w-4 h-4" /> App Lock
+            </button>
+          )}
+          {onOpenReceipts && (
+            <button onClick={onOpenReceipts} className="flex-1 bg-indigo-50 text-indigo-800 border border-indigo-200 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-indigo-100">
+              <ClipboardIcon className="w-4 h-4" /> Receipt No.
+            </button>
+          )}
+          {onOpenRituals && (
+            <button onClick={onOpenRituals} className="flex-1 bg-indigo-50 text-indigo-800 border border-indigo-200 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-indigo-100">
+              <BookIcon className="w-4 h-4" /> Rituals
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default PanditSelectModal;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { PaymentTransaction, PaymentMode, PaymentType } from '../types';
+import { PAYMENT_MODE_LABELS, PAYMENT_TYPE_LABELS, createPayment, describePayment, toDateInputValue, fromDateInputValue } from '../services/payments';
+import { LockIcon, PlusIcon, XIcon } from './Icons';
+
+interface PaymentsEditorProps {
+  payments: PaymentTransaction[];
+  onChange: (payments: PaymentTransaction[]) => void;
+  isLocked?: (payment: PaymentTransaction) => boolean; // Dated on a closed day
+}
+
+const PaymentsEditor: React.FC<PaymentsEditorProps> = ({ payments, onChange, isLocked }) => {
+  const updatePayment = (id: string, changes: Partial<PaymentTransaction>) => {
+    onChange(payments.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const removePayment = (id: string) => {
+    onChange(payments.filter(p => p.id !== id));
+  };
+
+  const addPayment = () => {
+    // First payment is usually the advance, later ones settle the balance
+    onChange([...payments, createPayment({ type: payments.length === 0 ? 'advance' : 'balance' })]);
+  };
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="space-y-2">
+      {payments.map(payment => isLocked?.(payment) ? (
+        <div key={payment.id} className="bg-slate-100 border border-slate-200 rounded-xl px-3 py-2 flex items-center gap-2 text-sm text-slate-600" title="This day's cash book is closed">
+          <LockIcon className="w-4 h-4 text-slate-400 shrink-0" />
+          <span className="flex-1">{describePayment(payment)}</span>
+        </div>
+      ) : (
+        <div key={payment.id} className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+          <div className="flex gap-2 items-center">
+            <div className="relative flex-1">
+              <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 text-sm font-bold">₹</span>
+              <input
+                type="number"
+                min="0"
+                inputMode="numeric"
+                required
+                className={`${fieldClass} pl-6`}
+                value={payment.amount || ''}
+                onChange={e => updatePayment(payment.id, { amount: Number(e.target.value) })}
+                placeholder="Amount"
+              />
+            </div>
+            <select className={`${fieldClass} w-auto`} value={payment.mode} onChange={e => updatePayment(payment.id, { mode: e.target.value as PaymentMode })}>
+              {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(m => <option key={m} value={m}>{PAYMENT_MODE_LABELS[m]}</option>)}
+            </select>
+            <select className={`${fieldClass} w-auto`} value={payment.type} onChange={e => updatePayment(payment.id, { type: e.target.value as PaymentType })}>
+              {(Object.keys(PAYMENT_TYPE_LABELS) as PaymentType[]).map(t => <option key={t} value={t}>{PAYMENT_TYPE_LABELS[t]}</option>)}
+            </select>
+            <button type="button" onClick={() => removePayment(payment.id)} className="text-red-400 hover:text-red-600 p-1" title="Remove Payment">
+              <XIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              required
+              className={`${fieldClass} flex-1`}
+              value={toDateInputValue(payment.date)}
+              onChange={e => e.target.value && updatePayment(payment.id, { date: fromDateInputValue(e.target.value) })}
+            />
+            <input
+              className={`${fieldClass} flex-1`}
+              value={payment.reference}
+              onChange={e => updatePayment(payment.id, { reference: e.target.value })}
+              placeholder={payment.mode === 'cash' ? 'Receipt / note' : 'UTR / Txn ref'}
+            />
+          </div>
+        </div>
+      ))}
+      <button type="button" onClick={addPayment} className="flex items-center justify-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl w-full text-sm font-bold hover:bg-slate-200 transition">
+        <PlusIcon className="w-4 h-4" /> Add Payment
+      </button>
+    </div>
+  );
+};
+
+export default PaymentsEditor;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Person } from '../types';
+import { createPerson, searchPeople } from '../services/lineage';
+import { SearchIcon, PlusIcon, XIcon } from './Icons';
+
+interface PersonPickerProps {
+  people: Person[];
+  selectedId?: string;
+  onSelect: (personId: string | undefined) => void;
+  onCreate: (person: Person) => Promise<boolean>;
+  // Prefill for the "new person" form (e.g. the client name being typed)
+  suggestedName?: string;
+  excludeIds?: string[];
+}
+
+const PersonPicker: React.FC<PersonPickerProps> = ({ people, selectedId, onSelect, onCreate, suggestedName = '', excludeIds = [] }) => {
+  const [query, setQuery] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState({ name: '', gotra: '', nativeVillage: '' });
+  const [saving, setSaving] = useState(false);
+
+  const selected = selectedId ? people.find(p => p.id === selectedId) : undefined;
+  const matches = searchPeople(query, people).filter(p => !excludeIds.includes(p.id)).slice(0, 6);
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const startCreate = () => {
+    setDraft({ name: query || suggestedName, gotra: '', nativeVillage: '' });
+    setCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!draft.name.trim()) {
+      alert("Please enter a name.");
+      return;
+    }
+    setSaving(true);
+    const person = createPerson({
+      name: draft.name.trim(),
+      gotra: draft.gotra.trim(),
+      nativeVillage: draft.nativeVillage.trim()
+    });
+    const ok = await onCreate(person);
+    setSaving(false);
+    if (ok) {
+      onSelect(person.id);
+      setCreating(false);
+      setQuery('');
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="flex items-center justify-between bg-amber-50 border border-amber-200 rounded-xl p-3">
+        <div className="min-w-0">
+          <div className="font-bold text-slate-800 truncate">{selected.name}</div>
+          <div className="text-xs text-slate-500 truncate">
+            {[selected.gotra && `Gotra: ${selected.gotra}`, selected.nativeVillage].filter(Boolean).join(' • ') || 'No gotra / village recorded'}
+          </div>
+        </div>
+        <button type="button" onClick={() => onSelect(undefined)} className="text-slate-400 hover:text-red-500 p-1" title="Unlink">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (creating) {
+    return (
+      <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+        <input className={fieldClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Name" />
+        <div className="flex gap-2">
+          <input className={fieldClass} value={draft.gotra} onChange={e => setDraft({ ...draft, gotra: e.target.value })} placeholder="Gotra" />
+          <input className={fieldClass} value={draft.nativeVillage} onChange={e => setDraft({ ...draft, nativeVillage: e.target.value })} placeholder="Native village" />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={() => setCreating(false)} className="text-xs text-slate-500 font-bold px-3 py-1 hover:underline">Cancel</button>
+          <button type="button" onClick={handleCreate} disabled={saving} className="text-xs bg-indigo-600 text-white font-bold px-3 py-1 rounded-md hover:bg-indigo-700 disabled:opacity-50">
+            {saving ? 'Saving...' : 'Add to Register'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <div className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
+          <SearchIcon className="w-4 h-4" />
+        </div>
+        <input
+          className={`${fieldClass} pl-9`}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search by name, gotra or village..."
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 bg-white overflow-hidden">
+          {matches.map(p => (
+            <button type="button" key={p.id} onClick={() => { onSelect(p.id); setQuery(''); }} className="w-full text-left px-3 py-2 hover:bg-indigo-50">
+              <div className="text-sm font-bold text-slate-800">{p.name}</div>
+              <div className="text-[10px] text-slate-500">{[p.gotra, p.nativeVillage].filter(Boolean).join(' • ')}</div>
+            </button>
+          ))}
+        </div>
+      )}
+      <button type="button" onClick={startCreate} className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:underline">
+        <PlusIcon className="w-3 h-3" /> New person in register
+      </button>
+    </div>
+  );
+};
+
+export default PersonPicker;
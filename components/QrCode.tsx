@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../services/qr';
+
+interface QrCodeProps {
+  value: string;
+  size?: number; // Pixels, including the white margin
+  className?: string;
+}
+
+const QUIET_ZONE = 4; // Modules of white border scanners need around the code
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 96, className = '' }) => {
+  // One path for all dark modules keeps the SVG small and crisp when printed
+  const { path, dimension } = useMemo(() => {
+    try {
+      const modules = encodeQr(value);
+      let d = '';
+      modules.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      }));
+      return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+    } catch (e) {
+      console.warn("QR code not generated", e);
+      return { path: '', dimension: 0 };
+    }
+  }, [value]);
+
+  if (!path) return null;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={`QR code for ${value}`}
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
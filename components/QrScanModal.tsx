@@ -0,0 +1,38 @@
+import React from 'react';
+import CameraCapture from './CameraCapture';
+import { QrCodeIcon, XIcon } from './Icons';
+
+interface QrScanModalProps {
+  onScan: (text: string) => void;
+  onClose: () => void;
+  // Shown under the camera, e.g. when a scanned code has no record
+  message?: string | null;
+}
+
+const QrScanModal: React.FC<QrScanModalProps> = ({ onScan, onClose, message }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+    <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden">
+      <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+            <QrCodeIcon className="w-6 h-6" />
+          </div>
+          <div>
+            <h3 className="font-bold text-indigo-900">Scan Receipt</h3>
+            <p className="text-xs text-indigo-700">Opens the record as soon as the code is read.</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <CameraCapture onScan={onScan} autoStart label="Start Camera" />
+        {message && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-900">{message}</div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default QrScanModal;
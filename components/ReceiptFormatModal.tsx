@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ReceiptFormat, loadReceiptFormat, saveReceiptFormat, normalizeReceiptFormat, nextCodeFrom } from '../services/receipts';
+import { ClipboardIcon, XIcon } from './Icons';
+
+interface ReceiptFormatModalProps {
+  onClose: () => void;
+}
+
+const ReceiptFormatModal: React.FC<ReceiptFormatModalProps> = ({ onClose }) => {
+  const [format, setFormat] = useState<ReceiptFormat>(loadReceiptFormat());
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  const cleaned = normalizeReceiptFormat(format);
+
+  const handleSave = () => {
+    saveReceiptFormat(cleaned);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <ClipboardIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">Receipt Numbers</h3>
+              <p className="text-xs text-indigo-700">Applies to new records on this phone.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div>
+            <label className={labelClass}>Prefix (season or name)</label>
+            <input className={fieldClass} value={format.prefix} maxLength={12} onChange={e => setFormat({ ...format, prefix: e.target.value })} placeholder="YATRA" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" className="accent-indigo-600" checked={format.includeYear} onChange={e => setFormat({ ...format, includeYear: e.target.checked })} />
+            Add the year after the prefix
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Phone letters</label>
+              <input className={fieldClass} value={format.deviceTag} maxLength={2} onChange={e => setFormat({ ...format, deviceTag: e.target.value })} placeholder="Automatic" />
+            </div>
+            <div>
+              <label className={labelClass}>Daily number</label>
+              <select className={fieldClass} value={format.sequenceDigits} onChange={e => setFormat({ ...format, sequenceDigits: Number(e.target.value) })}>
+                <option value={3}>3 digits</option>
+                <option value={4}>4 digits</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            Each phone puts its own letters in its numbers, so phones registering bookings offline never hand out the same number. Pick letters that are easy to recognise, or leave it empty to have them picked for this phone.
+          </p>
+          <div className="bg-slate-50 rounded-lg p-3 text-center">
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">First code today</div>
+            <div className="font-mono font-bold text-indigo-700 text-lg">{nextCodeFrom([], new Date(), cleaned)}</div>
+            <div className="text-[10px] text-slate-500">The last digit is a check digit that catches typing mistakes.</div>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 p-3 flex justify-end gap-2 border-t border-slate-100">
+          <button onClick={onClose} className="text-slate-500 font-bold text-sm px-3 hover:underline">Cancel</button>
+          <button onClick={handleSave} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptFormatModal;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ReportData, ReportPeriod, REPORT_PERIODS, CountRow, SeriesPoint, buildReport } from '../services/reports';
+import { formatINR, PAYMENT_MODE_LABELS } from '../services/payments';
+import { PaymentMode } from '../types';
+import BarChart from './BarChart';
+import { ChartIcon, LockIcon, PrintIcon } from './Icons';
+
+interface ReportsViewProps {
+  hasBg: boolean;
+  showPayments: boolean;
+  onBack: () => void;
+  refreshKey: unknown; // Changes whenever records change
+  onDayClose?: () => void;
+}
+
+const RankedBars: React.FC<{ title: string, rows: CountRow[], showPayments: boolean }> = ({ title, rows, showPayments }) => {
+  const max = Math.max(1, ...rows.map(r => r.count));
+  return (
+    <div className="space-y-2 print:break-inside-avoid">
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider print:text-black">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">Nothing in this period</p>
+      ) : rows.map(row => (
+        <div key={row.label}>
+          <div className="flex justify-between text-xs text-slate-700 print:text-black">
+            <span className="truncate pr-2">{row.label}</span>
+            <span className="font-bold shrink-0">{row.count}{showPayments && row.amount > 0 && <span className="font-normal text-slate-500"> • {formatINR(row.amount)}</span>}</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden print:border print:border-black">
+            <div className="h-full bg-indigo-500 print:bg-black" style={{ width: `${(row.count / max) * 100}%` }}></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ReportsView: React.FC<ReportsViewProps> = ({ hasBg, showPayments, onBack, refreshKey, onDayClose }) => {
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  const [report, setReport] = useState<ReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100 p-4 print:shadow-none print:border-black print:rounded-none print:bg-white`;
+  const periodLabel = REPORT_PERIODS.find(p => p.key === period)!.label;
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    buildReport(period)
+      .then(result => { if (!cancelled) setReport(result); })
+      .catch(err => {
+        console.error("Could not build report", err);
+        if (!cancelled) setError("Reports need the on-device database, which is not available.");
+      });
+    return () => { cancelled = true; };
+  }, [period, refreshKey]);
+
+  // Income where payments may be seen, otherwise the number of bookings
+  const series = (points: SeriesPoint[]) => points.map(p => ({ key: p.key, label: p.label, value: showPayments ? p.amount : p.bookings }));
+  const formatValue = showPayments ? formatINR : (v: number) => String(v);
+  const seriesTitle = showPayments ? 'Income' : 'Bookings';
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out] print:space-y-3">
+      <div className="flex justify-between items-center no-print">
+        <button onClick={onBack} className="text-sm font-bold text-indigo-700 hover:underline">← Back</button>
+        <div className="flex gap-2">
+          {onDayClose && (
+            <button onClick={onDayClose} className="bg-indigo-100 text-indigo-800 px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-indigo-200">
+              <LockIcon className="w-4 h-4" /> Day Close
+            </button>
+          )}
+          <button onClick={() => window.print()} disabled={!report} className="bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-900 disabled:opacity-50">
+            <PrintIcon className="w-4 h-4" /> Print Summary
+          </button>
+        </div>
+      </div>
+
+      <div className={`${panelClass} flex justify-between items-center gap-2`}>
+        <div className="flex items-center gap-2">
+          <ChartIcon className="w-5 h-5 text-indigo-600 print:hidden" />
+          <div>
+            <h2 className="font-bold text-lg text-slate-800 print:text-black">Reports</h2>
+            <p className="hidden print:block text-xs">Yatra To Mathura • {periodLabel} • Printed {new Date().toLocaleDateString()}</p>
+          </div>
+        </div>
+        <select
+          className="no-print px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+          value={period}
+          onChange={e => setPeriod(e.target.value as ReportPeriod)}
+        >
+          {REPORT_PERIODS.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+        </select>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700">{error}</div>}
+      {!report && !error && <div className="text-center py-10 text-slate-400 text-sm">Calculating...</div>}
+
+      {report && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-3 print:grid-cols-4">
+            {[
+              { label: 'Bookings', value: String(report.bookings) },
+              { label: 'Pilgrims', value: String(report.pilgrims) },
+              ...(showPayments ? [
+                { label: 'Received', value: formatINR(report.received) },
+                { label: 'Outstanding', value: formatINR(report.outstanding) }
+              ] : [])
+            ].map(card => (
+              <div key={card.label} className={panelClass}>
+                <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider print:text-black">{card.label}</div>
+                <div className="text-xl font-extrabold text-slate-800 print:text-black">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {showPayments && report.received > 0 && (
+            <div className={`${panelClass} flex justify-around text-center text-xs`}>
+              {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map(mode => (
+                <div key={mode}>
+                  <div className="font-bold text-slate-500 uppercase print:text-black">{PAYMENT_MODE_LABELS[mode]}</div>
+                  <div className="font-bold text-slate-800 print:text-black">{formatINR(report.byMode[mode])}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Charts */}
+          <div className={`${panelClass} space-y-2 print:break-inside-avoid`}>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider print:text-black">{seriesTitle} by day</h3>
+            <BarChart data={series(report.daily)} formatValue={formatValue} />
+          </div>
+          <div className={`${panelClass} space-y-2 print:break-inside-avoid`}>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider print:text-black">{seriesTitle} by month</h3>
+            <BarChart data={series(report.monthly)} formatValue={formatValue} color="fill-emerald-500" />
+          </div>
+
+          {/* Seasons */}
+          <div className={`${panelClass} print:break-inside-avoid`}>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 print:text-black">By season</h3>
+            {report.seasons.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">Nothing in this period</p>
+            ) : (
+              <table className="w-full text-xs text-slate-700 print:text-black">
+                <thead>
+                  <tr className="text-left text-slate-500 print:text-black">
+                    <th className="py-1 font-bold">Season</th>
+                    <th className="py-1 font-bold text-right">Bookings</th>
+                    {showPayments && <th className="py-1 font-bold text-right">Income</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.seasons.map(s => (
+                    <tr key={s.key}>
+                      <td className="py-1">{s.label}</td>
+                      <td className="py-1 text-right font-bold">{s.bookings}</td>
+                      {showPayments && <td className="py-1 text-right font-bold">{formatINR(s.amount)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Counts */}
+          <div className={`${panelClass} space-y-5`}>
+            <RankedBars title="Most booked rituals" rows={report.rituals} showPayments={showPayments} />
+            <RankedBars title="Bookings by pandit" rows={report.pandits} showPayments={showPayments} />
+            <RankedBars title="Pilgrims' home state" rows={report.states} showPayments={showPayments} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportsView;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Ritual } from '../types';
+import { loadRituals, saveRitual, removeRitual, resetRituals, newRitualId, formatDuration, parseSamagri } from '../services/rituals';
+import { formatINR } from '../services/payments';
+import { BookIcon, PencilIcon, XIcon } from './Icons';
+
+interface RitualCatalogModalProps {
+  onClose: () => void;
+  onChanged: () => void; // Queues the change for sync
+}
+
+// Form values are kept as text while typing
+interface RitualDraft {
+  id: string;
+  name: string;
+  nameHi: string;
+  dakshina: string;
+  durationMinutes: string;
+  samagri: string; // One item per line
+}
+
+const toDraft = (ritual: Ritual): RitualDraft => ({
+  id: ritual.id,
+  name: ritual.name,
+  nameHi: ritual.nameHi,
+  dakshina: String(ritual.dakshina),
+  durationMinutes: String(ritual.durationMinutes),
+  samagri: ritual.samagri.join('\n')
+});
+
+const RitualCatalogModal: React.FC<RitualCatalogModalProps> = ({ onClose, onChanged }) => {
+  const [rituals, setRituals] = useState<Ritual[]>(loadRituals);
+  const [editing, setEditing] = useState<RitualDraft | null>(null);
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  const update = async (write: () => Promise<void>) => {
+    try {
+      await write();
+      setRituals(loadRituals());
+      setEditing(null);
+      onChanged();
+    } catch (e) {
+      console.error("Could not save the ritual catalog", e);
+      alert("Could not save the ritual catalog. Please try again.");
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const ritual: Ritual = {
+      id: editing.id,
+      name: editing.name.trim(),
+      nameHi: editing.nameHi.trim(),
+      dakshina: Math.max(0, Number(editing.dakshina) || 0),
+      durationMinutes: Math.max(0, Math.round(Number(editing.durationMinutes) || 0)),
+      samagri: parseSamagri(editing.samagri)
+    };
+    const duplicate = rituals.some(r => r.id !== ritual.id && r.name.toLowerCase() === ritual.name.toLowerCase());
+    if (duplicate) {
+      alert(`"${ritual.name}" is already in the catalog.`);
+      return;
+    }
+    update(() => saveRitual(ritual));
+  };
+
+  // Bookings keep their plan text; the ritual is only hidden from the catalog
+  const handleDelete = () => {
+    const ritual = editing && rituals.find(r => r.id === editing.id);
+    if (ritual) update(() => removeRitual(ritual));
+  };
+
+  const handleReset = () => update(resetRituals);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <BookIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">Ritual Catalog</h3>
+              <p className="text-xs text-indigo-700">Standard dakshina and samagri offered when booking.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        {editing ? (
+          <div className="p-4 space-y-3 overflow-y-auto">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input className={fieldClass} value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} placeholder="Yamuna Pujan" />
+              </div>
+              <div>
+                <label className={labelClass}>हिंदी नाम</label>
+                <input className={fieldClass} value={editing.nameHi} onChange={e => setEditing({ ...editing, nameHi: e.target.value })} placeholder="यमुना पूजन" />
+              </div>
+              <div>
+                <label className={labelClass}>Dakshina (₹)</label>
+                <input type="number" min="0" inputMode="numeric" className={fieldClass} value={editing.dakshina} onChange={e => setEditing({ ...editing, dakshina: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Duration (minutes)</label>
+                <input type="number" min="0" inputMode="numeric" className={fieldClass} value={editing.durationMinutes} onChange={e => setEditing({ ...editing, durationMinutes: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Samagri (one per line)</label>
+              <textarea className={`${fieldClass} h-40`} value={editing.samagri} onChange={e => setEditing({ ...editing, samagri: e.target.value })} placeholder={'Roli\nMoli\nNariyal'} />
+            </div>
+            <div className="flex justify-between items-center pt-2">
+              {rituals.some(r => r.id === editing.id) ? (
+                <button onClick={handleDelete} className="text-red-500 text-sm font-bold hover:underline">Delete</button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <button onClick={() => setEditing(null)} className="text-slate-500 font-bold text-sm px-3 hover:underline">Cancel</button>
+                <button onClick={handleSave} disabled={!editing.name.trim()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">Save Ritual</button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-slate-100 overflow-y-auto">
+              {rituals.map(r => (
+                <button key={r.id} onClick={() => setEditing(toDraft(r))} className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-slate-50">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-800 truncate">{r.name} <span className="font-normal text-slate-500">{r.nameHi}</span></p>
+                    <p className="text-xs text-slate-500 truncate">{formatDuration(r.durationMinutes)} • {r.samagri.length} samagri item{r.samagri.length === 1 ? '' : 's'}</p>
+                  </div>
+                  <span className="text-sm font-bold text-indigo-700 shrink-0">{formatINR(r.dakshina)}</span>
+                  <PencilIcon className="w-4 h-4 text-slate-400 shrink-0" />
+                </button>
+              ))}
+            </div>
+            <div className="bg-slate-50 p-3 flex justify-between items-center gap-2 border-t border-slate-100">
+              <button onClick={handleReset} className="text-slate-400 text-xs font-bold hover:underline">Reset Catalog</button>
+              <button
+                onClick={() => setEditing(toDraft({ id: newRitualId(), name: '', nameHi: '', dakshina: 0, durationMinutes: 60, samagri: [] }))}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700"
+              >
+                + New Ritual
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RitualCatalogModal;
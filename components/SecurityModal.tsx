@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AccessRole, Contact } from '../types';
+import { SecuritySettings, ROLE_LABELS, MIN_PIN_LENGTH, hasPin, isValidPin, withPin } from '../services/access';
+import { ShieldIcon, XIcon, AlertTriangleIcon } from './Icons';
+
+interface SecurityModalProps {
+  contacts: Contact[];
+  settings: SecuritySettings;
+  onSave: (settings: SecuritySettings) => void;
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [1, 2, 5, 10, 15, 30];
+
+const SecurityModal: React.FC<SecurityModalProps> = ({ contacts, settings, onSave, onClose }) => {
+  const [editingPinFor, setEditingPinFor] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  // Someone must always be able to open these settings again
+  const headHasPin = (s: SecuritySettings) => contacts.some(c => s.members[c.id].role === 'head' && hasPin(s, c.id));
+  const anyPin = (s: SecuritySettings) => contacts.some(c => hasPin(s, c.id));
+  const checkLockout = (next: SecuritySettings) => {
+    if (!contacts.some(c => next.members[c.id].role === 'head')) return "At least one member must keep the Head role.";
+    if (anyPin(next) && !headHasPin(next)) return "Set a PIN for the Head first, so the lock can always be managed.";
+    return null;
+  };
+
+  const apply = (next: SecuritySettings) => {
+    const problem = checkLockout(next);
+    if (problem) {
+      setError(problem);
+      return false;
+    }
+    setError(null);
+    onSave(next);
+    return true;
+  };
+
+  const setRole = (memberId: string, role: AccessRole) => {
+    apply({ ...settings, members: { ...settings.members, [memberId]: { ...settings.members[memberId], role } } });
+  };
+
+  const savePin = async (memberId: string, newPin: string | null) => {
+    if (newPin !== null && !isValidPin(newPin)) {
+      setError(`PIN must be ${MIN_PIN_LENGTH} to 8 digits.`);
+      return;
+    }
+    setBusy(true);
+    try {
+      if (apply(await withPin(settings, memberId, newPin))) {
+        setEditingPinFor(null);
+        setPin('');
+      }
+    } catch (e: any) {
+      setError(e.message);
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden max-h-full flex flex-col">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <ShieldIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">App Lock & Access</h3>
+              <p className="text-xs text-indigo-700">PINs and permissions on this phone.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {contacts.map(contact => {
+            const member = settings.members[contact.id];
+            return (
+              <div key={contact.id} className="border border-slate-200 rounded-xl p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-bold shrink-0 ${contact.colorClass}`}>{contact.initial}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold text-slate-800 text-sm truncate">{contact.name}</div>
+                    <div className="text-[11px] text-slate-500">{hasPin(settings, contact.id) ? '🔒 PIN set' : 'No PIN'}</div>
+                  </div>
+                </div>
+                <select className={fieldClass} value={member.role} onChange={e => setRole(contact.id, e.target.value as AccessRole)}>
+                  {(Object.keys(ROLE_LABELS) as AccessRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                </select>
+                {editingPinFor === contact.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="new-password"
+                      className={fieldClass}
+                      value={pin}
+                      onChange={e => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                      placeholder={`New PIN (${MIN_PIN_LENGTH}-8 digits)`}
+                      autoFocus
+                    />
+                    <button onClick={() => savePin(contact.id, pin)} disabled={busy} className="text-xs bg-indigo-600 text-white font-bold px-3 rounded-lg hover:bg-indigo-700 disabled:opacity-50">Save</button>
+                    <button onClick={() => { setEditingPinFor(null); setPin(''); }} className="text-xs text-slate-500 font-bold px-1 hover:underline">Cancel</button>
+                  </div>
+                ) : (
+                  <div className="flex gap-3 text-xs font-bold">
+                    <button onClick={() => { setEditingPinFor(contact.id); setPin(''); setError(null); }} className="text-indigo-600 hover:underline">
+                      {hasPin(settings, contact.id) ? 'Change PIN' : 'Set PIN'}
+                    </button>
+                    {hasPin(settings, contact.id) && (
+                      <button onClick={() => savePin(contact.id, null)} disabled={busy} className="text-red-600 hover:underline">Remove PIN</button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase">Auto-lock after</label>
+            <select
+              className={fieldClass}
+              value={settings.autoLockMinutes}
+              onChange={e => apply({ ...settings, autoLockMinutes: Number(e.target.value) })}
+            >
+              {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m} minute{m === 1 ? '' : 's'} without use</option>)}
+            </select>
+          </div>
+
+          <p className="text-[11px] text-slate-500">
+            The lock turns on once any member has a PIN. Only members with a PIN can unlock the app.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 text-red-800 p-3 rounded-lg border border-red-100 text-sm font-medium flex gap-2">
+              <AlertTriangleIcon className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecurityModal;
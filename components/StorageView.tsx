@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import {
+  RetentionPolicy, RetentionPreview, StorageBreakdown, PHOTO_RETENTION_OPTIONS, RECORD_RETENTION_OPTIONS,
+  loadRetentionPolicy, saveRetentionPolicy, formatBytes, estimateStorage, isStoragePersisted,
+  requestPersistentStorage, measureStorage, previewRetention, applyRetention
+} from '../services/storage';
+import { HardDriveIcon, ShieldIcon, TrashIcon } from './Icons';
+
+interface StorageViewProps {
+  hasBg: boolean;
+  activePanditId: string | null;
+  onBack: () => void;
+  onOpenTrash: () => void;
+  onChanged: () => void;
+  requestConfirm: (title: string, message: string, onConfirm: () => void, type?: 'danger' | 'info') => void;
+  closeConfirm: () => void;
+}
+
+const CATEGORIES: { key: keyof StorageBreakdown, label: string, color: string }[] = [
+  { key: 'photos', label: 'Photos', color: 'bg-indigo-500' },
+  { key: 'signatures', label: 'Signatures', color: 'bg-emerald-500' },
+  { key: 'backgrounds', label: 'Backgrounds', color: 'bg-amber-500' },
+  { key: 'records', label: 'Records & Family Register', color: 'bg-slate-500' },
+];
+
+const StorageView: React.FC<StorageViewProps> = ({ hasBg, activePanditId, onBack, onOpenTrash, onChanged, requestConfirm, closeConfirm }) => {
+  const [quota, setQuota] = useState<{ usage: number, quota: number } | null>(null);
+  const [persisted, setPersisted] = useState(false);
+  const [breakdown, setBreakdown] = useState<StorageBreakdown | null>(null);
+  const [policy, setPolicy] = useState<RetentionPolicy>(loadRetentionPolicy());
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100 p-4`;
+  const selectClass = "px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const measure = async () => {
+    setQuota(await estimateStorage());
+    setPersisted(await isStoragePersisted());
+    try {
+      setBreakdown(await measureStorage());
+    } catch (e) {
+      console.warn("Could not measure storage", e);
+    }
+  };
+
+  useEffect(() => { measure(); }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    previewRetention(policy)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(e => console.warn("Could not preview clean-up", e));
+    return () => { cancelled = true; };
+  }, [policy.photoDays, policy.recordDays]);
+
+  const updatePolicy = (patch: Partial<RetentionPolicy>) => {
+    const next = { ...policy, ...patch };
+    setPolicy(next);
+    saveRetentionPolicy(next);
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    setPersisted(granted);
+    if (!granted) alert("The browser did not allow protected storage. Installing the app to the home screen usually helps.");
+  };
+
+  const handleRunNow = () => {
+    if (!preview || (preview.photoCount === 0 && preview.recordCount === 0)) return;
+    requestConfirm(
+      "Run Clean-up",
+      `Remove photos from ${preview.photoCount} record(s) and move ${preview.recordCount} record(s) to the Recycle Bin? About ${formatBytes(preview.bytesFreed)} will be freed.`,
+      async () => {
+        closeConfirm();
+        setRunning(true);
+        try {
+          const result = await applyRetention(policy, activePanditId || undefined);
+          setPolicy(loadRetentionPolicy());
+          onChanged();
+          await measure();
+          setPreview(await previewRetention(policy));
+          alert(`Clean-up complete! Removed ${result.photos} photo(s) and moved ${result.records} record(s) to the Recycle Bin.`);
+        } catch (e) {
+          console.error("Clean-up failed", e);
+          alert("Clean-up failed.");
+        }
+        setRunning(false);
+      },
+      'danger'
+    );
+  };
+
+  const measuredTotal = breakdown ? CATEGORIES.reduce((sum, c) => sum + breakdown[c.key], 0) : 0;
+  const usedPercent = quota && quota.quota > 0 ? Math.min(100, (quota.usage / quota.quota) * 100) : 0;
+  const previewNames = preview ? preview.names : [];
+  const previewTotal = preview ? preview.recordCount + preview.photoCount : 0;
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out]">
+      <button onClick={onBack} className="text-sm font-bold text-indigo-700 hover:underline">← Back</button>
+
+      {/* Device Quota */}
+      <div className={`${panelClass} space-y-3`}>
+        <div className="flex items-center gap-2">
+          <HardDriveIcon className="w-5 h-5 text-indigo-600" />
+          <h2 className="font-bold text-lg text-slate-800">Storage</h2>
+        </div>
+        {quota ? (
+          <>
+            <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+              <div className={`h-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${usedPercent}%` }}></div>
+            </div>
+            <p className="text-xs text-slate-600">
+              <span className="font-bold">{formatBytes(quota.usage)}</span> used of {formatBytes(quota.quota)} available to the app ({usedPercent.toFixed(1)}%)
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500">This browser does not report how much space is available.</p>
+        )}
+        <div className={`flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-xs ${persisted ? 'bg-emerald-50 text-emerald-800' : 'bg-amber-50 text-amber-800'}`}>
+          <span className="flex items-center gap-1">
+            <ShieldIcon className="w-4 h-4" />
+            {persisted ? 'Protected: the browser will not clear this data on its own.' : 'Not protected: the browser may clear data when the phone is low on space.'}
+          </span>
+          {!persisted && (
+            <button onClick={handlePersist} className="shrink-0 bg-amber-600 text-white font-bold px-2 py-1 rounded hover:bg-amber-700">Protect</button>
+          )}
+        </div>
+      </div>
+
+      {/* Usage by Category */}
+      <div className={`${panelClass} space-y-3`}>
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">What takes space</h3>
+        {!breakdown ? (
+          <p className="text-xs text-slate-500">Measuring...</p>
+        ) : (
+          <>
+            <div className="h-3 bg-slate-100 rounded-full overflow-hidden flex">
+              {CATEGORIES.map(c => (
+                <div key={c.key} className={c.color} style={{ width: `${measuredTotal ? (breakdown[c.key] / measuredTotal) * 100 : 0}%` }}></div>
+              ))}
+            </div>
+            <ul className="space-y-1">
+              {CATEGORIES.map(c => (
+                <li key={c.key} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 text-slate-700"><span className={`w-3 h-3 rounded-sm ${c.color}`}></span>{c.label}</span>
+                  <span className="font-mono text-xs text-slate-600">{formatBytes(breakdown[c.key])}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        <button onClick={onOpenTrash} className="text-xs font-bold text-indigo-700 flex items-center gap-1 hover:underline">
+          <TrashIcon className="w-3 h-3" /> Open Recycle Bin
+        </button>
+      </div>
+
+      {/* Retention Policy */}
+      <div className={`${panelClass} space-y-3`}>
+        <label className="flex items-center justify-between gap-2">
+          <div>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Automatic clean-up</h3>
+            <p className="text-[11px] text-slate-500">Runs once a day while the app is open.</p>
+          </div>
+          <input type="checkbox" className="w-5 h-5 accent-indigo-600" checked={policy.enabled} onChange={e => updatePolicy({ enabled: e.target.checked })} />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+          <span>Remove photos from visits older than</span>
+          <select className={selectClass} value={policy.photoDays ?? ''} onChange={e => updatePolicy({ photoDays: e.target.value ? Number(e.target.value) : null })}>
+            <option value="">Keep forever</option>
+            {PHOTO_RETENTION_OPTIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 text-sm text-slate-700">
+          <span>Move visits to the Recycle Bin after</span>
+          <select className={selectClass} value={policy.recordDays ?? ''} onChange={e => updatePolicy({ recordDays: e.target.value ? Number(e.target.value) : null })}>
+            <option value="">Keep forever</option>
+            {RECORD_RETENTION_OPTIONS.map(d => <option key={d} value={d}>{d / 365} year(s)</option>)}
+          </select>
+        </label>
+
+        <div className="bg-slate-50 rounded-lg p-3 text-xs text-slate-600 space-y-1">
+          <div className="font-bold text-slate-700">If it ran now</div>
+          {!preview ? (
+            <div>Checking...</div>
+          ) : previewTotal === 0 ? (
+            <div>Nothing would be removed.</div>
+          ) : (
+            <>
+              <div>Photos removed from <span className="font-bold">{preview.photoCount}</span> record(s)</div>
+              <div>Records moved to the Recycle Bin: <span className="font-bold">{preview.recordCount}</span></div>
+              <div>Space freed: about <span className="font-bold">{formatBytes(preview.bytesFreed)}</span></div>
+              <div className="text-slate-500 truncate">
+                {previewNames.join(', ')}{previewTotal > previewNames.length && ` and ${previewTotal - previewNames.length} more`}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[11px] text-slate-500">
+            {policy.lastRunAt ? `Last run ${new Date(policy.lastRunAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}` : 'Not run yet'}
+          </span>
+          <button
+            onClick={handleRunNow}
+            disabled={running || previewTotal === 0}
+            className="bg-red-50 text-red-700 border border-red-200 px-3 py-2 rounded-lg text-xs font-bold hover:bg-red-100 disabled:opacity-50"
+          >
+            {running ? 'Cleaning...' : 'Run Now'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageView;
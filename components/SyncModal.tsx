@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { SyncSettings, SyncStatus, loadSyncSettings, saveSyncSettings, getSyncStatus, subscribeSync, syncNow } from '../services/sync';
+import { getDeviceId } from '../services/device';
+import { CloudIcon, XIcon, AlertTriangleIcon, RefreshCcwIcon } from './Icons';
+
+interface SyncModalProps {
+  onClose: () => void;
+}
+
+export const STATUS_LABELS: Record<SyncStatus['state'], string> = {
+  disabled: 'Sync off',
+  idle: 'Up to date',
+  syncing: 'Syncing...',
+  offline: 'Offline',
+  error: 'Sync error'
+};
+
+// Re-renders whenever the sync engine reports progress
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+  useEffect(() => subscribeSync(setStatus), []);
+  return status;
+};
+
+const SyncModal: React.FC<SyncModalProps> = ({ onClose }) => {
+  const status = useSyncStatus();
+  const [settings, setSettings] = useState<SyncSettings>(loadSyncSettings());
+  const [saved, setSaved] = useState(false);
+
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+  const endpointValid = /^https?:\/\/\S+$/.test(settings.endpoint.trim());
+
+  const handleSave = () => {
+    if (settings.enabled && !endpointValid) return;
+    saveSyncSettings(settings);
+    setSaved(true);
+    if (settings.enabled) syncNow();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full overflow-hidden max-h-full flex flex-col">
+        <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 text-indigo-600 p-2 rounded-full">
+              <CloudIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-indigo-900">Sync Between Phones</h3>
+              <p className="text-xs text-indigo-700">Share one ledger through the office sync server.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-800 cursor-pointer">
+            <input type="checkbox" checked={settings.enabled} onChange={e => { setSettings({ ...settings, enabled: e.target.checked }); setSaved(false); }} />
+            Enable sync
+          </label>
+
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase">Server Address</label>
+            <input
+              className={fieldClass}
+              value={settings.endpoint}
+              onChange={e => { setSettings({ ...settings, endpoint: e.target.value }); setSaved(false); }}
+              placeholder="http://192.168.1.20:8787"
+              inputMode="url"
+            />
+            {settings.enabled && settings.endpoint && !endpointValid && (
+              <p className="text-[11px] text-red-600 font-bold mt-1">Enter a full address starting with http:// or https://</p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase">Access Token</label>
+            <input
+              type="password"
+              autoComplete="off"
+              className={fieldClass}
+              value={settings.token}
+              onChange={e => { setSettings({ ...settings, token: e.target.value }); setSaved(false); }}
+              placeholder="Optional"
+            />
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={settings.enabled && !endpointValid}
+            className="w-full py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-bold text-sm shadow active:scale-95 transition disabled:opacity-50"
+          >
+            {saved ? 'Saved' : 'Save Settings'}
+          </button>
+
+          <div className="border border-slate-200 rounded-xl p-3 text-xs text-slate-600 space-y-1">
+            <div className="flex justify-between items-center">
+              <span className="font-bold text-slate-800 text-sm">{STATUS_LABELS[status.state]}</span>
+              {status.state !== 'disabled' && (
+                <button
+                  onClick={() => syncNow()}
+                  disabled={status.state === 'syncing'}
+                  className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1 font-bold disabled:opacity-50"
+                >
+                  <RefreshCcwIcon className="w-3 h-3" /> Sync Now
+                </button>
+              )}
+            </div>
+            <div>{status.pending} change{status.pending === 1 ? '' : 's'} waiting to be sent</div>
+            {status.lastSyncedAt && <div>Last synced {new Date(status.lastSyncedAt).toLocaleString()}</div>}
+            <div className="text-slate-400">This phone: <span className="font-mono">{getDeviceId()}</span></div>
+          </div>
+
+          {status.error && (
+            <div className="bg-red-50 text-red-800 p-3 rounded-lg border border-red-100 text-sm font-medium flex gap-2">
+              <AlertTriangleIcon className="w-4 h-4 shrink-0 mt-0.5" /> {status.error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncModal;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { ClientEntry, TrashEntry } from '../types';
+import { dbService } from '../services/db';
+import { panditName } from '../services/pandits';
+import { TRASH_RETENTION_OPTIONS, loadTrashRetentionDays, saveTrashRetentionDays, daysUntilPurge } from '../services/trash';
+import { TrashIcon, RefreshCcwIcon, PhoneIcon } from './Icons';
+
+interface TrashViewProps {
+  hasBg: boolean;
+  onBack: () => void;
+  onRestored: (entries: ClientEntry[]) => void;
+  requestConfirm: (title: string, message: string, onConfirm: () => void, type?: 'danger' | 'info') => void;
+  closeConfirm: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ hasBg, onBack, onRestored, requestConfirm, closeConfirm }) => {
+  const [items, setItems] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retention, setRetention] = useState(loadTrashRetentionDays());
+
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-xl shadow-sm border border-slate-100`;
+
+  const load = async () => {
+    try {
+      setItems(await dbService.getTrash());
+    } catch (e) {
+      console.error("Could not read the recycle bin", e);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const handleRestore = async (ids: number[]) => {
+    try {
+      const restored = await dbService.restoreFromTrash(ids);
+      onRestored(restored);
+      setItems(prev => prev.filter(i => !ids.includes(i.id)));
+    } catch (e) {
+      alert("Could not restore the record.");
+    }
+  };
+
+  const handlePurge = (ids: number[], title: string, message: string) => {
+    requestConfirm(title, message, async () => {
+      try {
+        await dbService.purgeTrash(ids);
+        setItems(prev => prev.filter(i => !ids.includes(i.id)));
+      } catch (e) {
+        alert("Could not delete from the recycle bin.");
+      }
+      closeConfirm();
+    }, 'danger');
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    setRetention(days);
+    try {
+      saveTrashRetentionDays(days);
+      await dbService.purgeExpiredTrash(days);
+      await load();
+    } catch (e) {
+      console.warn("Could not apply recycle bin retention", e);
+    }
+  };
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out]">
+      <button onClick={onBack} className="text-sm font-bold text-indigo-700 hover:underline">← Back</button>
+
+      <div className={`${panelClass} p-4 space-y-3`}>
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-lg text-slate-800">Recycle Bin</h2>
+            <p className="text-xs text-slate-500">{loading ? 'Loading...' : `${items.length} deleted record(s)`}</p>
+          </div>
+          {items.length > 0 && (
+            <button
+              onClick={() => handlePurge(items.map(i => i.id), "Empty Recycle Bin", `Permanently delete all ${items.length} record(s) in the recycle bin? This cannot be undone.`)}
+              className="bg-red-50 text-red-700 border border-red-200 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-1 hover:bg-red-100"
+            >
+              <TrashIcon className="w-3 h-3" /> Empty Bin
+            </button>
+          )}
+        </div>
+        <label className="flex items-center justify-between gap-2 text-xs text-slate-600">
+          <span className="font-bold uppercase text-slate-500">Delete permanently after</span>
+          <select
+            className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            value={retention}
+            onChange={e => handleRetentionChange(Number(e.target.value))}
+          >
+            {TRASH_RETENTION_OPTIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+          </select>
+        </label>
+      </div>
+
+      {!loading && items.length === 0 && (
+        <div className={`text-center py-16 px-6 rounded-2xl border-2 border-dashed ${hasBg ? 'bg-white/60 border-white/50 text-slate-700' : 'border-slate-200 text-slate-400'}`}>
+          <TrashIcon className="w-10 h-10 mx-auto mb-3 opacity-50" />
+          <p className="font-medium">The recycle bin is empty.</p>
+        </div>
+      )}
+
+      {items.map(item => (
+        <div key={item.id} className={`${panelClass} p-4`}>
+          <div className="flex justify-between items-start gap-3">
+            <div className="min-w-0">
+              <div className="font-bold text-slate-900 truncate">{item.entry.clientName}</div>
+              <div className="text-xs text-slate-500 flex items-center gap-1 mt-0.5"><PhoneIcon className="w-3 h-3" /> {item.entry.phone}</div>
+              <div className="text-[11px] text-slate-500 mt-1">
+                Visit {new Date(item.entry.timestamp).toLocaleDateString()}
+              </div>
+            </div>
+            <span className="font-mono text-[10px] font-bold bg-slate-100 text-slate-600 px-2 py-0.5 rounded shrink-0">{item.entry.uniqueCode}</span>
+          </div>
+          <div className="text-[11px] text-slate-500 mt-2 bg-slate-50 rounded-lg px-2 py-1">
+            {item.reason === 'cleanup' ? 'Removed by storage cleanup (photo not kept)' : 'Deleted'} on {new Date(item.deletedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+            {item.deletedBy && <> by <span className="font-bold">{panditName(item.deletedBy)}</span></>}
+            <span className="text-red-600 font-bold"> • Permanently deleted in {daysUntilPurge(item, retention)} day(s)</span>
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              onClick={() => handlePurge([item.id], "Delete Forever", `Permanently delete the record for ${item.entry.clientName}? This cannot be undone.`)}
+              className="text-xs text-red-600 font-bold px-3 py-1.5 rounded-lg hover:bg-red-50"
+            >
+              Delete Forever
+            </button>
+            <button
+              onClick={() => handleRestore([item.id])}
+              className="text-xs bg-indigo-600 text-white font-bold px-3 py-1.5 rounded-lg flex items-center gap-1 hover:bg-indigo-700"
+            >
+              <RefreshCcwIcon className="w-3 h-3" /> Restore
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { ClientEntry, Person } from '../types';
+import { createPerson, parentsOf, spousesOf, childrenOf, relativesOf, familyMembers, familyVisits, linkParent, linkSpouses, wouldCreateCycle, searchPeople } from '../services/lineage';
+import { loadVisits } from '../services/pilgrims';
+import PersonPicker from './PersonPicker';
+import { FamilyTreeIcon, SearchIcon, PencilIcon, PlusIcon } from './Icons';
+
+interface VanshavaliViewProps {
+  people: Person[];
+  refreshKey: unknown; // Changes whenever records change
+  hasBg: boolean;
+  focusPersonId: string | null;
+  onFocus: (personId: string | null) => void;
+  onSavePeople: (people: Person[]) => Promise<boolean>;
+}
+
+type LinkKind = 'parent' | 'spouse' | 'child';
+
+const LINK_LABELS: Record<LinkKind, string> = {
+  parent: 'Parent',
+  spouse: 'Spouse',
+  child: 'Child'
+};
+
+const PersonChip: React.FC<{ person: Person, onClick: () => void, highlight?: boolean }> = ({ person, onClick, highlight }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-2 rounded-lg border text-left transition ${highlight ? 'bg-indigo-600 border-indigo-700 text-white' : 'bg-white border-slate-200 text-slate-800 hover:bg-indigo-50 hover:border-indigo-200'}`}
+  >
+    <div className="text-sm font-bold leading-tight">{person.name}</div>
+    {person.gotra && <div className={`text-[10px] ${highlight ? 'text-indigo-100' : 'text-slate-500'}`}>{person.gotra}</div>}
+  </button>
+);
+
+const VanshavaliView: React.FC<VanshavaliViewProps> = ({ people, refreshKey, hasBg, focusPersonId, onFocus, onSavePeople }) => {
+  const [query, setQuery] = useState('');
+  const [linking, setLinking] = useState<LinkKind | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState({ name: '', gotra: '', nativeVillage: '', notes: '' });
+
+  const focused = focusPersonId ? people.find(p => p.id === focusPersonId) : undefined;
+  // Visits of the focused person's family, read when the family or the records change
+  const [familyEntries, setFamilyEntries] = useState<ClientEntry[]>([]);
+  const memberIds = focusPersonId ? familyMembers(focusPersonId, people).map(m => m.person.id).join(',') : '';
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVisits(memberIds ? memberIds.split(',') : [])
+      .then(result => { if (!cancelled) setFamilyEntries(result); })
+      .catch(err => console.warn("Could not load family visits", err));
+    return () => { cancelled = true; };
+  }, [memberIds, refreshKey]);
+  const panelClass = `${hasBg ? 'glass-panel' : 'bg-white'} rounded-2xl shadow-lg border border-slate-100`;
+  const fieldClass = "w-full p-2 rounded-lg bg-white border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const results = query ? searchPeople(query, people) : [...people].sort((a, b) => b.createdAt - a.createdAt).slice(0, 20);
+
+  const startCreate = () => {
+    setDraft({ name: query, gotra: '', nativeVillage: '', notes: '' });
+    setCreating(true);
+  };
+
+  const saveNew = async () => {
+    if (!draft.name.trim()) return;
+    const person = createPerson({
+      name: draft.name.trim(),
+      gotra: draft.gotra.trim(),
+      nativeVillage: draft.nativeVillage.trim(),
+      notes: draft.notes.trim() || undefined
+    });
+    const ok = await onSavePeople([person]);
+    if (ok) {
+      setCreating(false);
+      setQuery('');
+      onFocus(person.id);
+    }
+  };
+
+  const startEdit = (person: Person) => {
+    setDraft({ name: person.name, gotra: person.gotra, nativeVillage: person.nativeVillage, notes: person.notes || '' });
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!focused || !draft.name.trim()) return;
+    const ok = await onSavePeople([{
+      ...focused,
+      name: draft.name.trim(),
+      gotra: draft.gotra.trim(),
+      nativeVillage: draft.nativeVillage.trim(),
+      notes: draft.notes.trim() || undefined
+    }]);
+    if (ok) setEditing(false);
+  };
+
+  // Connects the focused person with 'otherId' according to the chosen relation
+  const handleLink = async (otherId: string | undefined, pool: Person[] = people) => {
+    if (!focused || !linking || !otherId) return;
+    const other = pool.find(p => p.id === otherId);
+    if (!other) return;
+
+    let updates: Person[] = [];
+    if (linking === 'spouse') {
+      updates = linkSpouses(focused, other);
+    } else {
+      const child = linking === 'child' ? other : focused;
+      const parent = linking === 'child' ? focused : other;
+      if (wouldCreateCycle(child.id, parent.id, pool)) {
+        alert(`${parent.name} is already a descendant of ${child.name}.`);
+        return;
+      }
+      updates = [linkParent(child, parent)];
+    }
+
+    const ok = await onSavePeople(updates);
+    if (ok) setLinking(null);
+  };
+
+  // New people created from the link form are saved first, then linked
+  const handleCreateAndLink = async (person: Person) => {
+    const inherited = linking !== 'spouse' && focused
+      ? { ...person, gotra: person.gotra || focused.gotra, nativeVillage: person.nativeVillage || focused.nativeVillage }
+      : person;
+    const ok = await onSavePeople([inherited]);
+    if (ok) await handleLink(inherited.id, [...people, inherited]);
+    return false; // Selection is handled by handleLink
+  };
+
+  const renderGenerationRows = (person: Person) => {
+    const relatives = relativesOf(person.id, people).filter(r => r.generation !== 0);
+    const generations = Array.from(new Set(relatives.map(r => r.generation))).sort((a, b) => a - b);
+    const spouses = spousesOf(person, people);
+
+    const row = (label: string, members: Person[], key: string, highlight = false) => (
+      <div key={key} className="flex flex-col items-center gap-1">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</span>
+        <div className="flex flex-wrap justify-center gap-2">
+          {members.map(m => <PersonChip key={m.id} person={m} onClick={() => onFocus(m.id)} highlight={highlight && m.id === person.id} />)}
+        </div>
+      </div>
+    );
+
+    return (
+      <div className="flex flex-col items-center gap-3">
+        {generations.filter(g => g < 0).map(g => row(
+          relatives.find(r => r.generation === g)!.relation + 's',
+          relatives.filter(r => r.generation === g).map(r => r.person),
+          'g' + g
+        ))}
+        {row(spouses.length ? 'Yajman & Spouse' : 'Yajman', [person, ...spouses], 'self', true)}
+        {generations.filter(g => g > 0).map(g => row(
+          relatives.find(r => r.generation === g)!.relation.replace('Child', 'Children').replace(/child$/, 'children'),
+          relatives.filter(r => r.generation === g).map(r => r.person),
+          'g' + g
+        ))}
+      </div>
+    );
+  };
+
+  const renderPersonForm = (onSave: () => void, onCancel: () => void) => (
+    <div className="space-y-2">
+      <input className={fieldClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Name" />
+      <div className="flex gap-2">
+        <input className={fieldClass} value={draft.gotra} onChange={e => setDraft({ ...draft, gotra: e.target.value })} placeholder="Gotra" />
+        <input className={fieldClass} value={draft.nativeVillage} onChange={e => setDraft({ ...draft, nativeVillage: e.target.value })} placeholder="Native village" />
+      </div>
+      <textarea rows={2} className={fieldClass} value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes (occupation, bahi page no., etc.)" />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-xs text-slate-500 font-bold px-3 py-1 hover:underline">Cancel</button>
+        <button onClick={onSave} className="text-xs bg-indigo-600 text-white font-bold px-3 py-1 rounded-md hover:bg-indigo-700">Save</button>
+      </div>
+    </div>
+  );
+
+  const renderFocused = (person: Person) => {
+    const visits = familyVisits(person.id, people, familyEntries);
+    const excludeIds = [
+      person.id,
+      ...parentsOf(person, people).map(p => p.id),
+      ...spousesOf(person, people).map(p => p.id),
+      ...childrenOf(person, people).map(p => p.id)
+    ];
+
+    return (
+      <>
+        <div className={`${panelClass} p-5`}>
+          {editing ? renderPersonForm(saveEdit, () => setEditing(false)) : (
+            <div className="flex justify-between items-start gap-3">
+              <div>
+                <h3 className="text-xl font-bold text-slate-900">{person.name}</h3>
+                <p className="text-sm text-slate-500 mt-1">
+                  {[person.gotra && `Gotra: ${person.gotra}`, person.nativeVillage && `Village: ${person.nativeVillage}`].filter(Boolean).join(' • ') || 'No gotra / village recorded'}
+                </p>
+                {person.notes && <p className="text-xs text-slate-600 mt-2 whitespace-pre-wrap">{person.notes}</p>}
+              </div>
+              <button onClick={() => startEdit(person)} className="text-indigo-400 hover:text-indigo-600 p-1" title="Edit Person">
+                <PencilIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className={`${panelClass} p-5`}>
+          {renderGenerationRows(person)}
+
+          <div className="flex justify-center gap-2 mt-5">
+            {(Object.keys(LINK_LABELS) as LinkKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setLinking(linking === kind ? null : kind)}
+                className={`text-xs font-bold px-3 py-1 rounded-full flex items-center gap-1 transition ${linking === kind ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}
+              >
+                <PlusIcon className="w-3 h-3" /> {LINK_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+
+          {linking && (
+            <div className="mt-4">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Add {LINK_LABELS[linking].toLowerCase()} of {person.name}</p>
+              <PersonPicker
+                people={people}
+                onSelect={(id) => handleLink(id)}
+                onCreate={handleCreateAndLink}
+                excludeIds={excludeIds}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className={`${panelClass} overflow-hidden`}>
+          <div className="bg-slate-100/80 px-5 py-3 border-b border-slate-200">
+            <h3 className="font-bold text-slate-700">Family Visits ({visits.length})</h3>
+          </div>
+          {visits.length === 0 ? (
+            <p className="p-5 text-sm text-slate-400 italic">No visits linked to this family yet.</p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {visits.map(v => (
+                <div key={v.entry.id} className="px-5 py-3">
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-xs font-bold text-slate-500 uppercase">{new Date(v.entry.timestamp).toLocaleDateString()}</span>
+                    <span className="font-mono text-[10px] font-bold bg-slate-100 text-slate-600 px-2 py-0.5 rounded">{v.entry.uniqueCode}</span>
+                  </div>
+                  <div className="text-sm font-bold text-slate-800 mt-1">
+                    {v.person.name} <span className="text-xs font-medium text-amber-700">({v.relation})</span>
+                  </div>
+                  <div className="text-xs text-slate-600 mt-1 line-clamp-2 whitespace-pre-wrap">{v.entry.servicePlan}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-4 animate-[fadeIn_0.5s_ease-out]">
+      <div className={`${panelClass} p-4 space-y-3`}>
+        <div className="flex justify-between items-center">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+            <FamilyTreeIcon className="w-5 h-5 text-amber-600" /> Vanshavali
+          </h2>
+          {focused ? (
+            <button onClick={() => { onFocus(null); setLinking(null); setEditing(false); }} className="text-xs font-bold text-indigo-600 hover:underline">
+              All Families
+            </button>
+          ) : !creating && (
+            <button onClick={startCreate} className="text-xs font-bold bg-indigo-600 text-white px-3 py-1 rounded-full flex items-center gap-1 hover:bg-indigo-700">
+              <PlusIcon className="w-3 h-3" /> New Yajman
+            </button>
+          )}
+        </div>
+        {!focused && (creating ? renderPersonForm(saveNew, () => setCreating(false)) : (
+          <div className="relative">
+            <div className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
+              <SearchIcon className="w-4 h-4" />
+            </div>
+            <input className={`${fieldClass} pl-9`} value={query} onChange={e => setQuery(e.target.value)} placeholder="Search by name, gotra or village..." />
+          </div>
+        ))}
+      </div>
+
+      {focused ? renderFocused(focused) : (
+        <div className={`${panelClass} overflow-hidden`}>
+          {results.length === 0 ? (
+            <p className="p-6 text-center text-sm text-slate-400">{query ? 'No matching people in the register.' : 'The family register is empty.'}</p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {results.map(p => (
+                <button key={p.id} onClick={() => onFocus(p.id)} className="w-full text-left px-5 py-3 hover:bg-slate-50 transition">
+                  <div className="font-bold text-slate-800">{p.name}</div>
+                  <div className="text-xs text-slate-500">{[p.gotra, p.nativeVillage].filter(Boolean).join(' • ')}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VanshavaliView;
@@ -0,0 +1,120 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string | number;
+  renderItem: (item: T) => React.ReactNode;
+  // Height guess for rows not measured yet (includes the gap below the row)
+  estimateHeight: (item: T) => number;
+  // Called when the last rows come close to the screen
+  onEndReached?: () => void;
+  overscan?: number; // Pixels rendered above and below the visible area
+  className?: string;
+}
+
+// Nearest ancestor that scrolls (the app scrolls <main>, not the window)
+const findScrollParent = (element: HTMLElement | null): HTMLElement | null => {
+  let node = element?.parentElement || null;
+  while (node) {
+    const { overflowY } = getComputedStyle(node);
+    if (overflowY === 'auto' || overflowY === 'scroll') return node;
+    node = node.parentElement;
+  }
+  return null;
+};
+
+const MeasuredRow: React.FC<{ rowKey: string, observer: ResizeObserver | null, children: React.ReactNode }> = ({ rowKey, observer, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const element = ref.current;
+    if (!observer || !element) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+  return <div ref={ref} data-key={rowKey}>{children}</div>;
+};
+
+// Renders only the rows near the visible part of the scroll area. Rows can have any
+// height; each one is measured once it is on screen and the estimate is replaced.
+function VirtualList<T>({ items, getKey, renderItem, estimateHeight, onEndReached, overscan = 800, className }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [observer, setObserver] = useState<ResizeObserver | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: typeof window !== 'undefined' ? window.innerHeight : 800 });
+  const [, setMeasureVersion] = useState(0);
+
+  // Track the visible window relative to the top of the list
+  useLayoutEffect(() => {
+    const scroller = findScrollParent(containerRef.current);
+    const update = () => {
+      const container = containerRef.current;
+      if (!container) return;
+      const containerTop = container.getBoundingClientRect().top;
+      const scrollerTop = scroller ? scroller.getBoundingClientRect().top : 0;
+      const height = scroller ? scroller.clientHeight : window.innerHeight;
+      setViewport({ top: scrollerTop - containerTop, height });
+    };
+    update();
+    const target: HTMLElement | Window = scroller || window;
+    target.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      target.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, []);
+
+  // One observer for all rendered rows
+  useEffect(() => {
+    const resizeObserver = new ResizeObserver(records => {
+      let changed = false;
+      records.forEach(record => {
+        const key = (record.target as HTMLElement).dataset.key!;
+        const height = (record.target as HTMLElement).offsetHeight;
+        if (height > 0 && heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+    setObserver(resizeObserver);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Row offsets from measured heights (or estimates)
+  const offsets: number[] = new Array(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, i) => {
+    offsets[i + 1] = offsets[i] + (heightsRef.current.get(String(getKey(item))) ?? estimateHeight(item));
+  });
+  const totalHeight = offsets[items.length];
+
+  const from = viewport.top - overscan;
+  const to = viewport.top + viewport.height + overscan;
+  let start = 0;
+  while (start < items.length && offsets[start + 1] < from) start++;
+  let end = start;
+  while (end < items.length && offsets[end] < to) end++;
+
+  useEffect(() => {
+    if (onEndReached && end >= items.length - 3) onEndReached();
+  }, [end, items.length]);
+
+  return (
+    <div ref={containerRef} className={className} style={{ position: 'relative', height: totalHeight }}>
+      <div style={{ position: 'absolute', top: offsets[start], left: 0, right: 0 }}>
+        {items.slice(start, end).map(item => {
+          const key = getKey(item);
+          return (
+            <MeasuredRow key={key} rowKey={String(key)} observer={observer}>
+              {renderItem(item)}
+            </MeasuredRow>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -2,29 +2,37 @@ import { Contact } from './types';
 
 export const PANDIT_CONTACTS: Contact[] = [
   { 
+    id: "rajdranath",
     name: "Rajdranath Chaturvedi", 
     role: "Head", 
+    accessRole: "head",
     phone: "9319719036", 
     colorClass: "bg-orange-100 text-orange-800",
     initial: "R"
   },
   { 
+    id: "neeraj",
     name: "Neeraj Rajdranath Chaturvedi", 
     role: "Son (Ram)", 
+    accessRole: "son",
     phone: "7817074745", 
     colorClass: "bg-blue-100 text-blue-800",
     initial: "N"
   },
   { 
+    id: "vivek",
     name: "Vivek Rajdranath Chaturvedi", 
     role: "Son (Laxman)", 
+    accessRole: "son",
     phone: "9997742164", 
     colorClass: "bg-green-100 text-green-800",
     initial: "V"
   },
   { 
+    id: "manav",
     name: "Manav Neeraj Chaturvedi", 
     role: "Grandson", 
+    accessRole: "assistant",
     phone: "9528954454", 
     colorClass: "bg-purple-100 text-purple-800",
     initial: "M"
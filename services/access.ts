@@ -0,0 +1,88 @@
+import { AccessRole } from '../types';
+import { PANDIT_CONTACTS } from '../constants';
+import { hashSecret } from './crypto';
+
+// App lock and per-member permissions. Settings are kept on each phone only
+// (they are not part of backups or sync).
+
+const SECURITY_KEY = 'yatra_security';
+
+export const MIN_PIN_LENGTH = 4;
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+export type Permission = 'edit' | 'delete' | 'viewPayments' | 'closeDay' | 'manageStorage' | 'manageSecurity' | 'manageSettings';
+
+export const ROLE_LABELS: Record<AccessRole, string> = {
+  head: 'Head (full access)',
+  son: 'Son (add & edit)',
+  assistant: 'Assistant (add only)'
+};
+
+const ROLE_PERMISSIONS: Record<AccessRole, Permission[]> = {
+  head: ['edit', 'delete', 'viewPayments', 'closeDay', 'manageStorage', 'manageSecurity', 'manageSettings'],
+  son: ['edit', 'viewPayments'],
+  assistant: []
+};
+
+export interface MemberSecurity {
+  role: AccessRole;
+  pinHash?: string;
+  pinSalt?: string;
+}
+
+export interface SecuritySettings {
+  members: Record<string, MemberSecurity>;
+  autoLockMinutes: number;
+}
+
+export const loadSecurity = (): SecuritySettings => {
+  let stored: Partial<SecuritySettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(SECURITY_KEY) || '{}');
+  } catch (e) {
+    console.warn("Security settings unreadable, using defaults", e);
+  }
+  const members: Record<string, MemberSecurity> = {};
+  PANDIT_CONTACTS.forEach(c => {
+    members[c.id] = { role: c.accessRole, ...stored.members?.[c.id] };
+  });
+  return { members, autoLockMinutes: stored.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES };
+};
+
+export const saveSecurity = (settings: SecuritySettings) => {
+  localStorage.setItem(SECURITY_KEY, JSON.stringify(settings));
+};
+
+// Without an active member nothing beyond adding entries is allowed
+export const roleOf = (settings: SecuritySettings, memberId: string | null): AccessRole =>
+  (memberId && settings.members[memberId]?.role) || 'assistant';
+
+export const can = (role: AccessRole, permission: Permission) => ROLE_PERMISSIONS[role].includes(permission);
+
+// The lock is on as soon as any member has a PIN
+export const isLockEnabled = (settings: SecuritySettings) =>
+  Object.values(settings.members).some(m => !!m.pinHash);
+
+export const hasPin = (settings: SecuritySettings, memberId: string) => !!settings.members[memberId]?.pinHash;
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${MIN_PIN_LENGTH},8}$`).test(pin);
+
+export const withPin = async (settings: SecuritySettings, memberId: string, pin: string | null): Promise<SecuritySettings> => {
+  const member = { ...settings.members[memberId] };
+  if (pin) {
+    const { hash, salt } = await hashSecret(pin);
+    member.pinHash = hash;
+    member.pinSalt = salt;
+  } else {
+    delete member.pinHash;
+    delete member.pinSalt;
+  }
+  return { ...settings, members: { ...settings.members, [memberId]: member } };
+};
+
+export const verifyPin = async (settings: SecuritySettings, memberId: string, pin: string): Promise<boolean> => {
+  const member = settings.members[memberId];
+  if (!member?.pinHash || !member.pinSalt) return false;
+  const { hash } = await hashSecret(pin, member.pinSalt);
+  return hash === member.pinHash;
+};
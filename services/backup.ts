@@ -0,0 +1,333 @@
+import { ClientEntry, Person, BackgroundImage, DayClose, Ritual, MediaPayload } from '../types';
+import { dbService } from './db';
+import { EncryptedEnvelope, encryptText, decryptText, isEncryptedEnvelope } from './crypto';
+import { toPayload, fromPayload, migrateInlineMedia } from './media';
+
+export const BACKUP_FORMAT = 'yatra-seva-backup';
+// v2: photos and signatures are in 'media' instead of inline on the records
+export const BACKUP_VERSION = 2;
+
+const LOCAL_BACKUP_KEY = 'yatra_entries_backup';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  clients: ClientEntry[];
+  people: Person[];
+  backgrounds: BackgroundImage[];
+  dayCloses: DayClose[]; // Missing from archives made before the cash book
+  rituals: Ritual[]; // Missing from archives made before the catalog was synced
+  media: MediaPayload[];
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  clients: RestoreCounts;
+  people: RestoreCounts;
+  backgrounds: RestoreCounts;
+  dayCloses: RestoreCounts;
+  rituals: RestoreCounts;
+  conflicts: string[];
+}
+
+interface RestorePlan {
+  clients: ClientEntry[];
+  people: Person[];
+  backgrounds: BackgroundImage[];
+  dayCloses: DayClose[];
+  rituals: Ritual[];
+  media: MediaPayload[];
+  report: RestoreReport;
+}
+
+const emptyCounts = (): RestoreCounts => ({ added: 0, updated: 0, skipped: 0 });
+
+const readLocalBackup = (): ClientEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_BACKUP_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Collects every client, person and background, including records that only exist
+// in the LocalStorage fallback (the database copy wins when both have the same id).
+export const createArchive = async (): Promise<BackupArchive> => {
+  const data = await dbService.exportAll();
+  const dbIds = new Set(data.clients.map(c => c.id));
+  const localOnly = readLocalBackup().filter(c => !dbIds.has(c.id));
+
+  const media: MediaPayload[] = [];
+  for (const record of await dbService.getAllMedia()) {
+    media.push(await toPayload(record));
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    clients: [...data.clients, ...localOnly],
+    people: data.people,
+    backgrounds: data.backgrounds,
+    dayCloses: data.dayCloses,
+    rituals: data.rituals,
+    media
+  };
+};
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export const archiveFileName = (exportedAt: number, encrypted: boolean) =>
+  `Yatra_Backup_${new Date(exportedAt).toISOString().split('T')[0]}${encrypted ? '.encrypted' : ''}.json`;
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const serializeArchive = (archive: BackupArchive) => JSON.stringify(archive);
+
+export const encryptArchive = async (archive: BackupArchive, passphrase: string): Promise<string> =>
+  JSON.stringify(await encryptText(serializeArchive(archive), passphrase));
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error("This file is not a Yatra backup (could not be read).");
+  }
+};
+
+// First step of an import: tells plain archives apart from encrypted ones,
+// which need a passphrase before they can be validated.
+export const readBackupFile = (text: string): { archive: BackupArchive } | { envelope: EncryptedEnvelope } => {
+  const data = parseJson(text);
+  return isEncryptedEnvelope(data) ? { envelope: data } : { archive: validateArchive(data) };
+};
+
+export const decryptArchive = async (envelope: EncryptedEnvelope, passphrase: string): Promise<BackupArchive> =>
+  validateArchive(parseJson(await decryptText(envelope, passphrase)));
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isList = (value: unknown): value is unknown[] => Array.isArray(value);
+
+// Lists added in later versions may be missing, but not anything else
+const isOptionalList = (value: unknown) => value === undefined || isList(value);
+
+// Validates an archive read from a file; throws with a user-facing message
+const validateArchive = (data: unknown): BackupArchive => {
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not a Yatra backup.");
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Please update before restoring.");
+  }
+  const { clients, people, backgrounds, media, dayCloses, rituals } = data;
+  if (!isList(clients) || !isList(people) || !isList(backgrounds)) {
+    throw new Error("This backup file is incomplete or damaged.");
+  }
+  if (clients.some(c => !isObject(c) || typeof c.id !== 'number' || typeof c.uniqueCode !== 'string')) {
+    throw new Error("This backup contains damaged client records.");
+  }
+  if (![media, dayCloses, rituals].every(isOptionalList)) {
+    throw new Error("This backup file is incomplete or damaged.");
+  }
+  if (isList(dayCloses) && dayCloses.some(d => !isObject(d) || typeof d.id !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(d.id))) {
+    throw new Error("This backup contains damaged day closes.");
+  }
+  if (isList(rituals) && rituals.some(r => !isObject(r) || typeof r.id !== 'string' || typeof r.name !== 'string' || !isList(r.samagri))) {
+    throw new Error("This backup contains a damaged ritual catalog.");
+  }
+
+  // Version 1 archives carry their images inline on the records
+  return { ...data, media: media || [], dayCloses: dayCloses || [], rituals: rituals || [] } as BackupArchive;
+};
+
+const lastChanged = (entry: ClientEntry) => entry.updatedAt || entry.timestamp;
+
+const closeChanged = (close: DayClose) => close.updatedAt || close.closedAt;
+
+const ritualChanged = (ritual: Ritual) => ritual.updatedAt || 0;
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+// Works out what a restore would write without touching the database
+const planRestore = (
+  archive: BackupArchive,
+  mode: RestoreMode,
+  current: { clients: ClientEntry[], people: Person[], backgrounds: BackgroundImage[], dayCloses: DayClose[], rituals: Ritual[], mediaIds: Set<string> }
+): RestorePlan => {
+  const report: RestoreReport = {
+    mode,
+    clients: emptyCounts(),
+    people: emptyCounts(),
+    backgrounds: emptyCounts(),
+    dayCloses: emptyCounts(),
+    rituals: emptyCounts(),
+    conflicts: []
+  };
+
+  if (mode === 'replace') {
+    report.clients.added = archive.clients.length;
+    report.people.added = archive.people.length;
+    report.backgrounds.added = archive.backgrounds.length;
+    report.dayCloses.added = archive.dayCloses.length;
+    report.rituals.added = archive.rituals.length;
+    return { clients: archive.clients, people: archive.people, backgrounds: archive.backgrounds, dayCloses: archive.dayCloses, rituals: archive.rituals, media: archive.media, report };
+  }
+
+  // --- Merge ---
+  const clientsById = new Map(current.clients.map(c => [c.id, c]));
+  const clientsByCode = new Map(current.clients.map(c => [c.uniqueCode, c]));
+  const clients: ClientEntry[] = [];
+
+  archive.clients.forEach(incoming => {
+    const existing = clientsById.get(incoming.id);
+    if (existing) {
+      // Same record on both sides: keep whichever was changed last
+      if (lastChanged(incoming) > lastChanged(existing)) {
+        clients.push(incoming);
+        report.clients.updated++;
+      } else {
+        report.clients.skipped++;
+      }
+      return;
+    }
+
+    const codeClash = clientsByCode.get(incoming.uniqueCode);
+    if (codeClash) {
+      report.clients.skipped++;
+      report.conflicts.push(`${incoming.uniqueCode}: "${incoming.clientName}" in the backup, "${codeClash.clientName}" on this device`);
+      return;
+    }
+
+    clients.push(incoming);
+    clientsById.set(incoming.id, incoming);
+    clientsByCode.set(incoming.uniqueCode, incoming);
+    report.clients.added++;
+  });
+
+  // People carry no edit time: combine their family links and fill in blank fields
+  const peopleById = new Map(current.people.map(p => [p.id, p]));
+  const people: Person[] = [];
+
+  archive.people.forEach(incoming => {
+    const existing = peopleById.get(incoming.id);
+    if (!existing) {
+      people.push(incoming);
+      report.people.added++;
+      return;
+    }
+    const merged: Person = {
+      ...incoming,
+      ...existing,
+      phone: existing.phone || incoming.phone,
+      address: existing.address || incoming.address,
+      photoId: existing.photoId || incoming.photoId,
+      photo: existing.photo || incoming.photo,
+      gotra: existing.gotra || incoming.gotra,
+      nativeVillage: existing.nativeVillage || incoming.nativeVillage,
+      notes: existing.notes || incoming.notes,
+      parentIds: union(existing.parentIds, incoming.parentIds),
+      spouseIds: union(existing.spouseIds, incoming.spouseIds)
+    };
+    if (JSON.stringify(merged) === JSON.stringify(existing)) {
+      report.people.skipped++;
+    } else {
+      people.push(merged);
+      report.people.updated++;
+    }
+  });
+
+  const backgroundIds = new Set(current.backgrounds.map(b => b.id));
+  const backgrounds = archive.backgrounds.filter(b => {
+    if (backgroundIds.has(b.id)) {
+      report.backgrounds.skipped++;
+      return false;
+    }
+    report.backgrounds.added++;
+    return true;
+  });
+
+  // A day closed on both sides keeps the later close
+  const closesById = new Map(current.dayCloses.map(d => [d.id, d]));
+  const dayCloses = archive.dayCloses.filter(incoming => {
+    const existing = closesById.get(incoming.id);
+    if (!existing) {
+      report.dayCloses.added++;
+      return true;
+    }
+    if (closeChanged(incoming) > closeChanged(existing)) {
+      report.dayCloses.updated++;
+      return true;
+    }
+    report.dayCloses.skipped++;
+    return false;
+  });
+
+  // Catalog entries on both sides keep whichever was changed last
+  const ritualsById = new Map(current.rituals.map(r => [r.id, r]));
+  const rituals = archive.rituals.filter(incoming => {
+    const existing = ritualsById.get(incoming.id);
+    if (!existing) {
+      report.rituals.added++;
+      return true;
+    }
+    if (ritualChanged(incoming) > ritualChanged(existing)) {
+      report.rituals.updated++;
+      return true;
+    }
+    report.rituals.skipped++;
+    return false;
+  });
+
+  // Media never changes once stored, so only missing items are added
+  const media = archive.media.filter(m => !current.mediaIds.has(m.id));
+
+  return { clients, people, backgrounds, dayCloses, rituals, media, report };
+};
+
+export const restoreArchive = async (archive: BackupArchive, mode: RestoreMode): Promise<RestoreReport> => {
+  const current = mode === 'merge'
+    ? { ...await dbService.exportAll(), mediaIds: new Set((await dbService.getAllMedia()).map(m => m.id)) }
+    : { clients: [], people: [], backgrounds: [], dayCloses: [], rituals: [], mediaIds: new Set<string>() };
+
+  const plan = planRestore(archive, mode, current);
+  const media = [];
+  for (const payload of plan.media) {
+    media.push(await fromPayload(payload));
+  }
+  await dbService.writeAll({ ...plan, media }, mode === 'replace');
+
+  // Records from version 1 archives still have inline images
+  try {
+    await migrateInlineMedia(true);
+  } catch (e) {
+    console.warn("Could not convert restored images", e);
+  }
+
+  // Records left in the LocalStorage fallback would otherwise reappear in the next export
+  if (mode === 'replace') {
+    try { localStorage.removeItem(LOCAL_BACKUP_KEY); } catch (e) {}
+  }
+
+  return plan.report;
+};
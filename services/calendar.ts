@@ -0,0 +1,127 @@
+import { ClientEntry, TimeSlot } from '../types';
+import { dbService } from './db';
+import { toDateInputValue } from './payments';
+
+// Scheduled rituals. A booking is placed on a day and a time slot; two bookings of
+// the same pandit on overlapping slots of the same day are a conflict.
+
+export const TIME_SLOTS: { key: TimeSlot, label: string, from: number, to: number }[] = [
+  { key: 'brahma', label: 'Brahma Muhurta (4-6 am)', from: 4, to: 6 },
+  { key: 'sunrise', label: 'Sunrise (6-8 am)', from: 6, to: 8 },
+  { key: 'morning', label: 'Morning (8 am-12)', from: 8, to: 12 },
+  { key: 'afternoon', label: 'Afternoon (12-4 pm)', from: 12, to: 16 },
+  { key: 'evening', label: 'Evening / Sandhya (4-8 pm)', from: 16, to: 20 },
+  { key: 'night', label: 'Night (after 8 pm)', from: 20, to: 24 },
+  { key: 'full_day', label: 'Full day', from: 4, to: 24 }
+];
+
+export type CalendarMode = 'day' | 'week' | 'month';
+
+export const CALENDAR_MODES: { key: CalendarMode, label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' }
+];
+
+const slotOf = (key?: TimeSlot) => TIME_SLOTS.find(s => s.key === key) || TIME_SLOTS[TIME_SLOTS.length - 1];
+
+export const slotLabel = (key?: TimeSlot) => (key ? slotOf(key).label : 'Any time');
+
+// A booking without a slot may be at any time of the day
+export const slotsOverlap = (a?: TimeSlot, b?: TimeSlot) => {
+  const first = slotOf(a);
+  const second = slotOf(b);
+  return first.from < second.to && second.from < first.to;
+};
+
+const bySlot = (a: ClientEntry, b: ClientEntry) => slotOf(a.scheduledSlot).from - slotOf(b.scheduledSlot).from || a.timestamp - b.timestamp;
+
+export const isScheduled = (entry: ClientEntry) => !!entry.scheduledDate;
+
+// Bookings between two days (inclusive) read through the booking date index
+export const loadBookings = (firstDay: string, lastDay: string) => dbService.getClientsScheduled(firstDay, lastDay);
+
+// Bookings on one day (YYYY-MM-DD), in slot order
+export const bookingsOn = (entries: ClientEntry[], day: string) =>
+  entries.filter(e => e.scheduledDate === day).sort(bySlot);
+
+// Other bookings of the same pandit that overlap the given one
+export const findConflicts = (entries: ClientEntry[], booking: Pick<ClientEntry, 'id' | 'scheduledDate' | 'scheduledSlot' | 'performedBy'>) => {
+  if (!booking.scheduledDate || !booking.performedBy) return [];
+  return entries.filter(e =>
+    e.id !== booking.id &&
+    e.scheduledDate === booking.scheduledDate &&
+    e.performedBy === booking.performedBy &&
+    slotsOverlap(e.scheduledSlot, booking.scheduledSlot)
+  );
+};
+
+// Ids of every booking that clashes with another one
+export const conflictingIds = (entries: ClientEntry[]) => {
+  const ids = new Set<number>();
+  const byKey = new Map<string, ClientEntry[]>();
+  entries.forEach(e => {
+    if (!e.scheduledDate || !e.performedBy) return;
+    const key = `${e.performedBy}|${e.scheduledDate}`;
+    byKey.set(key, [...(byKey.get(key) || []), e]);
+  });
+  byKey.forEach(group => {
+    group.forEach((a, i) => group.slice(i + 1).forEach(b => {
+      if (slotsOverlap(a.scheduledSlot, b.scheduledSlot)) {
+        ids.add(a.id);
+        ids.add(b.id);
+      }
+    }));
+  });
+  return ids;
+};
+
+// --- Dates ---
+
+export const todayKey = () => toDateInputValue(Date.now());
+
+const parseDay = (day: string) => new Date(`${day}T12:00:00`);
+
+export const shiftDay = (day: string, days: number) => {
+  const d = parseDay(day);
+  d.setDate(d.getDate() + days);
+  return toDateInputValue(d.getTime());
+};
+
+export const shiftPeriod = (day: string, mode: CalendarMode, direction: 1 | -1) => {
+  if (mode === 'day') return shiftDay(day, direction);
+  if (mode === 'week') return shiftDay(day, 7 * direction);
+  const d = parseDay(day);
+  d.setDate(1);
+  d.setMonth(d.getMonth() + direction);
+  return toDateInputValue(d.getTime());
+};
+
+// Weeks start on Monday
+export const weekDays = (day: string) => {
+  const d = parseDay(day);
+  const start = shiftDay(day, -((d.getDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => shiftDay(start, i));
+};
+
+// Whole weeks covering the month, so the grid starts on a Monday
+export const monthGrid = (day: string) => {
+  const d = parseDay(day);
+  const first = toDateInputValue(new Date(d.getFullYear(), d.getMonth(), 1, 12).getTime());
+  const last = toDateInputValue(new Date(d.getFullYear(), d.getMonth() + 1, 0, 12).getTime());
+  const days = weekDays(first);
+  while (days[days.length - 1] < last) days.push(...weekDays(shiftDay(days[days.length - 1], 1)));
+  return days;
+};
+
+export const isSameMonth = (a: string, b: string) => a.slice(0, 7) === b.slice(0, 7);
+
+export const formatDay = (day: string, options: Intl.DateTimeFormatOptions = { weekday: 'short', day: 'numeric', month: 'short' }) =>
+  parseDay(day).toLocaleDateString('en-IN', options);
+
+export const periodTitle = (day: string, mode: CalendarMode) => {
+  if (mode === 'day') return formatDay(day, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  if (mode === 'month') return formatDay(day, { month: 'long', year: 'numeric' });
+  const days = weekDays(day);
+  return `${formatDay(days[0], { day: 'numeric', month: 'short' })} - ${formatDay(days[6], { day: 'numeric', month: 'short', year: 'numeric' })}`;
+};
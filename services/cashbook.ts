@@ -0,0 +1,88 @@
+import { ClientEntry, DayClose, PaymentMode, PaymentTransaction } from '../types';
+import { dbService } from './db';
+import { toDateInputValue } from './payments';
+
+// End-of-day reconciliation. The day's payments are totalled by mode, compared with
+// the cash counted and the UPI / bank messages received, and the day is closed.
+// Payments dated on a closed day are locked: they cannot be changed or removed, and
+// no new payment can be dated on that day.
+
+export interface DayPayment {
+  entry: ClientEntry;
+  payment: PaymentTransaction;
+}
+
+export const emptyModeTotals = (): Record<PaymentMode, number> => ({ cash: 0, upi: 0, bank: 0 });
+
+export const dayOf = (timestamp: number) => toDateInputValue(timestamp);
+
+export const dayLabel = (day: string) =>
+  new Date(`${day}T12:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+// Every payment dated on the given day, oldest first, whichever booking it belongs to
+export const loadDayPayments = async (day: string): Promise<DayPayment[]> => {
+  const found: DayPayment[] = [];
+  await dbService.scanClients({}, null, entry => {
+    entry.payments.forEach(payment => {
+      if (dayOf(payment.date) === day) found.push({ entry, payment });
+    });
+  });
+  return found.sort((a, b) => a.entry.timestamp - b.entry.timestamp);
+};
+
+export const totalsByMode = (payments: DayPayment[]): Record<PaymentMode, number> => {
+  const totals = emptyModeTotals();
+  payments.forEach(({ payment }) => {
+    totals[payment.mode] = (totals[payment.mode] || 0) + (Number(payment.amount) || 0);
+  });
+  return totals;
+};
+
+export const sumModes = (totals: Record<PaymentMode, number>) =>
+  Object.values(totals).reduce((sum, amount) => sum + (Number(amount) || 0), 0);
+
+export const buildDayClose = (
+  day: string,
+  payments: DayPayment[],
+  counted: Record<PaymentMode, number>,
+  note: string,
+  closedBy?: string
+): DayClose => {
+  const expected = totalsByMode(payments);
+  return {
+    id: day,
+    expected,
+    counted,
+    difference: sumModes(counted) - sumModes(expected),
+    note: note.trim(),
+    paymentIds: payments.map(p => p.payment.id),
+    closedBy,
+    closedAt: Date.now()
+  };
+};
+
+// --- Locking ---
+
+export const closedDays = (closes: DayClose[]) => new Set(closes.map(c => c.id));
+
+export const isPaymentLocked = (payment: PaymentTransaction, closed: Set<string>) => closed.has(dayOf(payment.date));
+
+const samePayment = (a: PaymentTransaction, b: PaymentTransaction) =>
+  a.amount === b.amount && a.mode === b.mode && a.type === b.type && a.date === b.date && a.reference === b.reference;
+
+// Days whose closed totals an edit would change; empty when the edit is allowed
+export const lockedDaysTouched = (before: PaymentTransaction[], after: PaymentTransaction[], closed: Set<string>): string[] => {
+  const touched = new Set<string>();
+  const afterById = new Map(after.map(p => [p.id, p]));
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  before.forEach(old => {
+    const current = afterById.get(old.id);
+    if (current && samePayment(old, current)) return;
+    if (isPaymentLocked(old, closed)) touched.add(dayOf(old.date));
+    if (current && isPaymentLocked(current, closed)) touched.add(dayOf(current.date));
+  });
+  after.forEach(p => {
+    if (!beforeById.has(p.id) && isPaymentLocked(p, closed)) touched.add(dayOf(p.date));
+  });
+  return Array.from(touched).sort();
+};
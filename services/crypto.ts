@@ -0,0 +1,122 @@
+// Passphrase-based encryption using the browser's built-in WebCrypto.
+// The key is derived with PBKDF2 (SHA-256) and data is sealed with AES-GCM, whose
+// authentication tag detects a wrong passphrase as well as any modified byte.
+
+export const ENCRYPTED_FORMAT = 'yatra-seva-encrypted';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 250000;
+// The count comes from the file before it is authenticated; a huge value would freeze the phone
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+// Chunked so large photo archives do not overflow the call stack
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const getSubtle = () => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error("Encryption is not available. Open the app over HTTPS or from the installed app.");
+  }
+  return crypto.subtle;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number, usage: KeyUsage) => {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+};
+
+// The envelope header is authenticated too, so changing e.g. the iteration count is detected
+const headerBytes = (envelope: Omit<EncryptedEnvelope, 'data'>) =>
+  new TextEncoder().encode(JSON.stringify([envelope.format, envelope.version, envelope.kdf, envelope.cipher]));
+
+// Salted PBKDF2 hash for short secrets such as the app PIN (pass the stored salt to verify)
+export const hashSecret = async (secret: string, salt?: string): Promise<{ hash: string, salt: string }> => {
+  const subtle = getSubtle();
+  const saltBytes = salt ? fromBase64(salt) : crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const material = await subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: saltBytes, iterations: PBKDF2_ITERATIONS }, material, 256);
+  return { hash: toBase64(new Uint8Array(bits)), salt: toBase64(saltBytes) };
+};
+
+export const isEncryptedEnvelope = (data: any): data is EncryptedEnvelope =>
+  !!data && data.format === ENCRYPTED_FORMAT;
+
+export const encryptText = async (plaintext: string, passphrase: string): Promise<EncryptedEnvelope> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header: Omit<EncryptedEnvelope, 'data'> = {
+    format: ENCRYPTED_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) }
+  };
+
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS, 'encrypt');
+  const sealed = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return { ...header, data: toBase64(new Uint8Array(sealed)) };
+};
+
+// Throws a user-facing error for a wrong passphrase or a damaged / modified file
+export const decryptText = async (envelope: EncryptedEnvelope, passphrase: string): Promise<string> => {
+  const iterations = envelope.kdf?.iterations;
+  const validIterations = Number.isInteger(iterations) && iterations > 0 && iterations <= MAX_PBKDF2_ITERATIONS;
+  if (envelope.version !== ENVELOPE_VERSION || envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM' || !validIterations) {
+    throw new Error("This encrypted file uses an unsupported format.");
+  }
+
+  let salt: Uint8Array, iv: Uint8Array, data: Uint8Array;
+  try {
+    salt = fromBase64(envelope.kdf.salt);
+    iv = fromBase64(envelope.cipher.iv);
+    data = fromBase64(envelope.data);
+  } catch (e) {
+    throw new Error("This encrypted file is damaged.");
+  }
+
+  const key = await deriveKey(passphrase, salt, iterations, 'decrypt');
+  try {
+    const opened = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv, additionalData: headerBytes(envelope) },
+      key,
+      data
+    );
+    return new TextDecoder().decode(opened);
+  } catch (e) {
+    // AES-GCM cannot tell the two apart: both fail the authentication check
+    throw new Error("Wrong passphrase, or the file has been modified or damaged.");
+  }
+};
@@ -1,9 +1,145 @@
-import { ClientEntry, BackgroundImage } from '../types';
+import { ClientEntry, BackgroundImage, Person, OutboxEntry, SyncChange, SyncStoreName, TrashEntry, MediaRecord, ClientCursor, DayClose, Ritual } from '../types';
+import { migrateLegacyPayment } from './payments';
+import { getDeviceId } from './device';
 
 const DB_NAME = 'YatraDB';
-const DB_VERSION = 2;
 const STORE_NAME = 'clients';
 const BG_STORE_NAME = 'backgrounds';
+const PEOPLE_STORE_NAME = 'people';
+const OUTBOX_STORE_NAME = 'sync_outbox';
+const TRASH_STORE_NAME = 'trash';
+const MEDIA_STORE_NAME = 'media';
+const DAY_CLOSE_STORE_NAME = 'day_closes';
+const RITUAL_STORE_NAME = 'rituals';
+
+// --- Schema Migrations ---
+// Each step upgrades the database from the previous version. When a browser opens
+// an older database, every step newer than its version runs in order inside the
+// same upgrade transaction. Never edit a released step; add a new one instead.
+
+interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Rewrites every record of a store; 'transform' returns null to leave a record as is
+const transformRecords = (transaction: IDBTransaction, storeName: string, transform: (record: any) => any | null) => {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const updated = transform(cursor.value);
+    if (updated) cursor.update(updated);
+    cursor.continue();
+  };
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Client records',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Background images',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(BG_STORE_NAME)) {
+        db.createObjectStore(BG_STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Vanshavali / pilgrim profiles',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(PEOPLE_STORE_NAME)) {
+        db.createObjectStore(PEOPLE_STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Client indexes and structured payments',
+    upgrade: (_db, transaction) => {
+      const store = transaction.objectStore(STORE_NAME);
+      if (!store.indexNames.contains('timestamp')) store.createIndex('timestamp', 'timestamp');
+      if (!store.indexNames.contains('phone')) store.createIndex('phone', 'phone');
+      // Not unique: older random codes were never checked for collisions
+      if (!store.indexNames.contains('uniqueCode')) store.createIndex('uniqueCode', 'uniqueCode');
+
+      transformRecords(transaction, STORE_NAME, (record) =>
+        Array.isArray(record.payments) ? null : migrateLegacyPayment(record)
+      );
+    }
+  },
+  {
+    version: 5,
+    description: 'Sync outbox',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(OUTBOX_STORE_NAME)) {
+        db.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'key' });
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Recycle bin',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(TRASH_STORE_NAME)) {
+        const trash = db.createObjectStore(TRASH_STORE_NAME, { keyPath: 'id' });
+        trash.createIndex('deletedAt', 'deletedAt', { unique: false });
+      }
+    }
+  },
+  {
+    // Existing inline images are moved over by migrateInlineMedia() once the app has
+    // loaded, since making thumbnails is asynchronous and cannot run inside an upgrade.
+    version: 7,
+    description: 'Media store for photos and signatures',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(MEDIA_STORE_NAME)) {
+        db.createObjectStore(MEDIA_STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    version: 8,
+    description: 'Day close records',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(DAY_CLOSE_STORE_NAME)) {
+        db.createObjectStore(DAY_CLOSE_STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    // A catalog kept in LocalStorage is moved over by refreshRituals() once the app has loaded
+    version: 9,
+    description: 'Ritual catalog',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(RITUAL_STORE_NAME)) {
+        db.createObjectStore(RITUAL_STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    // Records without a booking date or a pilgrim profile are simply left out of the index
+    version: 10,
+    description: 'Booking date and pilgrim indexes',
+    upgrade: (_db, transaction) => {
+      const store = transaction.objectStore(STORE_NAME);
+      if (!store.indexNames.contains('scheduledDate')) store.createIndex('scheduledDate', 'scheduledDate');
+      if (!store.indexNames.contains('personId')) store.createIndex('personId', 'personId');
+    }
+  }
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
 // Open the database
 const openDB = (): Promise<IDBDatabase> => {
@@ -24,13 +160,14 @@ const openDB = (): Promise<IDBDatabase> => {
       request.onsuccess = () => resolve(request.result);
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(BG_STORE_NAME)) {
-          db.createObjectStore(BG_STORE_NAME, { keyPath: 'id' });
-        }
+        const db = request.result;
+        const transaction = request.transaction!;
+        MIGRATIONS
+          .filter(m => m.version > event.oldVersion)
+          .forEach(m => {
+            console.info(`Migrating database to v${m.version}: ${m.description}`);
+            m.upgrade(db, transaction);
+          });
       };
     } catch (e) {
       reject(e);
@@ -38,6 +175,82 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
+// --- Change Tracking ---
+// Every local write to a synced store also records the record's key in the outbox
+// (in the same transaction), so changes made offline are pushed later.
+
+const outboxKey = (store: SyncStoreName, id: number | string) => `${store}:${id}`;
+
+const SYNC_STORES: Record<SyncStoreName, string> = {
+  clients: STORE_NAME,
+  people: PEOPLE_STORE_NAME,
+  day_closes: DAY_CLOSE_STORE_NAME,
+  rituals: RITUAL_STORE_NAME
+};
+
+const queueChange = (outbox: IDBObjectStore, store: SyncStoreName, id: number | string, tombstone?: { updatedAt: number, updatedOn: string, deletedBy?: string }) => {
+  const entry: OutboxEntry = {
+    key: outboxKey(store, id),
+    store,
+    id,
+    deleted: !!tombstone,
+    queuedAt: Date.now(),
+    ...tombstone
+  };
+  outbox.put(entry);
+};
+
+// Marks a record as last changed now, on this device
+const stamp = <T extends ClientEntry | Person | DayClose | Ritual>(record: T): T => ({
+  ...record,
+  updatedAt: Date.now(),
+  updatedOn: getDeviceId()
+});
+
+// Files a record in the recycle bin and removes it from the ledger (same transaction)
+const moveToTrash = (transaction: IDBTransaction, entry: ClientEntry, reason: TrashEntry['reason'], deletedBy?: string) => {
+  const item: TrashEntry = {
+    id: entry.id,
+    entry: reason === 'cleanup' ? { ...entry, clientPhoto: undefined, photoId: undefined } : entry,
+    deletedAt: Date.now(),
+    deletedBy,
+    reason
+  };
+  transaction.objectStore(TRASH_STORE_NAME).put(item);
+  transaction.objectStore(STORE_NAME).delete(entry.id);
+};
+
+// Sync ordering of a stored record (older records predate the stamps)
+const recordStamp = (record: any) => ({
+  updatedAt: record.updatedAt || record.timestamp || record.createdAt || 0,
+  updatedOn: record.updatedOn || ''
+});
+
+// Runs a read-only request against the clients store or one of its indexes
+const queryClients = (build: (store: IDBObjectStore) => IDBRequest): Promise<any> =>
+  openDB().then(db => new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = build(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+// Reads up to 'limit' matching records after the given key with a cursor
+const inlineImageBatch = <T>(storeName: string, after: IDBValidKey | null, limit: number, matches: (record: T) => boolean): Promise<T[]> =>
+  openDB().then(db => new Promise((resolve, reject) => {
+    const found: T[] = [];
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName)
+      .openCursor(after === null ? null : IDBKeyRange.lowerBound(after, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(found);
+      if (matches(cursor.value)) found.push(cursor.value);
+      if (found.length >= limit) return resolve(found);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  }));
+
 export const dbService = {
   // Get all records
   getAllClients: async (): Promise<ClientEntry[]> => {
@@ -66,14 +279,100 @@ export const dbService = {
     }
   },
 
+  // Records created between two timestamps (inclusive), newest first
+  getClientsInRange: async (from: number, to: number): Promise<ClientEntry[]> => {
+    const results: ClientEntry[] = await queryClients(store =>
+      store.index('timestamp').getAll(IDBKeyRange.bound(from, to))
+    );
+    return results.reverse();
+  },
+
+  getClient: async (id: number): Promise<ClientEntry | undefined> =>
+    queryClients(store => store.get(id)),
+
+  // Bookings scheduled between two days (YYYY-MM-DD, inclusive)
+  getClientsScheduled: async (firstDay: string, lastDay: string): Promise<ClientEntry[]> =>
+    queryClients(store => store.index('scheduledDate').getAll(IDBKeyRange.bound(firstDay, lastDay))),
+
+  // Visits of the given pilgrim profiles, read in one transaction
+  getClientsByPeople: async (personIds: string[]): Promise<ClientEntry[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const index = transaction.objectStore(STORE_NAME).index('personId');
+      const found: ClientEntry[] = [];
+      personIds.forEach(id => {
+        const request = index.getAll(id);
+        request.onsuccess = () => found.push(...request.result);
+      });
+
+      transaction.oncomplete = () => resolve(found);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Lookup by receipt code (may return several for old colliding codes)
+  getClientsByCode: async (code: string): Promise<ClientEntry[]> =>
+    queryClients(store => store.index('uniqueCode').getAll(code)),
+
+  getClientsByPhone: async (phone: string): Promise<ClientEntry[]> =>
+    queryClients(store => store.index('phone').getAll(phone)),
+
+  // Receipt codes starting with 'prefix' (all codes when empty), read from the index only
+  getReceiptCodes: async (prefix: string = ''): Promise<string[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('uniqueCode');
+      const request = index.openKeyCursor(prefix ? IDBKeyRange.bound(prefix, prefix + '\uffff') : undefined);
+      const codes: string[] = [];
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(codes);
+        codes.push(cursor.key as string);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  countClients: async (): Promise<number> =>
+    queryClients(store => store.count()),
+
+  // Walks records newest first, optionally within a date range and resuming after a
+  // previous page. One record is in memory at a time; 'visit' returns false to stop.
+  scanClients: async (
+    range: { from?: number, to?: number },
+    after: ClientCursor | null,
+    visit: (entry: ClientEntry) => boolean | void
+  ): Promise<void> => {
+    const db = await openDB();
+    const upper = Math.min(range.to ?? Infinity, after ? after.timestamp : Infinity);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const request = transaction.objectStore(STORE_NAME).index('timestamp')
+        .openCursor(IDBKeyRange.bound(range.from ?? -Infinity, upper), 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const entry = cursor.value as ClientEntry;
+        // Records sharing the cursor's timestamp come in descending id order
+        const alreadySeen = after && entry.timestamp === after.timestamp && entry.id >= after.id;
+        if (!alreadySeen && visit(entry) === false) return resolve();
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
   // Add or Update a record
   saveClient: async (client: ClientEntry): Promise<void> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
       try {
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const transaction = db.transaction([STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
         const store = transaction.objectStore(STORE_NAME);
-        const request = store.put(client);
+        const request = store.put(stamp(client));
+        queueChange(transaction.objectStore(OUTBOX_STORE_NAME), 'clients', client.id);
 
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
@@ -84,14 +383,41 @@ export const dbService = {
     });
   },
 
+  // Add or Update several records in one transaction
+  saveClients: async (clients: ClientEntry[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction([STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+        clients.forEach(client => {
+          store.put(stamp(client));
+          queueChange(outbox, 'clients', client.id);
+        });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
   // Delete a record
-  deleteClient: async (id: number): Promise<void> => {
+  // Moves a record to the recycle bin
+  deleteClient: async (id: number, deletedBy?: string): Promise<void> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
       try {
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const transaction = db.transaction([STORE_NAME, TRASH_STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
         const store = transaction.objectStore(STORE_NAME);
-        const request = store.delete(id);
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (!request.result) return;
+          moveToTrash(transaction, request.result, 'deleted', deletedBy);
+          queueChange(transaction.objectStore(OUTBOX_STORE_NAME), 'clients', id, { updatedAt: Date.now(), updatedOn: getDeviceId(), deletedBy });
+        };
 
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
@@ -108,58 +434,539 @@ export const dbService = {
     const db = await openDB();
     const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
     
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+    const count = await new Promise<number>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+      const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
       let count = 0;
 
-      const request = store.openCursor();
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
+      const request = transaction.objectStore(STORE_NAME).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
         if (cursor) {
           const entry = cursor.value as ClientEntry;
-          if (entry.timestamp < cutoff && entry.clientPhoto) {
-            const updatedEntry = { ...entry, clientPhoto: undefined }; // Remove photo
-            cursor.update(updatedEntry);
+          if (entry.clientPhoto || entry.photoId) {
+            // An edit like any other, so the other phones drop the photo as well
+            cursor.update(stamp({ ...entry, clientPhoto: undefined, photoId: undefined }));
+            queueChange(outbox, 'clients', entry.id);
             count++;
           }
           cursor.continue();
-        } else {
-          resolve(count);
         }
       };
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(count);
+      transaction.onerror = () => reject(transaction.error);
     });
+    await dbService.deleteOrphanMedia();
+    return count;
   },
 
-  // Delete records older than 'days'
-  deleteOldRecords: async (days: number = 365): Promise<number> => {
+  // Moves records older than 'days' to the recycle bin (without photos, to free space);
+  // records 'keep' returns true for stay where they are
+  deleteOldRecords: async (days: number = 365, deletedBy?: string, keep: (entry: ClientEntry) => boolean = () => false): Promise<number> => {
     const db = await openDB();
     const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
 
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+    return new Promise<number>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, TRASH_STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+      const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
       let count = 0;
 
-      const request = store.openCursor();
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
+      const request = transaction.objectStore(STORE_NAME).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
         if (cursor) {
-          const entry = cursor.value as ClientEntry;
-          if (entry.timestamp < cutoff) {
-            cursor.delete();
+          if (!keep(cursor.value)) {
+            // Deleted on the other phones too, like a record deleted by hand
+            moveToTrash(transaction, cursor.value, 'cleanup', deletedBy);
+            queueChange(outbox, 'clients', cursor.value.id, { updatedAt: Date.now(), updatedOn: getDeviceId(), deletedBy });
             count++;
           }
           cursor.continue();
-        } else {
-          resolve(count);
         }
       };
+      transaction.oncomplete = () => resolve(count);
+      transaction.onerror = () => reject(transaction.error);
+    }).then(async count => {
+      await dbService.deleteOrphanMedia();
+      return count;
+    });
+  },
+
+  // --- Recycle Bin ---
+
+  getTrash: async (): Promise<TrashEntry[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(TRASH_STORE_NAME, 'readonly').objectStore(TRASH_STORE_NAME).getAll();
+      request.onsuccess = () => resolve((request.result as TrashEntry[]).sort((a, b) => b.deletedAt - a.deletedAt));
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  // Puts records back in the ledger; they sync as new changes so they also return on other phones
+  restoreFromTrash: async (ids: number[]): Promise<ClientEntry[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, TRASH_STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+      const trash = transaction.objectStore(TRASH_STORE_NAME);
+      const restored: ClientEntry[] = [];
+
+      ids.forEach(id => {
+        const request = trash.get(id);
+        request.onsuccess = () => {
+          const item = request.result as TrashEntry | undefined;
+          if (!item) return;
+          const entry = stamp(item.entry);
+          transaction.objectStore(STORE_NAME).put(entry);
+          queueChange(transaction.objectStore(OUTBOX_STORE_NAME), 'clients', entry.id);
+          trash.delete(id);
+          restored.push(entry);
+        };
+      });
+
+      transaction.oncomplete = () => resolve(restored);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  purgeTrash: async (ids: number[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(TRASH_STORE_NAME, 'readwrite');
+      const trash = transaction.objectStore(TRASH_STORE_NAME);
+      ids.forEach(id => trash.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Permanently removes records that have been in the bin longer than 'days'
+  purgeExpiredTrash: async (days: number): Promise<number> => {
+    const db = await openDB();
+    const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(TRASH_STORE_NAME, 'readwrite');
+      let count = 0;
+      const request = transaction.objectStore(TRASH_STORE_NAME).index('deletedAt').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          count++;
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve(count);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // --- Vanshavali (Family Register) ---
+
+  getAllPeople: async (): Promise<Person[]> => {
+    try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PEOPLE_STORE_NAME, 'readonly');
+        const store = transaction.objectStore(PEOPLE_STORE_NAME);
+        const request = store.getAll();
+
+        request.onsuccess = () => resolve(request.result as Person[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (e) {
+      console.warn("Failed to load family register", e);
+      return [];
+    }
+  },
+
+  // Saves several people at once so that two-way links (spouses) stay consistent
+  savePeople: async (people: Person[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction([PEOPLE_STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(PEOPLE_STORE_NAME);
+        const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+        people.forEach(person => {
+          store.put(stamp(person));
+          queueChange(outbox, 'people', person.id);
+        });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // --- Day Close ---
+
+  getDayCloses: async (): Promise<DayClose[]> => {
+    try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const request = db.transaction(DAY_CLOSE_STORE_NAME, 'readonly').objectStore(DAY_CLOSE_STORE_NAME).getAll();
+        request.onsuccess = () => resolve(request.result as DayClose[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (e) {
+      console.warn("Failed to load day close records", e);
+      return [];
+    }
+  },
+
+  saveDayClose: async (close: DayClose): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction([DAY_CLOSE_STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+        transaction.objectStore(DAY_CLOSE_STORE_NAME).put(stamp(close));
+        queueChange(transaction.objectStore(OUTBOX_STORE_NAME), 'day_closes', close.id);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // --- Ritual Catalog ---
+
+  getRituals: async (): Promise<Ritual[]> => {
+    try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const request = db.transaction(RITUAL_STORE_NAME, 'readonly').objectStore(RITUAL_STORE_NAME).getAll();
+        request.onsuccess = () => resolve(request.result as Ritual[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (e) {
+      console.warn("Failed to load the ritual catalog", e);
+      return [];
+    }
+  },
+
+  saveRituals: async (rituals: Ritual[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction([RITUAL_STORE_NAME, OUTBOX_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(RITUAL_STORE_NAME);
+        const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+        rituals.forEach(ritual => {
+          store.put(stamp(ritual));
+          queueChange(outbox, 'rituals', ritual.id);
+        });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // --- Backup / Restore ---
+
+  // Reads every store in a single transaction so the snapshot is consistent
+  exportAll: async (): Promise<{ clients: ClientEntry[], people: Person[], backgrounds: BackgroundImage[], dayCloses: DayClose[], rituals: Ritual[] }> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, PEOPLE_STORE_NAME, BG_STORE_NAME, DAY_CLOSE_STORE_NAME, RITUAL_STORE_NAME], 'readonly');
+      const clients = transaction.objectStore(STORE_NAME).getAll();
+      const people = transaction.objectStore(PEOPLE_STORE_NAME).getAll();
+      const backgrounds = transaction.objectStore(BG_STORE_NAME).getAll();
+      const dayCloses = transaction.objectStore(DAY_CLOSE_STORE_NAME).getAll();
+      const rituals = transaction.objectStore(RITUAL_STORE_NAME).getAll();
+
+      transaction.oncomplete = () => resolve({
+        clients: clients.result,
+        people: people.result,
+        backgrounds: backgrounds.result,
+        dayCloses: dayCloses.result,
+        rituals: rituals.result
+      });
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Writes restored records atomically; with 'clearFirst' the stores are emptied beforehand
+  writeAll: async (data: { clients: ClientEntry[], people: Person[], backgrounds: BackgroundImage[], dayCloses: DayClose[], rituals: Ritual[], media: MediaRecord[] }, clearFirst: boolean): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction([STORE_NAME, PEOPLE_STORE_NAME, BG_STORE_NAME, DAY_CLOSE_STORE_NAME, RITUAL_STORE_NAME, OUTBOX_STORE_NAME, MEDIA_STORE_NAME, TRASH_STORE_NAME], 'readwrite');
+        const clients = transaction.objectStore(STORE_NAME);
+        const people = transaction.objectStore(PEOPLE_STORE_NAME);
+        const backgrounds = transaction.objectStore(BG_STORE_NAME);
+        const dayCloses = transaction.objectStore(DAY_CLOSE_STORE_NAME);
+        const rituals = transaction.objectStore(RITUAL_STORE_NAME);
+        const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+        const media = transaction.objectStore(MEDIA_STORE_NAME);
+
+        if (clearFirst) {
+          clients.clear();
+          people.clear();
+          backgrounds.clear();
+          dayCloses.clear();
+          rituals.clear();
+          outbox.clear();
+          media.clear();
+          // Binned records of the discarded data must not be restorable into the new one
+          transaction.objectStore(TRASH_STORE_NAME).clear();
+        }
+        data.media.forEach(m => media.put(m));
+        // Restored records keep their own change times so sync ordering stays fair
+        data.clients.forEach(c => {
+          clients.put(c);
+          queueChange(outbox, 'clients', c.id);
+        });
+        data.people.forEach(p => {
+          people.put(p);
+          queueChange(outbox, 'people', p.id);
+        });
+        data.backgrounds.forEach(b => backgrounds.put(b));
+        data.dayCloses.forEach(d => {
+          dayCloses.put(d);
+          queueChange(outbox, 'day_closes', d.id);
+        });
+        data.rituals.forEach(r => {
+          rituals.put(r);
+          queueChange(outbox, 'rituals', r.id);
+        });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error("Restore was aborted."));
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  // --- Sync ---
+
+  // Pending local changes together with the current state of each changed record
+  getOutgoingChanges: async (): Promise<{ outbox: OutboxEntry[], changes: SyncChange[] }> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([OUTBOX_STORE_NAME, STORE_NAME, PEOPLE_STORE_NAME, DAY_CLOSE_STORE_NAME, RITUAL_STORE_NAME], 'readonly');
+      const outbox: OutboxEntry[] = [];
+      const changes: SyncChange[] = [];
+
+      const request = transaction.objectStore(OUTBOX_STORE_NAME).getAll();
+      request.onsuccess = () => {
+        (request.result as OutboxEntry[]).forEach(entry => {
+          outbox.push(entry);
+          const get = transaction.objectStore(SYNC_STORES[entry.store]).get(entry.id);
+          get.onsuccess = () => {
+            const record = get.result;
+            if (record) {
+              changes.push({ store: entry.store, id: entry.id, ...recordStamp(record), deleted: false, record });
+            } else {
+              changes.push({
+                store: entry.store,
+                id: entry.id,
+                updatedAt: entry.updatedAt || entry.queuedAt,
+                updatedOn: entry.updatedOn || getDeviceId(),
+                deleted: true,
+                deletedBy: entry.deletedBy
+              });
+            }
+          };
+        });
+      };
+
+      transaction.oncomplete = () => resolve({ outbox, changes });
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Removes pushed changes from the outbox unless the record was changed again meanwhile
+  acknowledgeChanges: async (pushed: OutboxEntry[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(OUTBOX_STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(OUTBOX_STORE_NAME);
+      pushed.forEach(entry => {
+        const get = store.get(entry.key);
+        get.onsuccess = () => {
+          if (get.result && get.result.queuedAt === entry.queuedAt) store.delete(entry.key);
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  countPendingChanges: async (): Promise<number> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(OUTBOX_STORE_NAME, 'readonly').objectStore(OUTBOX_STORE_NAME).count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  // Writes changes received from the server without queuing them again.
+  // 'shouldApply' decides each conflict given the local record's sync stamp (null if absent).
+  applyRemoteChanges: async (
+    changes: SyncChange[],
+    shouldApply: (change: SyncChange, local: { updatedAt: number, updatedOn: string } | null) => boolean,
+    media: MediaRecord[] = []
+  ): Promise<number> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, PEOPLE_STORE_NAME, DAY_CLOSE_STORE_NAME, RITUAL_STORE_NAME, OUTBOX_STORE_NAME, TRASH_STORE_NAME, MEDIA_STORE_NAME], 'readwrite');
+      const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+      let applied = 0;
+
+      // Media is immutable, so it can be stored whatever happens to the records
+      const mediaStore = transaction.objectStore(MEDIA_STORE_NAME);
+      media.forEach(m => mediaStore.put(m));
+
+      changes.forEach(change => {
+        const store = transaction.objectStore(SYNC_STORES[change.store]);
+        const key = outboxKey(change.store, change.id);
+        const getRecord = store.get(change.id);
+        getRecord.onsuccess = () => {
+          const getPending = outbox.get(key);
+          getPending.onsuccess = () => {
+            const pending = getPending.result as OutboxEntry | undefined;
+            const local = getRecord.result
+              ? recordStamp(getRecord.result)
+              : pending?.deleted
+                ? { updatedAt: pending.updatedAt || pending.queuedAt, updatedOn: pending.updatedOn || '' }
+                : null;
+
+            if (!shouldApply(change, local)) return;
+            if (change.deleted && change.store === 'clients' && getRecord.result) {
+              // Deleted on another phone: keep it restorable here too
+              moveToTrash(transaction, getRecord.result, 'deleted', change.deletedBy);
+            } else if (change.deleted) {
+              store.delete(change.id);
+            } else if (change.record) {
+              store.put(change.record);
+            }
+            // The remote version won, so the local change no longer needs pushing
+            if (pending) outbox.delete(key);
+            applied++;
+          };
+        };
+      });
+
+      transaction.oncomplete = () => resolve(applied);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // --- Media ---
+
+  saveMedia: async (records: MediaRecord[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(MEDIA_STORE_NAME);
+        records.forEach(r => store.put(r));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error("Saving media was aborted."));
+      } catch (err) {
+        reject(err);
+      }
+    });
+  },
+
+  getMedia: async (ids: string[]): Promise<MediaRecord[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(MEDIA_STORE_NAME, 'readonly');
+      const store = transaction.objectStore(MEDIA_STORE_NAME);
+      const found: MediaRecord[] = [];
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => { if (request.result) found.push(request.result); };
+      });
+
+      transaction.oncomplete = () => resolve(found);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  getAllMedia: async (): Promise<MediaRecord[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(MEDIA_STORE_NAME, 'readonly').objectStore(MEDIA_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   },
 
+  // Next few clients with images still stored inline, in id order after the given id.
+  // The migration converts them between reads, as no transaction stays open that long.
+  getClientsWithInlineImages: (after: number | null, limit: number): Promise<ClientEntry[]> =>
+    inlineImageBatch(STORE_NAME, after, limit, (c: ClientEntry) => !!(c.clientPhoto || c.signatureImage)),
+
+  getPeopleWithInlinePhotos: (after: string | null, limit: number): Promise<Person[]> =>
+    inlineImageBatch(PEOPLE_STORE_NAME, after, limit, (p: Person) => !!p.photo),
+
+  // Stores converted images and points the records at them; not a user edit, so
+  // nothing is stamped or queued for sync
+  writeMigratedMedia: async (media: MediaRecord[], clients: ClientEntry[], people: Person[]): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([MEDIA_STORE_NAME, STORE_NAME, PEOPLE_STORE_NAME], 'readwrite');
+      media.forEach(m => transaction.objectStore(MEDIA_STORE_NAME).put(m));
+      clients.forEach(c => transaction.objectStore(STORE_NAME).put(c));
+      people.forEach(p => transaction.objectStore(PEOPLE_STORE_NAME).put(p));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Deletes media no record, profile or recycle bin entry refers to any more.
+  // Media from the last hour is kept, as its record may still be being saved.
+  deleteOrphanMedia: async (): Promise<number> => {
+    const db = await openDB();
+    const graceCutoff = Date.now() - 60 * 60 * 1000;
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([MEDIA_STORE_NAME, STORE_NAME, PEOPLE_STORE_NAME, TRASH_STORE_NAME], 'readwrite');
+      const used = new Set<string>();
+      const clients = transaction.objectStore(STORE_NAME).getAll();
+      const people = transaction.objectStore(PEOPLE_STORE_NAME).getAll();
+      const trash = transaction.objectStore(TRASH_STORE_NAME).getAll();
+      let count = 0;
+
+      trash.onsuccess = () => {
+        (clients.result as ClientEntry[]).forEach(c => { if (c.photoId) used.add(c.photoId); if (c.signatureId) used.add(c.signatureId); });
+        (people.result as Person[]).forEach(p => { if (p.photoId) used.add(p.photoId); });
+        (trash.result as TrashEntry[]).forEach(t => { if (t.entry.photoId) used.add(t.entry.photoId); if (t.entry.signatureId) used.add(t.entry.signatureId); });
+
+        const cursorRequest = transaction.objectStore(MEDIA_STORE_NAME).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const media = cursor.value as MediaRecord;
+          if (!used.has(media.id) && media.createdAt < graceCutoff) {
+            cursor.delete();
+            count++;
+          }
+          cursor.continue();
+        };
+      };
+
+      transaction.oncomplete = () => resolve(count);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
   // --- Background Images ---
 
   getAllBackgrounds: async (): Promise<BackgroundImage[]> => {
@@ -0,0 +1,18 @@
+const DEVICE_ID_KEY = 'yatra_device_id';
+
+let cachedId: string | null = null;
+
+// Stable random id for this browser, used to tell apart changes made on different phones
+export const getDeviceId = (): string => {
+  if (cachedId) return cachedId;
+  try {
+    cachedId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!cachedId) {
+      cachedId = 'D' + Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+      localStorage.setItem(DEVICE_ID_KEY, cachedId);
+    }
+  } catch (e) {
+    cachedId = cachedId || 'D' + Math.random().toString(36).substring(2, 10);
+  }
+  return cachedId;
+};
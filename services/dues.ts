@@ -0,0 +1,58 @@
+import { ClientEntry } from '../types';
+import { dbService } from './db';
+import { outstandingBalance } from './payments';
+
+// Bookings the pilgrim has not fully paid for, and the follow-ups set on them.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type DuesFilter = 'all' | 'follow_up' | 'no_follow_up';
+
+export const DUES_FILTERS: { key: DuesFilter, label: string }[] = [
+  { key: 'all', label: 'All dues' },
+  { key: 'follow_up', label: 'Follow-up due' },
+  { key: 'no_follow_up', label: 'No follow-up set' }
+];
+
+const endOfToday = (now: number) => {
+  const d = new Date(now);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() + DAY - 1;
+};
+
+export const ageInDays = (timestamp: number, now: number = Date.now()) => Math.max(0, Math.floor((now - timestamp) / DAY));
+
+export const hasDues = (entry: ClientEntry) => outstandingBalance(entry) > 0;
+
+export const isFollowUpDue = (entry: ClientEntry, now: number = Date.now()) =>
+  !!entry.followUpAt && entry.followUpAt <= endOfToday(now);
+
+// Unpaid bookings, oldest first
+export const outstandingEntries = (entries: ClientEntry[], filter: DuesFilter = 'all', now: number = Date.now()) =>
+  entries
+    .filter(hasDues)
+    .filter(e => filter === 'all' || (filter === 'follow_up' ? isFollowUpDue(e, now) : !e.followUpAt))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Follow-ups for today or earlier that are still unpaid, most overdue first
+export const dueReminders = (entries: ClientEntry[], now: number = Date.now()) =>
+  entries
+    .filter(e => hasDues(e) && isFollowUpDue(e, now))
+    .sort((a, b) => (a.followUpAt || 0) - (b.followUpAt || 0));
+
+// Unpaid bookings read from the whole register; only those are kept in memory
+const scanUnpaid = async (): Promise<ClientEntry[]> => {
+  const found: ClientEntry[] = [];
+  await dbService.scanClients({}, null, entry => {
+    if (hasDues(entry)) found.push(entry);
+  });
+  return found;
+};
+
+export const loadOutstanding = async () => outstandingEntries(await scanUnpaid());
+
+export const loadDueReminders = async (now: number = Date.now()) => dueReminders(await scanUnpaid(), now);
+
+export const totalOutstanding = (entries: ClientEntry[]) =>
+  entries.reduce((sum, e) => sum + Math.max(0, outstandingBalance(e)), 0);
+
+export const describeAge = (days: number) => (days === 0 ? 'Today' : days === 1 ? '1 day' : `${days} days`);
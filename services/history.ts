@@ -0,0 +1,94 @@
+import { ClientEntry, ClientRevision, ClientSnapshot, FieldChange, PaymentTransaction } from '../types';
+import { formatINR, describePayment } from './payments';
+import { panditName } from './pandits';
+import { slotLabel } from './calendar';
+import { findRitual } from './rituals';
+
+interface TrackedField {
+  field: keyof ClientEntry;
+  label: string;
+  format?: (value: any) => string;
+}
+
+// Image fields are compared but only reported as added / replaced / removed
+const describeImage = (value: any) => (value ? 'Present' : 'None');
+
+const TRACKED_FIELDS: TrackedField[] = [
+  { field: 'uniqueCode', label: 'Code' },
+  { field: 'clientName', label: 'Client Name' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'address', label: 'Address' },
+  { field: 'servicePlan', label: 'Service Plan' },
+  { field: 'ritualId', label: 'Ritual', format: (v) => (v ? findRitual(v)?.name || 'Removed from catalog' : 'None') },
+  { field: 'personId', label: 'Yajman Link', format: (v) => (v ? 'Linked' : 'None') },
+  { field: 'performedBy', label: 'Performed By', format: panditName },
+  { field: 'scheduledDate', label: 'Scheduled For' },
+  { field: 'scheduledSlot', label: 'Time Slot', format: (v) => (v ? slotLabel(v) : 'None') },
+  { field: 'location', label: 'Location' },
+  { field: 'agreedTotal', label: 'Agreed Total', format: (v) => formatINR(Number(v) || 0) },
+  { field: 'payments', label: 'Payments', format: (v: PaymentTransaction[] = []) => v.map(describePayment).join('\n') },
+  { field: 'paymentNotes', label: 'Payment Notes' },
+  { field: 'followUpAt', label: 'Follow-up', format: (v) => (v ? new Date(v).toLocaleDateString() : 'None') },
+  { field: 'photoId', label: 'Photo', format: describeImage },
+  { field: 'signatureId', label: 'Signature', format: describeImage },
+];
+
+// Changes hidden from members who may not see payments
+const PAYMENT_FIELDS: (keyof ClientEntry)[] = ['agreedTotal', 'payments', 'paymentNotes', 'followUpAt'];
+export const isPaymentField = (field: string) => (PAYMENT_FIELDS as string[]).includes(field);
+
+const toText = (value: any) => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Field-by-field comparison of two versions of the same record
+export const diffEntries = (before: ClientEntry, after: ClientEntry): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  TRACKED_FIELDS.forEach(({ field, label, format }) => {
+    const prevValue = before[field];
+    const nextValue = after[field];
+    if (toText(prevValue) === toText(nextValue)) return;
+
+    if (format) {
+      const prevText = format(prevValue);
+      const nextText = format(nextValue);
+      changes.push({
+        field,
+        label,
+        before: prevText,
+        after: prevText === nextText ? 'Replaced' : nextText
+      });
+    } else {
+      changes.push({ field, label, before: toText(prevValue), after: toText(nextValue) });
+    }
+  });
+
+  return changes;
+};
+
+const toSnapshot = (entry: ClientEntry): ClientSnapshot => {
+  const { revisions, clientPhoto, signatureImage, ...rest } = entry;
+  return rest;
+};
+
+// Returns the updated record with the previous version appended to its history,
+// or null when nothing was actually changed.
+export const applyRevision = (previous: ClientEntry, updated: ClientEntry): ClientEntry | null => {
+  const changes = diffEntries(previous, updated);
+  if (changes.length === 0) return null;
+
+  const editedAt = Date.now();
+  const revision: ClientRevision = {
+    editedAt,
+    changes,
+    snapshot: toSnapshot(previous)
+  };
+
+  return {
+    ...updated,
+    updatedAt: editedAt,
+    revisions: [...(previous.revisions || []), revision]
+  };
+};
@@ -0,0 +1,147 @@
+import { ClientEntry, ClientCursor, Contact } from '../types';
+import { PANDIT_CONTACTS } from '../constants';
+import { dbService } from './db';
+import { findPandit, involvesPandit } from './pandits';
+import { totalPaid } from './payments';
+import { ritualIdOf } from './rituals';
+
+// The ledger reads records page by page straight from the database instead of
+// holding every card in memory; filters are applied while walking the index so
+// they still cover the whole register.
+
+export const LEDGER_PAGE_SIZE = 30;
+
+export interface LedgerFilter {
+  search: string;
+  from?: number; // Inclusive timestamps
+  to?: number;
+  panditId: string; // '' = all
+  ritualId: string; // '' = all
+}
+
+// 'all' when not grouped; otherwise one section per performing pandit, unassigned last
+export interface LedgerSection {
+  key: string;
+  contact?: Contact;
+}
+
+export type LedgerRow =
+  | { type: 'header', section: LedgerSection }
+  | { type: 'entry', entry: ClientEntry };
+
+export interface LedgerPosition {
+  section: number;
+  after: ClientCursor | null;
+}
+
+export interface LedgerSummary {
+  count: number;
+  bySection: Record<string, { count: number, received: number }>;
+}
+
+const ALL_SECTION = 'all';
+const UNASSIGNED_SECTION = 'unassigned';
+
+export const ledgerSections = (groupByPandit: boolean): LedgerSection[] => groupByPandit
+  ? [...PANDIT_CONTACTS.map(c => ({ key: c.id, contact: c })), { key: UNASSIGNED_SECTION }]
+  : [{ key: ALL_SECTION }];
+
+const sectionKeyOf = (entry: ClientEntry) => findPandit(entry.performedBy) ? entry.performedBy! : UNASSIGNED_SECTION;
+
+const inSection = (entry: ClientEntry, key: string) => key === ALL_SECTION || sectionKeyOf(entry) === key;
+
+export const matchesLedgerFilter = (entry: ClientEntry, filter: LedgerFilter) => {
+  if (filter.from !== undefined && entry.timestamp < filter.from) return false;
+  if (filter.to !== undefined && entry.timestamp > filter.to) return false;
+  if (filter.panditId && !involvesPandit(entry, filter.panditId)) return false;
+  if (filter.ritualId && ritualIdOf(entry) !== filter.ritualId) return false;
+
+  const searchLower = filter.search.toLowerCase();
+  return (
+    !filter.search ||
+    entry.clientName.toLowerCase().includes(searchLower) ||
+    entry.phone.includes(searchLower) ||
+    entry.uniqueCode.toLowerCase().includes(searchLower) ||
+    entry.servicePlan.toLowerCase().includes(searchLower)
+  );
+};
+
+const cursorOf = (entry: ClientEntry): ClientCursor => ({ timestamp: entry.timestamp, id: entry.id });
+
+// Loads up to 'limit' more rows from 'position', moving on to the next section when
+// one runs out. The returned position is null once everything has been loaded.
+export const loadLedgerRows = async (
+  filter: LedgerFilter,
+  sections: LedgerSection[],
+  position: LedgerPosition,
+  limit: number = LEDGER_PAGE_SIZE
+): Promise<{ rows: LedgerRow[], position: LedgerPosition | null }> => {
+  const rows: LedgerRow[] = [];
+  let { section, after } = position;
+  let loaded = 0;
+
+  while (section < sections.length && loaded < limit) {
+    const current = sections[section];
+    const page: ClientEntry[] = [];
+    await dbService.scanClients(filter, after, entry => {
+      if (inSection(entry, current.key) && matchesLedgerFilter(entry, filter)) page.push(entry);
+      return page.length < limit - loaded;
+    });
+
+    if (page.length > 0 && !after && current.key !== ALL_SECTION) rows.push({ type: 'header', section: current });
+    page.forEach(entry => rows.push({ type: 'entry', entry }));
+    loaded += page.length;
+
+    if (loaded >= limit && page.length > 0) {
+      after = cursorOf(page[page.length - 1]);
+    } else {
+      section++;
+      after = null;
+    }
+  }
+
+  return { rows, position: section < sections.length ? { section, after } : null };
+};
+
+const addToSummary = (summary: LedgerSummary, entry: ClientEntry) => {
+  const key = sectionKeyOf(entry);
+  const section = summary.bySection[key] || (summary.bySection[key] = { count: 0, received: 0 });
+  section.count++;
+  section.received += totalPaid(entry);
+  summary.count++;
+};
+
+// Totals for the header and the pandit sections, counted without keeping the records
+export const summarizeLedger = async (filter: LedgerFilter): Promise<LedgerSummary> => {
+  const summary: LedgerSummary = { count: 0, bySection: {} };
+  await dbService.scanClients(filter, null, entry => {
+    if (matchesLedgerFilter(entry, filter)) addToSummary(summary, entry);
+  });
+  return summary;
+};
+
+// Every matching record, for printing
+export const loadAllMatching = async (filter: LedgerFilter): Promise<ClientEntry[]> => {
+  const results: ClientEntry[] = [];
+  await dbService.scanClients(filter, null, entry => {
+    if (matchesLedgerFilter(entry, filter)) results.push(entry);
+  });
+  return results;
+};
+
+// Same rows built from an in-memory list (LocalStorage fallback when the database is unavailable)
+export const ledgerRowsFromMemory = (entries: ClientEntry[], filter: LedgerFilter, sections: LedgerSection[]): LedgerRow[] => {
+  const matching = entries.filter(e => matchesLedgerFilter(e, filter)).sort((a, b) => b.timestamp - a.timestamp);
+  return sections.flatMap(section => {
+    const inThis = matching.filter(e => inSection(e, section.key));
+    if (inThis.length === 0) return [];
+    const header: LedgerRow[] = section.key === ALL_SECTION ? [] : [{ type: 'header', section }];
+    return [...header, ...inThis.map(entry => ({ type: 'entry' as const, entry }))];
+  });
+};
+
+export const summarizeMemory = (entries: ClientEntry[], filter: LedgerFilter): LedgerSummary => {
+  const summary: LedgerSummary = { count: 0, bySection: {} };
+  entries.filter(e => matchesLedgerFilter(e, filter)).forEach(entry => addToSummary(summary, entry));
+  return summary;
+};
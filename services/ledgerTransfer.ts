@@ -0,0 +1,247 @@
+import { ClientEntry, Person } from '../types';
+import { PANDIT_CONTACTS } from '../constants';
+import { dbService } from './db';
+import { panditName } from './pandits';
+import { createPayment, describePayment, outstandingBalance, toDateInputValue, totalPaid } from './payments';
+import { linkUnassignedVisits, normalizePhone } from './pilgrims';
+import { nextCodeFrom, storedCodes } from './receipts';
+import { SheetCell } from './spreadsheet';
+import { closedDays, dayLabel, dayOf } from './cashbook';
+
+// Ledger to spreadsheet and back. Imports are checked row by row and compared with
+// the register before anything is saved.
+
+const COLUMNS_KEY = 'yatra_export_columns';
+
+// --- Export ---
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  payments?: boolean; // Only for members who may see payments
+  value: (entry: ClientEntry) => SheetCell;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'date', label: 'Date', value: e => toDateInputValue(e.timestamp) },
+  { key: 'time', label: 'Time', value: e => new Date(e.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) },
+  { key: 'code', label: 'Receipt Code', value: e => e.uniqueCode },
+  { key: 'name', label: 'Pilgrim Name', value: e => e.clientName },
+  { key: 'phone', label: 'Phone', value: e => e.phone },
+  { key: 'address', label: 'Address', value: e => e.address },
+  { key: 'ritual', label: 'Ritual / Seva', value: e => e.servicePlan },
+  { key: 'performedBy', label: 'Performed By', value: e => (e.performedBy ? panditName(e.performedBy) : '') },
+  { key: 'registeredBy', label: 'Registered By', value: e => (e.registeredBy ? panditName(e.registeredBy) : '') },
+  { key: 'agreed', label: 'Agreed (INR)', payments: true, value: e => Number(e.agreedTotal) || 0 },
+  { key: 'paid', label: 'Paid (INR)', payments: true, value: e => totalPaid(e) },
+  { key: 'balance', label: 'Balance (INR)', payments: true, value: e => outstandingBalance(e) },
+  { key: 'payments', label: 'Payment Details', payments: true, value: e => e.payments.map(describePayment).join('; ') },
+  { key: 'notes', label: 'Payment Notes', payments: true, value: e => e.paymentNotes || '' }
+];
+
+export const loadExportColumns = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_KEY) || 'null');
+    if (Array.isArray(saved) && saved.length > 0) return saved;
+  } catch (e) {
+    // Fall through to all columns
+  }
+  return EXPORT_COLUMNS.map(c => c.key);
+};
+
+export const saveExportColumns = (keys: string[]) => {
+  localStorage.setItem(COLUMNS_KEY, JSON.stringify(keys));
+};
+
+// Header row plus one row per entry, oldest first as an accountant reads a register
+export const exportRows = (entries: ClientEntry[], keys: string[]): SheetCell[][] => {
+  const columns = EXPORT_COLUMNS.filter(c => keys.includes(c.key));
+  return [
+    columns.map(c => c.label),
+    ...[...entries].sort((a, b) => a.timestamp - b.timestamp).map(entry => columns.map(c => c.value(entry)))
+  ];
+};
+
+export const exportFileName = (extension: 'csv' | 'xlsx') =>
+  `Yatra_Ledger_${toDateInputValue(Date.now())}.${extension}`;
+
+// --- Import ---
+
+export type ImportField = 'clientName' | 'phone' | 'address' | 'servicePlan' | 'uniqueCode' | 'date' | 'agreedTotal' | 'paid' | 'performedBy' | 'paymentNotes';
+
+export const IMPORT_FIELDS: { key: ImportField, label: string, required?: boolean, aliases: string[] }[] = [
+  { key: 'clientName', label: 'Pilgrim Name', required: true, aliases: ['name', 'pilgrim', 'client', 'yajman', 'नाम', 'यजमान'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'mobile', 'contact', 'फ़ोन', 'फोन', 'मोबाइल'] },
+  { key: 'address', label: 'Address', aliases: ['address', 'city', 'village', 'पता', 'गाँव'] },
+  { key: 'servicePlan', label: 'Ritual / Seva', required: true, aliases: ['ritual', 'seva', 'service', 'plan', 'puja', 'पूजा', 'सेवा'] },
+  { key: 'uniqueCode', label: 'Receipt Code', aliases: ['code', 'receipt', 'रसीद'] },
+  { key: 'date', label: 'Date', aliases: ['date', 'तिथि', 'दिनांक', 'तारीख'] },
+  { key: 'agreedTotal', label: 'Agreed Amount', aliases: ['agreed', 'total', 'fee', 'तय'] },
+  { key: 'paid', label: 'Paid Amount', aliases: ['paid', 'received', 'advance', 'जमा'] },
+  { key: 'performedBy', label: 'Performed By', aliases: ['performed', 'pandit', 'पंडित'] },
+  { key: 'paymentNotes', label: 'Payment Notes', aliases: ['notes', 'remark', 'टिप्पणी'] }
+];
+
+// Column number for each field; -1 = not in the file
+export type ImportMapping = Record<ImportField, number>;
+
+export const guessMapping = (headers: string[]): ImportMapping => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const used = new Set<number>();
+  const mapping = {} as ImportMapping;
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && field.aliases.some(alias => h.includes(alias)));
+    if (index !== -1) used.add(index);
+    mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+export interface ImportRow {
+  line: number; // Row number as shown in the spreadsheet
+  entry: ClientEntry | null;
+  errors: string[];
+  duplicateOf?: string; // Why the row looks like a record that already exists
+}
+
+// What the register already holds, for duplicate detection
+export interface ImportContext {
+  codes: Set<string>;
+  visits: Map<string, string>; // Same pilgrim on the same day -> receipt code
+  closedDays: Set<string>; // Days whose cash book is closed (YYYY-MM-DD)
+  registeredBy?: string;
+}
+
+const visitKey = (phone: string, name: string, timestamp: number) =>
+  `${normalizePhone(phone) || name.trim().toLowerCase()}|${toDateInputValue(timestamp)}`;
+
+export const loadImportContext = async (registeredBy?: string): Promise<ImportContext> => {
+  const visits = new Map<string, string>();
+  await dbService.scanClients({}, null, entry => {
+    visits.set(visitKey(entry.phone, entry.clientName, entry.timestamp), entry.uniqueCode);
+  });
+  return { codes: new Set(await storedCodes()), visits, closedDays: closedDays(await dbService.getDayCloses()), registeredBy };
+};
+
+// Excel stores dates as days since 30 Dec 1899
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// YYYY-MM-DD, DD/MM/YYYY or DD-MM-YYYY (Indian order), or an Excel date number
+const parseDate = (text: string): number | null => {
+  const value = text.trim();
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12).getTime();
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (match) {
+    const year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    const date = new Date(year, Number(match[2]) - 1, Number(match[1]), 12);
+    return date.getDate() === Number(match[1]) ? date.getTime() : null;
+  }
+  if (/^\d+(\.\d+)?$/.test(value) && Number(value) > 20000 && Number(value) < 80000) {
+    const utc = new Date(EXCEL_EPOCH + Number(value) * 24 * 60 * 60 * 1000);
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), 12).getTime();
+  }
+  return null;
+};
+
+const parseAmount = (text: string): number | null => {
+  const cleaned = text.replace(/[₹,\s]|rs\.?|inr/gi, '');
+  if (!cleaned) return 0;
+  const amount = Number(cleaned);
+  return isFinite(amount) && amount >= 0 ? Math.round(amount) : null;
+};
+
+const matchPandit = (text: string) => {
+  const value = text.trim().toLowerCase();
+  return PANDIT_CONTACTS.find(c => c.id === value || c.name.toLowerCase() === value || c.name.toLowerCase().split(' ')[0] === value);
+};
+
+// Checks every data row (the header row is skipped) and builds the records to save
+export const validateImport = (rows: string[][], mapping: ImportMapping, context: ImportContext): ImportRow[] => {
+  const seenCodes = new Set<string>();
+  const seenVisits = new Map<string, number>();
+  const assignedCodes: string[] = [...context.codes];
+  const idBase = Date.now();
+  const results: ImportRow[] = [];
+
+  rows.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? String(row[mapping[field]] ?? '').trim() : '');
+    if (row.every(value => !String(value ?? '').trim())) return; // Blank line
+
+    const errors: string[] = [];
+    const name = cell('clientName');
+    const plan = cell('servicePlan');
+    const phone = cell('phone');
+    if (!name) errors.push("Name is missing");
+    if (!plan) errors.push("Ritual is missing");
+    if (phone && phone.replace(/\D/g, '').length < 10) errors.push(`Phone "${phone}" has fewer than 10 digits`);
+
+    let timestamp = Date.now();
+    if (cell('date')) {
+      const parsed = parseDate(cell('date'));
+      if (parsed === null) errors.push(`Date "${cell('date')}" is not understood (use DD/MM/YYYY)`);
+      else timestamp = parsed;
+    }
+
+    const agreed = parseAmount(cell('agreedTotal'));
+    if (agreed === null) errors.push(`Agreed amount "${cell('agreedTotal')}" is not a number`);
+    const paid = parseAmount(cell('paid'));
+    if (paid === null) errors.push(`Paid amount "${cell('paid')}" is not a number`);
+    // The payment is dated on the row's date; a closed day's cash book cannot take more receipts
+    if (paid && context.closedDays.has(dayOf(timestamp))) errors.push(`${dayLabel(dayOf(timestamp))} is closed in the cash book; a payment cannot be added to it`);
+
+    const pandit = cell('performedBy') ? matchPandit(cell('performedBy')) : undefined;
+    if (cell('performedBy') && !pandit) errors.push(`Pandit "${cell('performedBy')}" is not in the family list`);
+
+    let code = cell('uniqueCode').toUpperCase();
+    let duplicateOf: string | undefined;
+    const codeTaken = !!code && (context.codes.has(code) || seenCodes.has(code));
+    if (codeTaken) {
+      duplicateOf = context.codes.has(code) ? `Code ${code} is already in the register` : `Code ${code} appears twice in this file`;
+    }
+    const key = visitKey(phone, name, timestamp);
+    if (!duplicateOf && name && context.visits.has(key)) {
+      duplicateOf = `Same pilgrim and date as ${context.visits.get(key)}`;
+    } else if (!duplicateOf && name && seenVisits.has(key)) {
+      duplicateOf = `Same pilgrim and date as row ${seenVisits.get(key)}`;
+    }
+
+    if (errors.length > 0) {
+      results.push({ line, entry: null, errors, duplicateOf });
+      return;
+    }
+
+    // Receipt codes stay unique: a taken code is replaced if the row is imported anyway
+    if (!code || codeTaken) code = nextCodeFrom(assignedCodes, new Date(timestamp));
+    if (codeTaken) duplicateOf += `; imported as ${code}`;
+    assignedCodes.push(code);
+    seenCodes.add(code);
+    if (name) seenVisits.set(key, line);
+
+    const entry: ClientEntry = {
+      id: idBase + i,
+      uniqueCode: code,
+      clientName: name,
+      phone,
+      address: cell('address'),
+      servicePlan: plan,
+      agreedTotal: agreed || 0,
+      payments: paid ? [createPayment({ amount: paid, date: timestamp, reference: 'Imported' })] : [],
+      paymentNotes: cell('paymentNotes') || undefined,
+      timestamp,
+      performedBy: pandit?.id,
+      registeredBy: context.registeredBy
+    };
+    results.push({ line, entry, errors, duplicateOf });
+  });
+
+  return results;
+};
+
+// Saves the records in one go and attaches them to pilgrim profiles by phone number
+export const saveImportedEntries = async (entries: ClientEntry[], people: Person[]) => {
+  const { linkedEntries, newPeople } = linkUnassignedVisits(entries, people);
+  if (newPeople.length > 0) await dbService.savePeople(newPeople);
+  await dbService.saveClients(linkedEntries);
+};
@@ -0,0 +1,144 @@
+import { ClientEntry, Person } from '../types';
+
+export interface RelatedPerson {
+  person: Person;
+  relation: string;
+  // Negative = older generations, positive = younger, 0 = same generation
+  generation: number;
+}
+
+export interface FamilyVisit {
+  entry: ClientEntry;
+  person: Person;
+  relation: string;
+}
+
+// 64 random bits: legacy records are linked by the hundred in the same millisecond
+const randomTail = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const createPerson = (fields: Partial<Person> = {}): Person => ({
+  id: 'P' + Date.now().toString(36) + randomTail(),
+  name: '',
+  gotra: '',
+  nativeVillage: '',
+  parentIds: [],
+  spouseIds: [],
+  createdAt: Date.now(),
+  ...fields
+});
+
+const byId = (people: Person[]) => new Map(people.map(p => [p.id, p]));
+
+export const parentsOf = (person: Person, people: Person[]) => {
+  const index = byId(people);
+  return person.parentIds.map(id => index.get(id)).filter((p): p is Person => !!p);
+};
+
+export const spousesOf = (person: Person, people: Person[]) => {
+  const index = byId(people);
+  return person.spouseIds.map(id => index.get(id)).filter((p): p is Person => !!p);
+};
+
+export const childrenOf = (person: Person, people: Person[]) =>
+  people.filter(p => p.parentIds.includes(person.id));
+
+const ancestorLabel = (depth: number) => {
+  if (depth === 1) return 'Parent';
+  if (depth === 2) return 'Grandparent';
+  return `${'Great-'.repeat(depth - 2)}grandparent`;
+};
+
+const descendantLabel = (depth: number) => {
+  if (depth === 1) return 'Child';
+  if (depth === 2) return 'Grandchild';
+  return `${'Great-'.repeat(depth - 2)}grandchild`;
+};
+
+// Walks parent links upwards and child links downwards from 'personId'.
+// Each person is reported once, at the nearest generation they were reached.
+export const relativesOf = (personId: string, people: Person[]): RelatedPerson[] => {
+  const index = byId(people);
+  const root = index.get(personId);
+  if (!root) return [];
+
+  const seen = new Set<string>([root.id]);
+  const result: RelatedPerson[] = [];
+
+  let frontier: Person[] = [root];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: Person[] = [];
+    frontier.forEach(p => parentsOf(p, people).forEach(parent => {
+      if (seen.has(parent.id)) return;
+      seen.add(parent.id);
+      next.push(parent);
+      result.push({ person: parent, relation: ancestorLabel(depth), generation: -depth });
+    }));
+    frontier = next;
+  }
+
+  frontier = [root];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: Person[] = [];
+    frontier.forEach(p => childrenOf(p, people).forEach(child => {
+      if (seen.has(child.id)) return;
+      seen.add(child.id);
+      next.push(child);
+      result.push({ person: child, relation: descendantLabel(depth), generation: depth });
+    }));
+    frontier = next;
+  }
+
+  spousesOf(root, people).forEach(spouse => {
+    if (seen.has(spouse.id)) return;
+    seen.add(spouse.id);
+    result.push({ person: spouse, relation: 'Spouse', generation: 0 });
+  });
+
+  return result;
+};
+
+// The person and everyone in their direct line
+export const familyMembers = (personId: string, people: Person[]) => {
+  const root = people.find(p => p.id === personId);
+  return root ? [{ person: root, relation: 'Self' }, ...relativesOf(personId, people)] : [];
+};
+
+// Every visit made by the person or anyone in their direct line, newest first
+export const familyVisits = (personId: string, people: Person[], entries: ClientEntry[]): FamilyVisit[] => {
+  const members = familyMembers(personId, people);
+  const relationById = new Map(members.map(m => [m.person.id, m]));
+
+  return entries
+    .filter(e => e.personId && relationById.has(e.personId))
+    .map(e => {
+      const member = relationById.get(e.personId!)!;
+      return { entry: e, person: member.person, relation: member.relation };
+    })
+    .sort((a, b) => b.entry.timestamp - a.entry.timestamp);
+};
+
+// Returns the two people with a spouse link added on both sides
+export const linkSpouses = (a: Person, b: Person): [Person, Person] => [
+  { ...a, spouseIds: a.spouseIds.includes(b.id) ? a.spouseIds : [...a.spouseIds, b.id] },
+  { ...b, spouseIds: b.spouseIds.includes(a.id) ? b.spouseIds : [...b.spouseIds, a.id] }
+];
+
+export const linkParent = (child: Person, parent: Person): Person => ({
+  ...child,
+  parentIds: child.parentIds.includes(parent.id) ? child.parentIds : [...child.parentIds, parent.id]
+});
+
+// A person may not become their own ancestor
+export const wouldCreateCycle = (childId: string, parentId: string, people: Person[]) =>
+  childId === parentId || relativesOf(childId, people).some(r => r.person.id === parentId && r.generation > 0);
+
+export const searchPeople = (query: string, people: Person[]) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  return people.filter(p =>
+    p.name.toLowerCase().includes(q) ||
+    p.gotra.toLowerCase().includes(q) ||
+    p.nativeVillage.toLowerCase().includes(q)
+  );
+};
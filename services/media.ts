@@ -0,0 +1,175 @@
+import { ClientEntry, Person, DayClose, Ritual, MediaKind, MediaRecord, MediaPayload } from '../types';
+import { dbService } from './db';
+
+// Photos and signatures live in the media store as Blobs (about a quarter smaller than
+// base64 text) with a small thumbnail for list views. Records only keep the media id.
+
+const THUMB_SIZE = 160;
+const MIGRATION_BATCH = 20;
+const MIGRATED_KEY = 'yatra_media_migrated';
+
+export const newMediaId = () => 'M' + Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Signatures keep PNG transparency; photos become JPEG
+const makeThumbnail = async (blob: Blob, kind: MediaKind): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, THUMB_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      result => (result ? resolve(result) : reject(new Error("Could not create thumbnail"))),
+      kind === 'signature' ? 'image/png' : 'image/jpeg',
+      0.7
+    );
+  });
+};
+
+export const createMedia = async (dataUrl: string, kind: MediaKind): Promise<MediaRecord> => {
+  const blob = await dataUrlToBlob(dataUrl);
+  return { id: newMediaId(), kind, blob, thumb: await makeThumbnail(blob, kind), createdAt: Date.now() };
+};
+
+// Saves a fresh capture and returns its id
+export const storeMedia = async (dataUrl: string, kind: MediaKind): Promise<string> => {
+  const media = await createMedia(dataUrl, kind);
+  await dbService.saveMedia([media]);
+  return media.id;
+};
+
+// Moves inline captures on an entry into the media store before the entry is saved
+export const persistEntryMedia = async (entry: ClientEntry): Promise<ClientEntry> => {
+  const { clientPhoto, signatureImage, ...rest } = entry;
+  const media: MediaRecord[] = [];
+  const result: ClientEntry = { ...rest };
+
+  if (clientPhoto) {
+    const photo = await createMedia(clientPhoto, 'photo');
+    media.push(photo);
+    result.photoId = photo.id;
+  }
+  if (signatureImage) {
+    const signature = await createMedia(signatureImage, 'signature');
+    media.push(signature);
+    result.signatureId = signature.id;
+  }
+  if (media.length > 0) await dbService.saveMedia(media);
+  return result;
+};
+
+// --- Backup / Sync Transport ---
+
+export const toPayload = async (media: MediaRecord): Promise<MediaPayload> => ({
+  id: media.id,
+  kind: media.kind,
+  data: await blobToDataUrl(media.blob),
+  thumb: await blobToDataUrl(media.thumb),
+  createdAt: media.createdAt
+});
+
+export const fromPayload = async (payload: MediaPayload): Promise<MediaRecord> => ({
+  id: payload.id,
+  kind: payload.kind,
+  blob: await dataUrlToBlob(payload.data),
+  thumb: await dataUrlToBlob(payload.thumb),
+  createdAt: payload.createdAt
+});
+
+export const mediaIdsOf = (record: ClientEntry | Person | DayClose | Ritual): string[] =>
+  [(record as ClientEntry).photoId || (record as Person).photoId, (record as ClientEntry).signatureId].filter((id): id is string => !!id);
+
+// --- Migration ---
+
+const isMigrated = () => {
+  try {
+    return localStorage.getItem(MIGRATED_KEY) === '1';
+  } catch (e) {
+    return false;
+  }
+};
+
+const markMigrated = () => {
+  try {
+    localStorage.setItem(MIGRATED_KEY, '1');
+  } catch (e) {
+    console.warn("Could not remember the media migration", e);
+  }
+};
+
+// Converts images stored inline on records (before the media store existed, or restored
+// from an old backup) into media records, reading the records in small batches to limit
+// memory use. Once everything is converted later starts skip it; 'force' runs it again
+// after a restore, which may bring inline images back. Returns true when anything was converted.
+export const migrateInlineMedia = async (force = false): Promise<boolean> => {
+  if (!force && isMigrated()) return false;
+  let changed = false;
+  let failed = false;
+
+  for (let after: number | null = null; ;) {
+    const clients = await dbService.getClientsWithInlineImages(after, MIGRATION_BATCH);
+    if (clients.length === 0) break;
+    after = clients[clients.length - 1].id;
+    const media: MediaRecord[] = [];
+    const converted: ClientEntry[] = [];
+    for (const client of clients) {
+      try {
+        const { clientPhoto, signatureImage, ...rest } = client;
+        const updated: ClientEntry = { ...rest };
+        if (clientPhoto) {
+          const photo = await createMedia(clientPhoto, 'photo');
+          media.push(photo);
+          updated.photoId = photo.id;
+        }
+        if (signatureImage) {
+          const signature = await createMedia(signatureImage, 'signature');
+          media.push(signature);
+          updated.signatureId = signature.id;
+        }
+        converted.push(updated);
+      } catch (e) {
+        // A damaged image stays inline rather than being lost, and is tried again next start
+        console.warn(`Could not convert images of record ${client.id}`, e);
+        failed = true;
+      }
+    }
+    await dbService.writeMigratedMedia(media, converted, []);
+    changed = changed || converted.length > 0;
+  }
+
+  for (let after: string | null = null; ;) {
+    const people = await dbService.getPeopleWithInlinePhotos(after, MIGRATION_BATCH);
+    if (people.length === 0) break;
+    after = people[people.length - 1].id;
+    const media: MediaRecord[] = [];
+    const converted: Person[] = [];
+    for (const person of people) {
+      try {
+        const { photo, ...rest } = person;
+        const record = await createMedia(photo!, 'photo');
+        media.push(record);
+        converted.push({ ...rest, photoId: record.id });
+      } catch (e) {
+        console.warn(`Could not convert photo of ${person.id}`, e);
+        failed = true;
+      }
+    }
+    await dbService.writeMigratedMedia(media, [], converted);
+    changed = changed || converted.length > 0;
+  }
+
+  if (!failed) markMigrated();
+  return changed;
+};
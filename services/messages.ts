@@ -0,0 +1,141 @@
+import { ClientEntry } from '../types';
+import { findPandit } from './pandits';
+import { formatINR, outstandingBalance, totalPaid } from './payments';
+import { formatDay, slotLabel } from './calendar';
+
+// WhatsApp message templates. Placeholders in {braces} are filled from a ledger
+// entry and the message opens in WhatsApp through a wa.me link.
+
+const TEMPLATES_KEY = 'yatra_message_templates';
+
+export type MessageLanguage = 'en' | 'hi';
+
+export const LANGUAGE_LABELS: Record<MessageLanguage, string> = {
+  en: 'English',
+  hi: 'हिंदी'
+};
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: MessageLanguage;
+  body: string;
+}
+
+export const PLACEHOLDERS: { key: string, label: string }[] = [
+  { key: 'name', label: 'Pilgrim name' },
+  { key: 'code', label: 'Receipt code' },
+  { key: 'ritual', label: 'Ritual / seva' },
+  { key: 'date', label: 'Ritual date (booking date if not scheduled)' },
+  { key: 'slot', label: 'Time slot' },
+  { key: 'location', label: 'Location' },
+  { key: 'paid', label: 'Amount paid' },
+  { key: 'balance', label: 'Balance due' },
+  { key: 'pandit', label: 'Pandit name' },
+  { key: 'pandit_phone', label: 'Pandit phone' }
+];
+
+const PAYMENT_PLACEHOLDERS = ['paid', 'balance'];
+
+export const DEFAULT_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'confirm-en',
+    name: 'Booking confirmation',
+    language: 'en',
+    body: 'Jai Shri Krishna {name} ji 🙏\nYour booking is confirmed.\nReceipt: {code}\nDate: {date}\nSeva: {ritual}\nPandit: {pandit} ({pandit_phone})'
+  },
+  {
+    id: 'meeting-en',
+    name: 'Meeting point',
+    language: 'en',
+    body: 'Jai Shri Krishna {name} ji 🙏\nPlease meet {pandit} at Vishram Ghat, Mathura on {date}. Call {pandit_phone} on arrival.\nReceipt: {code}'
+  },
+  {
+    id: 'balance-en',
+    name: 'Balance reminder',
+    language: 'en',
+    body: 'Jai Shri Krishna {name} ji 🙏\nFor receipt {code} ({ritual}) we have received {paid}. Balance due: {balance}.'
+  },
+  {
+    id: 'thanks-en',
+    name: 'Thank you',
+    language: 'en',
+    body: 'Jai Shri Krishna {name} ji 🙏\nThank you for your seva in Mathura. May Shri Krishna bless your family.\n- {pandit}'
+  },
+  {
+    id: 'confirm-hi',
+    name: 'बुकिंग पुष्टि',
+    language: 'hi',
+    body: 'जय श्री कृष्ण {name} जी 🙏\nआपकी बुकिंग पक्की हो गई है।\nरसीद: {code}\nतिथि: {date}\nसेवा: {ritual}\nपंडित जी: {pandit} ({pandit_phone})'
+  },
+  {
+    id: 'meeting-hi',
+    name: 'मिलने का स्थान',
+    language: 'hi',
+    body: 'जय श्री कृष्ण {name} जी 🙏\nकृपया {date} को विश्राम घाट, मथुरा पर {pandit} जी से मिलें। पहुँचकर {pandit_phone} पर फ़ोन करें।\nरसीद: {code}'
+  },
+  {
+    id: 'balance-hi',
+    name: 'बकाया याद',
+    language: 'hi',
+    body: 'जय श्री कृष्ण {name} जी 🙏\nरसीद {code} ({ritual}) के लिए {paid} प्राप्त हुए। शेष राशि: {balance}।'
+  },
+  {
+    id: 'thanks-hi',
+    name: 'धन्यवाद',
+    language: 'hi',
+    body: 'जय श्री कृष्ण {name} जी 🙏\nमथुरा में सेवा के लिए धन्यवाद। श्री कृष्ण आपके परिवार पर कृपा बनाए रखें।\n- {pandit}'
+  }
+];
+
+// Template the outstanding dues list starts its reminders with
+export const BALANCE_REMINDER_TEMPLATE_ID = 'balance-en';
+
+export const loadTemplates = (): MessageTemplate[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || 'null');
+    return Array.isArray(saved) && saved.length > 0 ? saved : DEFAULT_TEMPLATES;
+  } catch (e) {
+    return DEFAULT_TEMPLATES;
+  }
+};
+
+export const saveTemplates = (templates: MessageTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const resetTemplates = () => localStorage.removeItem(TEMPLATES_KEY);
+
+// Payment placeholders are left empty for members who may not see payments
+export const fillTemplate = (body: string, entry: ClientEntry, hidePayments: boolean = false) => {
+  const pandit = findPandit(entry.performedBy || entry.registeredBy);
+  const values: Record<string, string> = {
+    name: entry.clientName,
+    code: entry.uniqueCode,
+    ritual: entry.servicePlan.trim(),
+    date: entry.scheduledDate
+      ? formatDay(entry.scheduledDate, { day: 'numeric', month: 'short', year: 'numeric' })
+      : new Date(entry.timestamp).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' }),
+    slot: entry.scheduledSlot ? slotLabel(entry.scheduledSlot) : '',
+    location: entry.location || '',
+    paid: formatINR(totalPaid(entry)),
+    balance: formatINR(Math.max(0, outstandingBalance(entry))),
+    pandit: pandit?.name || '',
+    pandit_phone: pandit?.phone || ''
+  };
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in values)) return match;
+    return hidePayments && PAYMENT_PLACEHOLDERS.includes(key) ? '' : values[key];
+  });
+};
+
+// wa.me needs the number with country code and no symbols; bare 10-digit numbers are Indian
+export const toWhatsAppNumber = (phone: string) => {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  if (digits.length === 10) digits = '91' + digits;
+  return digits;
+};
+
+export const whatsAppLink = (phone: string, text: string) =>
+  `https://wa.me/${toWhatsAppNumber(phone)}?text=${encodeURIComponent(text)}`;
@@ -0,0 +1,299 @@
+// On-device panchang for Mathura: tithi, paksha, nakshatra, lunar month, sunrise and
+// sunset, and the major Braj festivals. Positions of the sun and moon come from the
+// shortened series in Meeus, "Astronomical Algorithms" (ch. 25 and 47), which are
+// good to a few minutes of a tithi change; sunrise uses the NOAA method.
+//
+// Dates are Indian calendar days ('YYYY-MM-DD' in IST) whatever the phone's time zone.
+
+const DAY = 24 * 60 * 60 * 1000;
+const IST_OFFSET = 5.5 * 60 * 60 * 1000;
+const SYNODIC_MONTH = 29.530588853;
+const RAD = Math.PI / 180;
+
+export const MATHURA = { latitude: 27.4924, longitude: 77.6737 };
+
+export const TITHI_NAMES = [
+  'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami', 'Shashthi', 'Saptami', 'Ashtami',
+  'Navami', 'Dashami', 'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi'
+];
+
+export const NAKSHATRA_NAMES = [
+  'Ashwini', 'Bharani', 'Krittika', 'Rohini', 'Mrigashira', 'Ardra', 'Punarvasu', 'Pushya', 'Ashlesha',
+  'Magha', 'Purva Phalguni', 'Uttara Phalguni', 'Hasta', 'Chitra', 'Swati', 'Vishakha', 'Anuradha', 'Jyeshtha',
+  'Mula', 'Purva Ashadha', 'Uttara Ashadha', 'Shravana', 'Dhanishta', 'Shatabhisha', 'Purva Bhadrapada', 'Uttara Bhadrapada', 'Revati'
+];
+
+// Amanta order: the month that starts with the new moon while the sun is in Meena is Chaitra
+export const MONTH_NAMES = [
+  'Chaitra', 'Vaishakha', 'Jyeshtha', 'Ashadha', 'Shravana', 'Bhadrapada',
+  'Ashvin', 'Kartik', 'Margashirsha', 'Pausha', 'Magha', 'Phalguna'
+];
+
+export type Paksha = 'Shukla' | 'Krishna';
+
+// Part of the day a festival's tithi must be present in
+type Kaal = 'sunrise' | 'sunset' | 'midnight';
+
+export interface Festival {
+  id: string;
+  name: string;
+  note?: string;
+}
+
+interface FestivalRule extends Festival {
+  month: number; // Amanta month index
+  tithi: number; // 1-30 (16-30 = Krishna paksha)
+  kaal: Kaal;
+  after?: string; // Kept on the day after this festival instead of by its own tithi
+}
+
+// Braj observances; a festival falls on the first day its tithi holds at the given time
+const FESTIVALS: FestivalRule[] = [
+  { id: 'rama_navami', name: 'Rama Navami', month: 0, tithi: 9, kaal: 'sunrise' },
+  { id: 'akshaya_tritiya', name: 'Akshaya Tritiya', note: 'Charan darshan at Banke Bihari', month: 1, tithi: 3, kaal: 'sunrise' },
+  { id: 'devshayani', name: 'Devshayani Ekadashi', note: 'Chaturmas begins', month: 3, tithi: 11, kaal: 'sunrise' },
+  { id: 'guru_purnima', name: 'Guru Purnima', note: 'Mudiya Purnima mela, Govardhan', month: 3, tithi: 15, kaal: 'sunrise' },
+  { id: 'hariyali_teej', name: 'Hariyali Teej', note: 'Swing festival in Vrindavan', month: 4, tithi: 3, kaal: 'sunrise' },
+  { id: 'raksha_bandhan', name: 'Raksha Bandhan', month: 4, tithi: 15, kaal: 'sunrise' },
+  { id: 'janmashtami', name: 'Janmashtami', note: 'Shri Krishna Janmabhoomi', month: 4, tithi: 23, kaal: 'sunrise' },
+  { id: 'nandotsav', name: 'Nandotsav', note: 'Nandgaon and Gokul', month: 4, tithi: 24, kaal: 'sunrise' },
+  { id: 'radhashtami', name: 'Radhashtami', note: 'Barsana', month: 5, tithi: 8, kaal: 'sunrise' },
+  { id: 'sharad_purnima', name: 'Sharad Purnima', note: 'Kartik snan begins', month: 6, tithi: 15, kaal: 'sunset' },
+  { id: 'ahoi_ashtami', name: 'Ahoi Ashtami', note: 'Radha Kund midnight snan', month: 6, tithi: 23, kaal: 'sunset' },
+  { id: 'dhanteras', name: 'Dhanteras', month: 6, tithi: 28, kaal: 'sunset' },
+  { id: 'diwali', name: 'Diwali', month: 6, tithi: 30, kaal: 'sunset' },
+  { id: 'govardhan_puja', name: 'Govardhan Puja / Annakut', month: 7, tithi: 1, kaal: 'sunrise' },
+  { id: 'yama_dwitiya', name: 'Yama Dwitiya / Bhai Dooj', note: 'Vishram Ghat Yamuna snan', month: 7, tithi: 2, kaal: 'sunrise' },
+  { id: 'gopashtami', name: 'Gopashtami', month: 7, tithi: 8, kaal: 'sunrise' },
+  { id: 'akshaya_navami', name: 'Akshaya Navami', note: 'Mathura parikrama', month: 7, tithi: 9, kaal: 'sunrise' },
+  { id: 'dev_uthani', name: 'Dev Uthani Ekadashi', note: 'Chaturmas ends', month: 7, tithi: 11, kaal: 'sunrise' },
+  { id: 'kartik_purnima', name: 'Kartik Purnima', month: 7, tithi: 15, kaal: 'sunrise' },
+  { id: 'vasant_panchami', name: 'Vasant Panchami', month: 10, tithi: 5, kaal: 'sunrise' },
+  { id: 'maha_shivaratri', name: 'Maha Shivaratri', month: 10, tithi: 29, kaal: 'midnight' },
+  { id: 'lathmar_barsana', name: 'Lathmar Holi', note: 'Barsana', month: 11, tithi: 9, kaal: 'sunrise' },
+  { id: 'lathmar_nandgaon', name: 'Lathmar Holi', note: 'Nandgaon', month: 11, tithi: 10, kaal: 'sunrise' },
+  { id: 'holika_dahan', name: 'Holika Dahan', month: 11, tithi: 15, kaal: 'sunset' },
+  { id: 'holi', name: 'Holi', note: 'Dhulandi', month: 11, tithi: 16, kaal: 'sunrise', after: 'holika_dahan' }
+];
+
+export interface PanchangDay {
+  date: string;
+  sunrise: number;
+  sunset: number;
+  tithi: number; // 1-30 at sunrise
+  tithiName: string;
+  paksha: Paksha;
+  nakshatra: string;
+  month: string; // Purnimanta (North Indian) name, as used in Braj
+  adhik: boolean; // Extra month; festivals are not kept in it
+  festivals: Festival[];
+  vrat?: 'Ekadashi' | 'Purnima' | 'Amavasya';
+}
+
+// --- Astronomy ---
+
+const norm360 = (deg: number) => ((deg % 360) + 360) % 360;
+const norm180 = (deg: number) => {
+  const d = norm360(deg);
+  return d > 180 ? d - 360 : d;
+};
+const sin = (deg: number) => Math.sin(deg * RAD);
+const cos = (deg: number) => Math.cos(deg * RAD);
+
+// Julian centuries since J2000.0
+const centuries = (time: number) => (time / DAY + 2440587.5 - 2451545.0) / 36525;
+
+const sunPosition = (time: number) => {
+  const T = centuries(time);
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = 357.52911 + 35999.05029 * T - 0.0001537 * T * T;
+  const C = (1.914602 - 0.004817 * T - 0.000014 * T * T) * sin(M)
+    + (0.019993 - 0.000101 * T) * sin(2 * M)
+    + 0.000289 * sin(3 * M);
+  const omega = 125.04 - 1934.136 * T;
+  return { meanLongitude: L0, longitude: norm360(L0 + C - 0.00569 - 0.00478 * sin(omega)), T };
+};
+
+export const sunLongitude = (time: number) => sunPosition(time).longitude;
+
+// Largest periodic terms of the moon's longitude: [D, M, M', F, coefficient in 1e-6 degrees]
+const MOON_TERMS: [number, number, number, number, number][] = [
+  [0, 0, 1, 0, 6288774], [2, 0, -1, 0, 1274027], [2, 0, 0, 0, 658314], [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116], [0, 0, 0, 2, -114332], [2, 0, -2, 0, 58793], [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322], [2, -1, 0, 0, 45758], [0, 1, -1, 0, -40923], [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383], [2, 0, 0, -2, 15327], [0, 0, 1, 2, -12528], [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675], [0, 0, 3, 0, 10034], [4, 0, -2, 0, 8548], [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766], [1, 0, -1, 0, -5163], [1, 1, 0, 0, 4987], [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994], [4, 0, 0, 0, 3861], [2, 0, -3, 0, 3665], [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602], [2, -1, -2, 0, 2390], [1, 0, 1, 0, -2348], [2, -2, 0, 0, 2236]
+];
+
+export const moonLongitude = (time: number) => {
+  const T = centuries(time);
+  const Lp = 218.3164477 + 481267.88123421 * T;
+  const D = 297.8501921 + 445267.1114034 * T;
+  const M = 357.5291092 + 35999.0502909 * T;
+  const Mp = 134.9633964 + 477198.8675055 * T;
+  const F = 93.2720950 + 483202.0175233 * T;
+  const E = 1 - 0.002516 * T;
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.290 * T;
+
+  let sum = 3958 * sin(A1) + 1962 * sin(Lp - F) + 318 * sin(A2);
+  MOON_TERMS.forEach(([d, m, mp, f, coefficient]) => {
+    const eccentricity = Math.abs(m) === 1 ? E : Math.abs(m) === 2 ? E * E : 1;
+    sum += coefficient * eccentricity * sin(d * D + m * M + mp * Mp + f * F);
+  });
+  const omega = 125.04 - 1934.136 * T;
+  return norm360(Lp + sum / 1e6 - 0.00478 * sin(omega));
+};
+
+// Lahiri ayanamsa, for the sidereal positions used by nakshatras and lunar months
+const ayanamsa = (time: number) => 23.853 + 0.0139694 * (centuries(time) * 100);
+
+const elongation = (time: number) => norm360(moonLongitude(time) - sunLongitude(time));
+
+export const tithiAt = (time: number) => Math.floor(elongation(time) / 12) + 1;
+
+export const nakshatraAt = (time: number) => Math.floor(norm360(moonLongitude(time) - ayanamsa(time)) / (360 / 27));
+
+const siderealSign = (time: number) => Math.floor(norm360(sunLongitude(time) - ayanamsa(time)) / 30);
+
+// The last new moon at or before the given time
+const newMoonBefore = (time: number) => {
+  let guess = time - (elongation(time) / 360) * SYNODIC_MONTH * DAY;
+  for (let i = 0; i < 4; i++) {
+    guess -= (norm180(elongation(guess)) / 360) * SYNODIC_MONTH * DAY;
+  }
+  return guess;
+};
+
+// Amanta lunar month a moment belongs to
+const monthCache = new Map<number, { index: number, adhik: boolean }>();
+const lunarMonthAt = (time: number) => {
+  const start = newMoonBefore(time);
+  const key = Math.round(start / (60 * 60 * 1000));
+  const cached = monthCache.get(key);
+  if (cached) return cached;
+  const sign = siderealSign(start);
+  // No sankranti before the next new moon: an adhik (extra) month
+  const adhik = siderealSign(newMoonBefore(start + 30 * DAY)) === sign;
+  const month = { index: (sign + 1) % 12, adhik };
+  monthCache.set(key, month);
+  return month;
+};
+
+// --- Sunrise / Sunset ---
+
+// Start of an Indian calendar day as a UTC time
+const dayStart = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) - IST_OFFSET;
+};
+
+const addDays = (date: string, days: number) => new Date(dayStart(date) + IST_OFFSET + days * DAY + 12 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export const todayInIndia = (now: number = Date.now()) => new Date(now + IST_OFFSET).toISOString().slice(0, 10);
+
+// Sunrise and sunset at Mathura, including refraction (sun 0.833° below the horizon)
+export const sunTimes = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const utcMidnight = Date.UTC(y, m - 1, d);
+  const { meanLongitude, longitude, T } = sunPosition(utcMidnight + 12 * 60 * 60 * 1000 - IST_OFFSET);
+  const obliquity = 23.439291 - 0.0130042 * T;
+  const declination = Math.asin(sin(obliquity) * sin(longitude)) / RAD;
+  const rightAscension = Math.atan2(cos(obliquity) * sin(longitude), cos(longitude)) / RAD;
+  const equationOfTime = 4 * norm180(meanLongitude - 0.0057183 - rightAscension); // Minutes
+  const solarNoon = 720 - 4 * MATHURA.longitude - equationOfTime; // Minutes after 00:00 UTC
+  const hourAngle = Math.acos(
+    (cos(90.833) - sin(MATHURA.latitude) * sin(declination)) / (cos(MATHURA.latitude) * cos(declination))
+  ) / RAD;
+  return {
+    sunrise: utcMidnight + (solarNoon - 4 * hourAngle) * 60 * 1000,
+    sunset: utcMidnight + (solarNoon + 4 * hourAngle) * 60 * 1000
+  };
+};
+
+const kaalTime = (date: string, kaal: Kaal) => {
+  const times = sunTimes(date);
+  if (kaal === 'sunrise') return times.sunrise;
+  if (kaal === 'sunset') return times.sunset;
+  return (times.sunset + sunTimes(addDays(date, 1)).sunrise) / 2; // Nishita, the middle of the night
+};
+
+// --- Days ---
+
+export const tithiLabel = (tithi: number) => {
+  if (tithi === 15) return 'Purnima';
+  if (tithi === 30) return 'Amavasya';
+  return TITHI_NAMES[(tithi - 1) % 15];
+};
+
+export const pakshaOf = (tithi: number): Paksha => (tithi <= 15 ? 'Shukla' : 'Krishna');
+
+// Tithis that belong to a day at the given time: the one holding then (unless it already
+// held the day before) and any that start and end before the next day (kshaya tithis)
+const tithisOfDay = (date: string, kaal: Kaal) => {
+  const before = tithiAt(kaalTime(addDays(date, -1), kaal));
+  const time = kaalTime(date, kaal);
+  const nextTime = kaalTime(addDays(date, 1), kaal);
+  const current = tithiAt(time);
+  const next = tithiAt(nextTime);
+  const month = lunarMonthAt(time);
+  const result: { tithi: number, month: { index: number, adhik: boolean } }[] = [];
+  if (current !== before) result.push({ tithi: current, month });
+  // A tithi still holding the next day (vriddhi) leaves nothing skipped
+  for (let t = (current % 30) + 1; next !== current && t !== next; t = (t % 30) + 1) {
+    result.push({ tithi: t, month: t < current ? lunarMonthAt(nextTime) : month });
+  }
+  return result;
+};
+
+const festivalRulesOn = (date: string): FestivalRule[] => {
+  const byKaal = new Map<Kaal, ReturnType<typeof tithisOfDay>>();
+  return FESTIVALS.filter(rule => {
+    if (rule.after) return false;
+    if (!byKaal.has(rule.kaal)) byKaal.set(rule.kaal, tithisOfDay(date, rule.kaal));
+    return byKaal.get(rule.kaal)!.some(t => t.tithi === rule.tithi && t.month.index === rule.month && !t.month.adhik);
+  });
+};
+
+const festivalsOn = (date: string): Festival[] => {
+  const previous = festivalRulesOn(addDays(date, -1)).map(rule => rule.id);
+  return [...festivalRulesOn(date), ...FESTIVALS.filter(rule => rule.after && previous.includes(rule.after))]
+    .map(({ id, name, note }) => ({ id, name, note }));
+};
+
+export const panchangFor = (date: string): PanchangDay => {
+  const { sunrise, sunset } = sunTimes(date);
+  const tithi = tithiAt(sunrise);
+  const month = lunarMonthAt(sunrise);
+  // North Indian months run full moon to full moon, so the dark half takes the next name;
+  // an adhik month is kept new moon to new moon, so both of its halves keep its name
+  const monthIndex = tithi > 15 && !month.adhik ? (month.index + 1) % 12 : month.index;
+  const vrat = tithi === 11 || tithi === 26 ? 'Ekadashi' : tithi === 15 ? 'Purnima' : tithi === 30 ? 'Amavasya' : undefined;
+  return {
+    date,
+    sunrise,
+    sunset,
+    tithi,
+    tithiName: tithiLabel(tithi),
+    paksha: pakshaOf(tithi),
+    nakshatra: NAKSHATRA_NAMES[nakshatraAt(sunrise)],
+    month: MONTH_NAMES[monthIndex],
+    adhik: month.adhik,
+    festivals: festivalsOn(date),
+    vrat
+  };
+};
+
+// Days with a festival, Ekadashi, Purnima or Amavasya from the given day on
+export const auspiciousDays = (from: string, days: number): PanchangDay[] =>
+  Array.from({ length: days }, (_, i) => panchangFor(addDays(from, i)))
+    .filter(day => day.festivals.length > 0 || !!day.vrat);
+
+export const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', timeZone: 'Asia/Kolkata' });
+
+export const describeDay = (day: PanchangDay) =>
+  `${day.adhik ? 'Adhik ' : ''}${day.month} ${day.paksha} ${day.tithiName}`;
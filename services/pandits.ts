@@ -0,0 +1,32 @@
+import { Contact } from '../types';
+import { PANDIT_CONTACTS } from '../constants';
+
+const ACTIVE_PANDIT_KEY = 'yatra_active_pandit';
+
+export const findPandit = (id?: string): Contact | undefined =>
+  id ? PANDIT_CONTACTS.find(c => c.id === id) : undefined;
+
+export const panditName = (id?: string) => findPandit(id)?.name || 'Not assigned';
+
+// Family member using this phone, remembered between app starts
+export const getActivePanditId = (): string | null => {
+  try {
+    const id = localStorage.getItem(ACTIVE_PANDIT_KEY);
+    return findPandit(id || undefined) ? id : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const setActivePanditId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_PANDIT_KEY, id);
+    else localStorage.removeItem(ACTIVE_PANDIT_KEY);
+  } catch (e) {
+    console.warn("Could not remember the active pandit", e);
+  }
+};
+
+// Entries the pandit either registered or is performing
+export const involvesPandit = (entry: { registeredBy?: string, performedBy?: string }, id: string) =>
+  entry.registeredBy === id || entry.performedBy === id;
@@ -0,0 +1,67 @@
+import { ClientEntry, PaymentMode, PaymentTransaction, PaymentType } from '../types';
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  bank: 'Bank'
+};
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  advance: 'Advance',
+  dakshina: 'Dakshina',
+  balance: 'Balance'
+};
+
+const inrFormatter = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  maximumFractionDigits: 0
+});
+
+export const formatINR = (amount: number) => inrFormatter.format(amount || 0);
+
+export const totalPaid = (entry: Pick<ClientEntry, 'payments'>) =>
+  (entry.payments || []).reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+
+// Positive = still owed by the pilgrim, negative = overpaid
+export const outstandingBalance = (entry: Pick<ClientEntry, 'payments' | 'agreedTotal'>) =>
+  (Number(entry.agreedTotal) || 0) - totalPaid(entry);
+
+export const createPayment = (overrides: Partial<PaymentTransaction> = {}): PaymentTransaction => ({
+  id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+  amount: 0,
+  mode: 'cash',
+  type: 'advance',
+  date: Date.now(),
+  reference: '',
+  ...overrides
+});
+
+export const describePayment = (p: PaymentTransaction) =>
+  `${formatINR(p.amount)} ${PAYMENT_MODE_LABELS[p.mode]} ${PAYMENT_TYPE_LABELS[p.type]} (${new Date(p.date).toLocaleDateString()}${p.reference ? ', ' + p.reference : ''})`;
+
+// 'YYYY-MM-DD' in local time, for <input type="date">
+export const toDateInputValue = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const fromDateInputValue = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1).getTime();
+};
+
+// Records saved before structured payments only had a free-text 'paymentDetails'
+// string. Keep that text as a legacy note and start with an empty transaction list.
+export const migrateLegacyPayment = (raw: any): ClientEntry => {
+  if (Array.isArray(raw.payments)) return raw as ClientEntry;
+
+  const { paymentDetails, ...rest } = raw;
+  const legacyNote = typeof paymentDetails === 'string' ? paymentDetails.trim() : '';
+  return {
+    ...rest,
+    payments: [],
+    agreedTotal: 0,
+    paymentNotes: legacyNote || undefined
+  } as ClientEntry;
+};
@@ -0,0 +1,77 @@
+import { ClientEntry, Person } from '../types';
+import { dbService } from './db';
+import { createPerson } from './lineage';
+import { totalPaid, outstandingBalance } from './payments';
+
+// Compare phone numbers on their last 10 digits so "+91 98765-43210" matches "9876543210"
+export const normalizePhone = (phone: string = '') => phone.replace(/\D/g, '').slice(-10);
+
+export const findPilgrimsByPhone = (phone: string, people: Person[]) => {
+  const key = normalizePhone(phone);
+  if (key.length < 10) return [];
+  return people.filter(p => p.phone && normalizePhone(p.phone) === key);
+};
+
+// Visits of one pilgrim, newest first
+export const visitsOf = (personId: string, entries: ClientEntry[]) =>
+  entries.filter(e => e.personId === personId).sort((a, b) => b.timestamp - a.timestamp);
+
+// Visits of several pilgrims read through the profile index, newest first
+export const loadVisits = async (personIds: string[]) =>
+  personIds.length === 0 ? [] : (await dbService.getClientsByPeople(personIds)).sort((a, b) => b.timestamp - a.timestamp);
+
+export const pilgrimTotals = (visits: ClientEntry[]) => ({
+  visits: visits.length,
+  paid: visits.reduce((sum, v) => sum + totalPaid(v), 0),
+  outstanding: visits.reduce((sum, v) => sum + Math.max(outstandingBalance(v), 0), 0)
+});
+
+export const pilgrimFromEntry = (entry: ClientEntry): Person => createPerson({
+  name: entry.clientName,
+  phone: entry.phone,
+  address: entry.address,
+  photoId: entry.photoId,
+  createdAt: entry.timestamp
+});
+
+// Fills in blank profile fields from a newer visit without overwriting what is already known
+export const refreshProfile = (person: Person, entry: ClientEntry): Person | null => {
+  const updated: Person = {
+    ...person,
+    phone: person.phone || entry.phone || undefined,
+    address: person.address || entry.address || undefined,
+    photoId: entry.photoId || person.photoId
+  };
+  const changed = updated.phone !== person.phone || updated.address !== person.address || updated.photoId !== person.photoId;
+  return changed ? updated : null;
+};
+
+// Records created before pilgrim profiles existed are standalone visits. Group them
+// by phone number (oldest visit first) and attach each group to one profile, reusing
+// a profile that already has the same phone.
+export const linkUnassignedVisits = (entries: ClientEntry[], people: Person[]) => {
+  const byPhone = new Map<string, Person>();
+  people.forEach(p => {
+    const key = normalizePhone(p.phone);
+    if (key && !byPhone.has(key)) byPhone.set(key, p);
+  });
+
+  const newPeople: Person[] = [];
+  const linkedEntries: ClientEntry[] = [];
+
+  [...entries]
+    .filter(e => !e.personId)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(entry => {
+      const key = normalizePhone(entry.phone);
+      let person = key ? byPhone.get(key) : undefined;
+      if (!person) {
+        person = pilgrimFromEntry(entry);
+        newPeople.push(person);
+        if (key) byPhone.set(key, person);
+      }
+      linkedEntries.push({ ...entry, personId: person.id });
+    });
+
+  return { linkedEntries, newPeople };
+};
@@ -0,0 +1,279 @@
+// QR codes for receipt codes, made and read entirely on the phone.
+// The encoder covers what receipts need: byte mode, error correction level M
+// (about 15% of the symbol can be damaged), versions 1-6 (up to 106 characters).
+// Reading uses the browser's built-in BarcodeDetector where available, and the bundled
+// jsQR decoder on camera frames elsewhere (iOS Safari, Firefox).
+
+import jsQR from 'jsqr';
+
+// Per version at level M: error correction codewords per block, number of blocks, data codewords per block
+const VERSIONS: { ecPerBlock: number, blocks: number, dataPerBlock: number }[] = [
+  { ecPerBlock: 10, blocks: 1, dataPerBlock: 16 },
+  { ecPerBlock: 16, blocks: 1, dataPerBlock: 28 },
+  { ecPerBlock: 26, blocks: 1, dataPerBlock: 44 },
+  { ecPerBlock: 18, blocks: 2, dataPerBlock: 32 },
+  { ecPerBlock: 24, blocks: 2, dataPerBlock: 43 },
+  { ecPerBlock: 16, blocks: 4, dataPerBlock: 27 }
+];
+
+const FORMAT_BITS_LEVEL_M = 0;
+
+// --- Reed-Solomon over GF(256) ---
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// --- Codewords ---
+
+const toCodewords = (text: string, version: number) => {
+  const { ecPerBlock, blocks, dataPerBlock } = VERSIONS[version - 1];
+  const capacity = blocks * dataPerBlock;
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, 8);
+  bytes.forEach(b => append(b, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  // Split into blocks, add error correction, then interleave
+  const divisor = rsDivisor(ecPerBlock);
+  const dataBlocks = Array.from({ length: blocks }, (_, i) => data.slice(i * dataPerBlock, (i + 1) * dataPerBlock));
+  const ecBlocks = dataBlocks.map(block => rsRemainder(block, divisor));
+  const result: number[] = [];
+  for (let i = 0; i < dataPerBlock; i++) dataBlocks.forEach(block => result.push(block[i]));
+  for (let i = 0; i < ecPerBlock; i++) ecBlocks.forEach(block => result.push(block[i]));
+  return result;
+};
+
+// --- Matrix ---
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+const buildMatrix = (codewords: number[], version: number, mask: number) => {
+  const size = version * 4 + 17;
+  const modules: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+  const reserved: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  // Versions 2-6 have one alignment pattern, near the bottom-right corner
+  if (version > 1) {
+    const centre = size - 7;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        set(centre + dx, centre + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  // Format information (error correction level and mask), stored twice
+  const formatData = (FORMAT_BITS_LEVEL_M << 3) | mask;
+  let remainder = formatData;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const format = ((formatData << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((format >>> i) & 1) === 1;
+  for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+  set(8, 7, bit(6));
+  set(8, 8, bit(7));
+  set(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+  set(8, size - 8, true); // Always dark
+
+  // Data in two-column zigzags from the bottom-right, skipping the vertical timing column
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const y = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (reserved[y][x]) continue;
+        const dark = index < codewords.length * 8 && ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+        modules[y][x] = dark !== MASKS[mask](x, y);
+        index++;
+      }
+    }
+  }
+  return modules;
+};
+
+// Standard penalty rules; the mask with the lowest score is easiest to scan
+const penalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules.map(row => row),
+    ...modules.map((_, x) => modules.map(row => row[x]))
+  ];
+
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    const text = line.map(m => (m ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) score += 40;
+    }
+  });
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+};
+
+// Module grid (true = dark) without the quiet zone
+export const encodeQr = (text: string): boolean[][] => {
+  const length = new TextEncoder().encode(text).length;
+  const version = VERSIONS.findIndex(v => v.blocks * v.dataPerBlock - 2 >= length) + 1;
+  if (version === 0) throw new Error("Text too long for a receipt QR code");
+
+  const codewords = toCodewords(text, version);
+  let best: boolean[][] | null = null;
+  let bestScore = Infinity;
+  MASKS.forEach((_, mask) => {
+    const candidate = buildMatrix(codewords, version, mask);
+    const score = penalty(candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best!;
+};
+
+// --- Scanning ---
+
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorLike { detect: (source: CanvasImageSource) => Promise<DetectedBarcode[]> }
+
+declare global {
+  interface Window {
+    // Not in TypeScript's DOM library yet
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+type QrReader = (video: HTMLVideoElement) => Promise<string | null>;
+
+// Frames are scaled down to this width for jsQR, which is plenty for a receipt held up to the camera
+const FRAME_WIDTH = 640;
+
+// Any browser with a camera can scan: jsQR needs nothing more than a canvas
+export const isQrScanSupported = () => !!window.BarcodeDetector || !!navigator.mediaDevices?.getUserMedia;
+
+const detectorReader = (): QrReader | null => {
+  if (!window.BarcodeDetector) return null;
+  try {
+    const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+    return async (video) => {
+      const codes = await detector.detect(video);
+      return codes.length > 0 ? codes[0].rawValue : null;
+    };
+  } catch (e) {
+    // Some desktop builds have the API without QR support
+    return null;
+  }
+};
+
+const canvasReader = (): QrReader | null => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  return async (video) => {
+    if (!video.videoWidth || !video.videoHeight) return null;
+    const scale = Math.min(1, FRAME_WIDTH / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data || null;
+  };
+};
+
+// Returns a reader for video frames, or null when the browser cannot decode QR codes
+export const createQrReader = (): QrReader | null => detectorReader() || canvasReader();
@@ -0,0 +1,156 @@
+import { dbService } from './db';
+import { getDeviceId } from './device';
+
+// Receipt codes: PREFIX[YY]-MMDD-TAGSEQ plus a check digit, e.g. YATRA26-1019-KP0076.
+// The sequence restarts every day and is taken from the highest code already stored
+// for that day. Other phones cannot be asked while offline, so each phone puts its own
+// tag in front of the sequence to keep their codes apart. The check digit (Damm
+// algorithm) catches any single wrong digit and any two swapped neighbouring digits.
+
+const FORMAT_KEY = 'yatra_receipt_format';
+
+export interface ReceiptFormat {
+  prefix: string; // e.g. 'YATRA' or a season name
+  includeYear: boolean;
+  // One or two letters per phone; filled in from the device id when left empty
+  deviceTag: string;
+  sequenceDigits: number;
+}
+
+export const DEFAULT_RECEIPT_FORMAT: ReceiptFormat = { prefix: 'YATRA', includeYear: true, deviceTag: '', sequenceDigits: 3 };
+
+// Two letters picked by the device id, so phones nobody set up still differ
+export const automaticDeviceTag = () => {
+  const hash = getDeviceId().split('').reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+  const letter = (n: number) => String.fromCharCode(65 + (n % 26));
+  return letter(hash) + letter(Math.floor(hash / 26));
+};
+
+// Codes only use capitals and digits
+export const normalizeReceiptFormat = (format: ReceiptFormat): ReceiptFormat => ({
+  ...format,
+  prefix: format.prefix.toUpperCase().replace(/[^A-Z0-9]/g, '') || DEFAULT_RECEIPT_FORMAT.prefix,
+  deviceTag: format.deviceTag.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 2) || automaticDeviceTag()
+});
+
+export const loadReceiptFormat = (): ReceiptFormat => {
+  try {
+    return normalizeReceiptFormat({ ...DEFAULT_RECEIPT_FORMAT, ...JSON.parse(localStorage.getItem(FORMAT_KEY) || '{}') });
+  } catch (e) {
+    return normalizeReceiptFormat(DEFAULT_RECEIPT_FORMAT);
+  }
+};
+
+export const saveReceiptFormat = (format: ReceiptFormat) => {
+  localStorage.setItem(FORMAT_KEY, JSON.stringify(normalizeReceiptFormat(format)));
+};
+
+// --- Check Digit ---
+
+const DAMM_TABLE = [
+  [0, 3, 1, 7, 5, 9, 8, 6, 4, 2],
+  [7, 0, 9, 2, 1, 5, 4, 8, 6, 3],
+  [4, 2, 0, 6, 8, 7, 1, 3, 5, 9],
+  [1, 7, 5, 0, 9, 8, 3, 4, 2, 6],
+  [6, 1, 2, 3, 0, 4, 5, 9, 7, 8],
+  [3, 6, 7, 4, 2, 0, 9, 5, 8, 1],
+  [5, 8, 6, 9, 7, 2, 0, 1, 3, 4],
+  [8, 9, 4, 5, 3, 6, 2, 0, 1, 7],
+  [9, 4, 3, 8, 6, 1, 7, 2, 0, 5],
+  [2, 5, 8, 1, 4, 3, 6, 7, 9, 0]
+];
+
+const damm = (digits: string) => digits.split('').reduce((interim, d) => DAMM_TABLE[interim][Number(d)], 0);
+
+const digitsOf = (text: string) => text.replace(/\D/g, '');
+
+const CODE_PATTERN = /^[A-Z0-9]+-\d{4}-[A-Z]{0,2}\d{2,}$/;
+
+// True for codes in the current scheme whose check digit matches (older random codes are not checkable)
+export const isCheckableCode = (code: string) => CODE_PATTERN.test(code.trim().toUpperCase());
+
+export const hasValidCheckDigit = (code: string) => {
+  const normalized = code.trim().toUpperCase();
+  return CODE_PATTERN.test(normalized) && damm(digitsOf(normalized)) === 0;
+};
+
+// --- Generation ---
+
+const dayPrefix = (format: ReceiptFormat, date: Date) => {
+  const year = format.includeYear ? String(date.getFullYear()).slice(-2) : '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${format.prefix}${year}-${month}${day}-${format.deviceTag}`;
+};
+
+const buildCode = (prefix: string, sequence: number, digits: number) => {
+  const body = prefix + String(sequence).padStart(digits, '0');
+  return body + damm(digitsOf(body));
+};
+
+// Next code after the highest sequence found among 'existing' codes for the same day
+export const nextCodeFrom = (existing: string[], date: Date = new Date(), format: ReceiptFormat = loadReceiptFormat()) => {
+  const prefix = dayPrefix(format, date);
+  const highest = existing
+    .filter(code => code.startsWith(prefix) && /^\d+$/.test(code.slice(prefix.length)))
+    .reduce((max, code) => Math.max(max, Number(code.slice(prefix.length, -1)) || 0), 0);
+  return buildCode(prefix, highest + 1, format.sequenceDigits);
+};
+
+// Codes of records in the ledger and in the recycle bin (a restored record keeps its code)
+export const storedCodes = async (prefix: string = '') => {
+  const [codes, trash] = await Promise.all([dbService.getReceiptCodes(prefix), dbService.getTrash()]);
+  return [...codes, ...trash.map(t => t.entry.uniqueCode).filter(code => code.startsWith(prefix))];
+};
+
+export const generateReceiptCode = async (date: Date = new Date()) => {
+  const format = loadReceiptFormat();
+  return nextCodeFrom(await storedCodes(dayPrefix(format, date)), date, format);
+};
+
+// Re-checks a code right before saving; another record may have taken it meanwhile
+export const ensureUniqueCode = async (code: string) => {
+  const codes = await storedCodes(code);
+  return codes.includes(code) ? generateReceiptCode() : code;
+};
+
+// --- Suggestions ---
+
+// Typing mistakes between two codes; swapped neighbours count as one mistake
+const editDistance = (a: string, b: string) => {
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], twoBack[j - 2] + 1);
+      }
+    }
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Ignores case and spacing differences
+const normalizeCode = (text: string) => text.trim().toUpperCase().replace(/\s+/g, '').replace(/_/g, '-');
+
+// Looks like a receipt code rather than a name or phone number
+export const looksLikeCode = (text: string) => /^[A-Z]{2,}[A-Z0-9]*-?[0-9A-Z-]{3,}$/.test(normalizeCode(text)) && /\d/.test(text);
+
+// Closest existing codes to a mistyped one (at most two mistakes apart)
+export const suggestReceiptCodes = async (input: string, limit: number = 3): Promise<string[]> => {
+  const typed = normalizeCode(input);
+  const compact = (code: string) => code.replace(/-/g, '');
+  const maxDistance = Math.min(2, Math.floor(compact(typed).length / 4));
+
+  return (await dbService.getReceiptCodes())
+    .map(code => ({ code, distance: editDistance(compact(typed), compact(code)) }))
+    .filter(c => c.distance > 0 && c.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(c => c.code);
+};
@@ -0,0 +1,232 @@
+import { ClientEntry, PaymentMode } from '../types';
+import { dbService } from './db';
+import { findPandit } from './pandits';
+import { outstandingBalance, toDateInputValue } from './payments';
+import { normalizePhone } from './pilgrims';
+import { findRitual, ritualIdOf } from './rituals';
+
+// Totals for the reports view, read straight from the stored records. Bookings are
+// counted by the day they were registered; income by the date of each payment, so a
+// balance paid this month counts this month even for an older booking.
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_DAILY_BARS = 92;
+const TOP_ROWS = 8;
+
+export type ReportPeriod = '30d' | 'month' | 'year' | '12m' | 'all';
+
+export const REPORT_PERIODS: { key: ReportPeriod, label: string }[] = [
+  { key: '30d', label: 'Last 30 days' },
+  { key: 'month', label: 'This month' },
+  { key: '12m', label: 'Last 12 months' },
+  { key: 'year', label: 'This year' },
+  { key: 'all', label: 'All time' }
+];
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+export const periodRange = (period: ReportPeriod, now: number = Date.now()): { from?: number, to: number } => {
+  const today = new Date(now);
+  const to = startOfDay(now) + DAY - 1;
+  switch (period) {
+    case '30d': return { from: startOfDay(now) - 29 * DAY, to };
+    case 'month': return { from: new Date(today.getFullYear(), today.getMonth(), 1).getTime(), to };
+    case '12m': return { from: new Date(today.getFullYear(), today.getMonth() - 11, 1).getTime(), to };
+    case 'year': return { from: new Date(today.getFullYear(), 0, 1).getTime(), to };
+    default: return { to };
+  }
+};
+
+export interface SeriesPoint {
+  key: string;
+  label: string;
+  amount: number;
+  bookings: number;
+}
+
+export interface CountRow {
+  label: string;
+  count: number;
+  amount: number; // Received on these bookings (any date)
+}
+
+export interface ReportData {
+  bookings: number;
+  pilgrims: number;
+  received: number;
+  outstanding: number;
+  byMode: Record<PaymentMode, number>;
+  daily: SeriesPoint[];
+  monthly: SeriesPoint[];
+  seasons: SeriesPoint[];
+  rituals: CountRow[];
+  pandits: CountRow[];
+  states: CountRow[];
+}
+
+// --- Grouping ---
+
+// The first line of the plan names the ritual, e.g. "Rudrabhishek - 11 pandits" -> "Rudrabhishek"
+export const ritualOf = (servicePlan: string) => {
+  const firstLine = servicePlan.split('\n').map(l => l.trim()).find(Boolean) || '';
+  const name = firstLine.replace(/^[\d.)\-•*\s]+/, '').split(/[,:;(।|]| - /)[0].trim();
+  return name.slice(0, 40) || 'Not specified';
+};
+
+// Bookings of a catalog ritual are grouped under its catalog name
+export const ritualNameOf = (entry: ClientEntry) => findRitual(ritualIdOf(entry))?.name || ritualOf(entry.servicePlan);
+
+// Indian seasons; winter runs across the new year
+export const seasonOf = (timestamp: number): { key: string, label: string } => {
+  const d = new Date(timestamp);
+  const month = d.getMonth();
+  const year = d.getFullYear();
+  if (month >= 2 && month <= 5) return { key: `${year}-1`, label: `Summer ${year}` };
+  if (month >= 6 && month <= 8) return { key: `${year}-2`, label: `Monsoon ${year}` };
+  if (month >= 9 && month <= 10) return { key: `${year}-3`, label: `Kartik / Festive ${year}` };
+  const winterStart = month === 11 ? year : year - 1;
+  return { key: `${winterStart}-4`, label: `Winter ${winterStart}-${String(winterStart + 1).slice(-2)}` };
+};
+
+// State names (English and Hindi) and large cities pilgrims usually write instead
+const STATES: { name: string, match: string[] }[] = [
+  { name: 'Uttar Pradesh', match: ['uttar pradesh', 'u.p.', 'उत्तर प्रदेश', 'lucknow', 'kanpur', 'agra', 'mathura', 'vrindavan', 'varanasi', 'prayagraj', 'allahabad', 'aligarh', 'meerut', 'ghaziabad', 'noida', 'bareilly', 'gorakhpur'] },
+  { name: 'Rajasthan', match: ['rajasthan', 'राजस्थान', 'jaipur', 'jodhpur', 'udaipur', 'kota', 'ajmer', 'bikaner', 'bharatpur', 'alwar'] },
+  { name: 'Madhya Pradesh', match: ['madhya pradesh', 'm.p.', 'मध्य प्रदेश', 'bhopal', 'indore', 'gwalior', 'jabalpur', 'ujjain'] },
+  { name: 'Delhi', match: ['delhi', 'दिल्ली'] },
+  { name: 'Haryana', match: ['haryana', 'हरियाणा', 'gurgaon', 'gurugram', 'faridabad', 'panipat', 'rohtak', 'hisar'] },
+  { name: 'Punjab', match: ['punjab', 'पंजाब', 'ludhiana', 'amritsar', 'jalandhar', 'patiala'] },
+  { name: 'Gujarat', match: ['gujarat', 'गुजरात', 'ahmedabad', 'surat', 'vadodara', 'baroda', 'rajkot'] },
+  { name: 'Maharashtra', match: ['maharashtra', 'महाराष्ट्र', 'mumbai', 'bombay', 'pune', 'nagpur', 'nashik', 'thane'] },
+  { name: 'Bihar', match: ['bihar', 'बिहार', 'patna', 'gaya', 'bhagalpur', 'muzaffarpur'] },
+  { name: 'West Bengal', match: ['west bengal', 'bengal', 'बंगाल', 'kolkata', 'calcutta', 'howrah'] },
+  { name: 'Uttarakhand', match: ['uttarakhand', 'उत्तराखंड', 'dehradun', 'haridwar', 'rishikesh'] },
+  { name: 'Jharkhand', match: ['jharkhand', 'झारखंड', 'ranchi', 'jamshedpur', 'dhanbad'] },
+  { name: 'Chhattisgarh', match: ['chhattisgarh', 'छत्तीसगढ़', 'raipur', 'bilaspur'] },
+  { name: 'Odisha', match: ['odisha', 'orissa', 'ओडिशा', 'bhubaneswar', 'cuttack', 'puri'] },
+  { name: 'Assam', match: ['assam', 'असम', 'guwahati'] },
+  { name: 'Himachal Pradesh', match: ['himachal', 'हिमाचल', 'shimla'] },
+  { name: 'Jammu & Kashmir', match: ['jammu', 'kashmir', 'srinagar'] },
+  { name: 'Karnataka', match: ['karnataka', 'bangalore', 'bengaluru', 'mysore'] },
+  { name: 'Tamil Nadu', match: ['tamil nadu', 'chennai', 'madras', 'coimbatore'] },
+  { name: 'Telangana', match: ['telangana', 'hyderabad'] },
+  { name: 'Andhra Pradesh', match: ['andhra', 'visakhapatnam', 'vijayawada'] },
+  { name: 'Kerala', match: ['kerala', 'kochi', 'trivandrum'] },
+  { name: 'Chandigarh', match: ['chandigarh'] },
+  { name: 'Nepal', match: ['nepal', 'नेपाल', 'kathmandu'] }
+];
+
+export const stateOf = (address: string) => {
+  const text = ` ${address.toLowerCase()} `;
+  // Short forms need word boundaries ("up" appears inside many words)
+  if (/[\s,]u\.?p\.?[\s,]/.test(text)) return 'Uttar Pradesh';
+  if (/[\s,]m\.?p\.?[\s,]/.test(text)) return 'Madhya Pradesh';
+  return STATES.find(s => s.match.some(m => text.includes(m)))?.name || 'Not known';
+};
+
+// --- Building ---
+
+const monthKey = (timestamp: number) => toDateInputValue(timestamp).slice(0, 7);
+const monthLabel = (timestamp: number) => new Date(timestamp).toLocaleDateString('en-IN', { month: 'short', year: '2-digit' });
+const dayLabel = (timestamp: number) => new Date(timestamp).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+const bump = (map: Map<string, SeriesPoint>, key: string, label: string, amount: number, bookings: number) => {
+  const point = map.get(key) || { key, label, amount: 0, bookings: 0 };
+  point.amount += amount;
+  point.bookings += bookings;
+  map.set(key, point);
+};
+
+const count = (map: Map<string, CountRow>, label: string, amount: number) => {
+  const row = map.get(label) || { label, count: 0, amount: 0 };
+  row.count++;
+  row.amount += amount;
+  map.set(label, row);
+};
+
+const topRows = (map: Map<string, CountRow>) =>
+  Array.from(map.values()).sort((a, b) => b.count - a.count || b.amount - a.amount).slice(0, TOP_ROWS);
+
+// Fills every day / month of the range so quiet periods show as empty bars
+const fillSeries = (map: Map<string, SeriesPoint>, from: number, to: number, unit: 'day' | 'month') => {
+  const points: SeriesPoint[] = [];
+  const cursor = new Date(from);
+  cursor.setHours(12, 0, 0, 0);
+  if (unit === 'month') cursor.setDate(1);
+  while (cursor.getTime() <= to) {
+    const t = cursor.getTime();
+    const key = unit === 'day' ? toDateInputValue(t) : monthKey(t);
+    points.push(map.get(key) || { key, label: unit === 'day' ? dayLabel(t) : monthLabel(t), amount: 0, bookings: 0 });
+    if (unit === 'day') cursor.setDate(cursor.getDate() + 1);
+    else cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return points;
+};
+
+export const buildReport = async (period: ReportPeriod): Promise<ReportData> => {
+  const range = periodRange(period);
+  const inRange = (t: number) => (range.from === undefined || t >= range.from) && t <= range.to;
+
+  const daily = new Map<string, SeriesPoint>();
+  const monthly = new Map<string, SeriesPoint>();
+  const seasons = new Map<string, SeriesPoint>();
+  const rituals = new Map<string, CountRow>();
+  const pandits = new Map<string, CountRow>();
+  const states = new Map<string, CountRow>();
+  const pilgrims = new Set<string>();
+  const byMode: Record<PaymentMode, number> = { cash: 0, upi: 0, bank: 0 };
+  let bookings = 0;
+  let received = 0;
+  let outstanding = 0;
+  let earliest = range.to;
+
+  // Every record is visited: payments on older bookings can fall inside the range
+  await dbService.scanClients({}, null, (entry: ClientEntry) => {
+    entry.payments.forEach(p => {
+      if (!inRange(p.date)) return;
+      const amount = Number(p.amount) || 0;
+      received += amount;
+      byMode[p.mode] = (byMode[p.mode] || 0) + amount;
+      bump(daily, toDateInputValue(p.date), dayLabel(p.date), amount, 0);
+      bump(monthly, monthKey(p.date), monthLabel(p.date), amount, 0);
+      const season = seasonOf(p.date);
+      bump(seasons, season.key, season.label, amount, 0);
+      earliest = Math.min(earliest, p.date);
+    });
+
+    if (!inRange(entry.timestamp)) return;
+    const paid = entry.payments.reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+    bookings++;
+    outstanding += Math.max(0, outstandingBalance(entry));
+    pilgrims.add(entry.personId || normalizePhone(entry.phone) || entry.clientName.trim().toLowerCase());
+    bump(daily, toDateInputValue(entry.timestamp), dayLabel(entry.timestamp), 0, 1);
+    bump(monthly, monthKey(entry.timestamp), monthLabel(entry.timestamp), 0, 1);
+    const season = seasonOf(entry.timestamp);
+    bump(seasons, season.key, season.label, 0, 1);
+    count(rituals, ritualNameOf(entry), paid);
+    count(pandits, findPandit(entry.performedBy)?.name || 'Not assigned', paid);
+    count(states, stateOf(entry.address || ''), paid);
+    earliest = Math.min(earliest, entry.timestamp);
+  });
+
+  const from = range.from ?? startOfDay(earliest);
+  // Long ranges show the most recent days only
+  const dailyFrom = Math.max(from, startOfDay(range.to) - (MAX_DAILY_BARS - 1) * DAY);
+
+  return {
+    bookings,
+    pilgrims: pilgrims.size,
+    received,
+    outstanding,
+    byMode,
+    daily: fillSeries(daily, dailyFrom, range.to, 'day'),
+    monthly: fillSeries(monthly, from, range.to, 'month'),
+    seasons: Array.from(seasons.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    rituals: topRows(rituals),
+    pandits: topRows(pandits),
+    states: topRows(states)
+  };
+};
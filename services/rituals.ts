@@ -0,0 +1,174 @@
+import { ClientEntry, Ritual } from '../types';
+import { dbService } from './db';
+
+// Catalog of rituals with their standard dakshina and samagri. Kept in the database
+// and synced between phones; bookings store the ritual id so the ledger and reports
+// can group them whatever the plan text says.
+
+// Where the catalog was kept before it moved into the database
+const LEGACY_RITUALS_KEY = 'yatra_ritual_catalog';
+
+export const DEFAULT_RITUALS: Ritual[] = [
+  {
+    id: 'yamuna-pujan',
+    name: 'Yamuna Pujan',
+    nameHi: 'यमुना पूजन',
+    dakshina: 1100,
+    durationMinutes: 60,
+    samagri: ['Roli', 'Moli', 'Akshat (rice)', 'Phool mala', 'Chunri', 'Nariyal', 'Deepak & ghee', 'Agarbatti', 'Mishri', 'Dudh']
+  },
+  {
+    id: 'yamuna-deepdaan',
+    name: 'Yamuna Deepdaan',
+    nameHi: 'यमुना दीपदान',
+    dakshina: 501,
+    durationMinutes: 30,
+    samagri: ['Patte ke done', 'Diye', 'Ghee', 'Baati', 'Phool', 'Matchbox']
+  },
+  {
+    id: 'chappan-bhog',
+    name: 'Chappan Bhog',
+    nameHi: 'छप्पन भोग',
+    dakshina: 21000,
+    durationMinutes: 240,
+    samagri: ['56 bhog items (halwai order)', 'Thal & katoriyan', 'Tulsi dal', 'Phool shringar', 'Poshak', 'Itra', 'Aarti thali']
+  },
+  {
+    id: 'rudrabhishek',
+    name: 'Rudrabhishek',
+    nameHi: 'रुद्राभिषेक',
+    dakshina: 5100,
+    durationMinutes: 150,
+    samagri: ['Gangajal', 'Dudh', 'Dahi', 'Ghee', 'Shahad', 'Shakkar', 'Bilva patra', 'Dhatura', 'Bhasma', 'Chandan', 'Janeu', 'Akshat', 'Phool']
+  },
+  {
+    id: 'satyanarayan-katha',
+    name: 'Satyanarayan Katha',
+    nameHi: 'सत्यनारायण कथा',
+    dakshina: 2100,
+    durationMinutes: 120,
+    samagri: ['Kela patte', 'Panchamrit', 'Panjiri', 'Tulsi', 'Roli & moli', 'Supari', 'Paan', 'Nariyal', 'Kalash', 'Deepak & ghee']
+  },
+  {
+    id: 'govardhan-parikrama',
+    name: 'Govardhan Parikrama',
+    nameHi: 'गोवर्धन परिक्रमा',
+    dakshina: 2100,
+    durationMinutes: 360,
+    samagri: ['Dudh for dhara', 'Phool mala', 'Deepak & ghee', 'Prasad']
+  },
+  {
+    id: 'dandavat-parikrama',
+    name: 'Dandavat Parikrama',
+    nameHi: 'दंडवत परिक्रमा',
+    dakshina: 11000,
+    durationMinutes: 7 * 24 * 60,
+    samagri: ['Kankar (108 stones)', 'Gaddi / knee pads', 'Dudh for dhara', 'Phool mala', 'Prasad']
+  },
+  {
+    id: 'shraddh-tarpan',
+    name: 'Shraddh & Tarpan',
+    nameHi: 'श्राद्ध तर्पण',
+    dakshina: 1100,
+    durationMinutes: 90,
+    samagri: ['Kala til', 'Kusha', 'Jau', 'Gangajal', 'Janeu', 'Safed phool', 'Pind (atta, til, ghee)']
+  },
+  {
+    id: 'mundan',
+    name: 'Mundan Sanskar',
+    nameHi: 'मुंडन संस्कार',
+    dakshina: 1100,
+    durationMinutes: 60,
+    samagri: ['Roli & moli', 'Akshat', 'Haldi', 'Dahi', 'Nariyal', 'Naya vastra', 'Mithai']
+  }
+];
+
+// Every stored ritual, removed ones included; empty until the catalog is first changed
+let stored: Ritual[] = [];
+
+const byName = (a: Ritual, b: Ritual) => a.name.localeCompare(b.name);
+
+// Loads the catalog from the database, moving over one still kept in LocalStorage
+export const refreshRituals = async () => {
+  stored = await dbService.getRituals();
+  if (stored.length > 0) return;
+  try {
+    const legacy = JSON.parse(localStorage.getItem(LEGACY_RITUALS_KEY) || 'null');
+    if (Array.isArray(legacy) && legacy.length > 0) {
+      await dbService.saveRituals(legacy);
+      stored = await dbService.getRituals();
+    }
+    localStorage.removeItem(LEGACY_RITUALS_KEY);
+  } catch (e) {
+    console.warn("Could not move the ritual catalog into the database", e);
+  }
+};
+
+// Rituals offered when booking
+export const loadRituals = (): Ritual[] =>
+  stored.length > 0 ? stored.filter(r => !r.archived).sort(byName) : DEFAULT_RITUALS;
+
+// Includes removed rituals, so bookings made with them still show a name
+export const allRituals = (): Ritual[] => (stored.length > 0 ? stored : DEFAULT_RITUALS);
+
+// The first change stores the built-in rituals along with it, so other phones get the whole catalog
+const writeRituals = async (changed: Ritual[]) => {
+  const ids = new Set(changed.map(r => r.id));
+  const seed = stored.length > 0 ? [] : DEFAULT_RITUALS.filter(r => !ids.has(r.id));
+  await dbService.saveRituals([...seed, ...changed]);
+  stored = await dbService.getRituals();
+};
+
+export const saveRitual = (ritual: Ritual) => writeRituals([{ ...ritual, archived: false }]);
+
+export const removeRitual = (ritual: Ritual) => writeRituals([{ ...ritual, archived: true }]);
+
+// Brings back the built-in rituals as shipped and removes the ones added since
+export const resetRituals = () => {
+  const defaultIds = new Set(DEFAULT_RITUALS.map(r => r.id));
+  const added = stored.filter(r => !defaultIds.has(r.id) && !r.archived).map(r => ({ ...r, archived: true }));
+  return writeRituals([...DEFAULT_RITUALS, ...added]);
+};
+
+export const newRitualId = () => 'R' + Date.now().toString(36);
+
+export const findRitual = (id: string | undefined, rituals: Ritual[] = allRituals()) =>
+  id ? rituals.find(r => r.id === id) : undefined;
+
+export const ritualTitle = (ritual: Ritual) => (ritual.nameHi ? `${ritual.name} (${ritual.nameHi})` : ritual.name);
+
+export const formatDuration = (minutes: number) => {
+  if (minutes >= 24 * 60) {
+    const days = Math.round(minutes / (24 * 60));
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} hr ${rest} min` : `${hours} hr`;
+};
+
+// Text a ritual puts in the service plan; the first line names the ritual
+export const planFromRitual = (ritual: Ritual) => [
+  ritualTitle(ritual),
+  `Duration: ${formatDuration(ritual.durationMinutes)}`,
+  ritual.samagri.length > 0 ? `Samagri: ${ritual.samagri.join(', ')}` : ''
+].filter(Boolean).join('\n');
+
+// Swaps the text of the previously chosen ritual for the new one, keeping any notes typed below it
+export const replaceRitualInPlan = (plan: string, previous: Ritual | undefined, next: Ritual | undefined) => {
+  const previousText = previous ? planFromRitual(previous) : '';
+  const notes = (previousText && plan.startsWith(previousText) ? plan.slice(previousText.length) : plan).trim();
+  if (!next) return notes;
+  return notes ? `${planFromRitual(next)}\n\n${notes}` : planFromRitual(next);
+};
+
+// Records from before the catalog (or imported ones) are matched on the ritual name the plan starts with
+export const ritualIdOf = (entry: Pick<ClientEntry, 'ritualId' | 'servicePlan'>, rituals: Ritual[] = allRituals()) => {
+  if (entry.ritualId) return entry.ritualId;
+  const plan = entry.servicePlan.trim().toLowerCase();
+  return rituals.find(r => plan.startsWith(r.name.toLowerCase()) || (!!r.nameHi && plan.startsWith(r.nameHi)))?.id;
+};
+
+// One line per samagri item, blank lines dropped
+export const parseSamagri = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
@@ -0,0 +1,20 @@
+import { downloadFile } from './backup';
+
+export type ShareOutcome = 'shared' | 'downloaded' | 'cancelled';
+
+// Opens the phone's share sheet (WhatsApp etc.) with the file where the browser can
+// share files; otherwise the file is downloaded so it can be sent by hand.
+export const shareOrDownload = async (blob: Blob, fileName: string, text: string): Promise<ShareOutcome> => {
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: fileName, text });
+      return 'shared';
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return 'cancelled';
+      console.warn("Share failed, downloading instead", err);
+    }
+  }
+  downloadFile(blob, fileName);
+  return 'downloaded';
+};
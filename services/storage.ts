@@ -0,0 +1,173 @@
+import { ClientEntry } from '../types';
+import { dbService } from './db';
+import { closedDays, isPaymentLocked } from './cashbook';
+
+// Storage overview and the automatic clean-up of old photos / records.
+// The policy is per phone, like the recycle bin retention.
+
+const POLICY_KEY = 'yatra_retention_policy';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RUN_INTERVAL_MS = DAY_MS;
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  photoDays: number | null; // Remove photos from visits older than this (null = keep)
+  recordDays: number | null; // Move visits older than this to the recycle bin (null = keep)
+  lastRunAt: number | null;
+}
+
+export const PHOTO_RETENTION_OPTIONS = [30, 90, 180, 365];
+export const RECORD_RETENTION_OPTIONS = [365, 730, 1095, 1825];
+
+const DEFAULT_POLICY: RetentionPolicy = { enabled: false, photoDays: 180, recordDays: null, lastRunAt: null };
+
+export const loadRetentionPolicy = (): RetentionPolicy => {
+  try {
+    return { ...DEFAULT_POLICY, ...JSON.parse(localStorage.getItem(POLICY_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_POLICY;
+  }
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy) => {
+  localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// --- Browser Quota ---
+
+export const estimateStorage = async (): Promise<{ usage: number, quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (e) {
+    return null;
+  }
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+  try {
+    return !!(await navigator.storage?.persisted?.());
+  } catch (e) {
+    return false;
+  }
+};
+
+// Asks the browser not to evict the database when the phone runs low on space
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    return !!(await navigator.storage?.persist?.());
+  } catch (e) {
+    return false;
+  }
+};
+
+// --- Usage by Category ---
+
+export interface StorageBreakdown {
+  photos: number;
+  signatures: number;
+  backgrounds: number;
+  records: number;
+}
+
+// Inline images are text; count them as their string length
+const textSize = (value: unknown) => (value ? JSON.stringify(value).length : 0);
+
+const addEntry = (usage: StorageBreakdown, { clientPhoto, signatureImage, ...rest }: ClientEntry) => {
+  usage.photos += textSize(clientPhoto);
+  usage.signatures += textSize(signatureImage);
+  usage.records += textSize(rest);
+};
+
+export const measureStorage = async (): Promise<StorageBreakdown> => {
+  const [people, trash, media, backgrounds] = await Promise.all([
+    dbService.getAllPeople(),
+    dbService.getTrash(),
+    dbService.getAllMedia(),
+    dbService.getAllBackgrounds()
+  ]);
+  const usage: StorageBreakdown = { photos: 0, signatures: 0, backgrounds: 0, records: 0 };
+
+  media.forEach(m => {
+    usage[m.kind === 'signature' ? 'signatures' : 'photos'] += m.blob.size + m.thumb.size;
+  });
+  // The ledger is walked one record at a time rather than loaded whole
+  await dbService.scanClients({}, null, entry => { addEntry(usage, entry); });
+  trash.forEach(t => addEntry(usage, t.entry));
+  people.forEach(({ photo, ...rest }) => {
+    usage.photos += textSize(photo);
+    usage.records += textSize(rest);
+  });
+  backgrounds.forEach(bg => { usage.backgrounds += textSize(bg.dataUrl); });
+  return usage;
+};
+
+// --- Retention ---
+
+export interface RetentionPreview {
+  photoCount: number; // Keep the record, lose the photo
+  recordCount: number; // Moved to the recycle bin (without photo)
+  names: string[]; // The first few clients affected
+  bytesFreed: number;
+}
+
+const PREVIEW_NAMES = 5;
+
+// Records with payments on a closed day belong to that day's cash book and are kept
+const lockedRecordCheck = async () => {
+  const closed = closedDays(await dbService.getDayCloses());
+  return (entry: ClientEntry) => (entry.payments || []).some(p => isPaymentLocked(p, closed));
+};
+
+// What a policy would remove right now, using the same cut-offs as the clean-up itself
+export const previewRetention = async (policy: Pick<RetentionPolicy, 'photoDays' | 'recordDays'>): Promise<RetentionPreview> => {
+  const preview: RetentionPreview = { photoCount: 0, recordCount: 0, names: [], bytesFreed: 0 };
+  const now = Date.now();
+  const photoCutoff = policy.photoDays ? now - policy.photoDays * DAY_MS : null;
+  const recordCutoff = policy.recordDays ? now - policy.recordDays * DAY_MS : null;
+  if (!photoCutoff && !recordCutoff) return preview;
+
+  const [media, isLocked] = await Promise.all([dbService.getAllMedia(), lockedRecordCheck()]);
+  const sizeById = new Map(media.map(m => [m.id, m.blob.size + m.thumb.size]));
+  const photoSize = (e: ClientEntry) => (e.photoId ? sizeById.get(e.photoId) || 0 : textSize(e.clientPhoto));
+
+  // Only visits older than the later cut-off can be touched
+  await dbService.scanClients({ to: Math.max(photoCutoff ?? 0, recordCutoff ?? 0) }, null, e => {
+    if (recordCutoff && e.timestamp < recordCutoff && !isLocked(e)) {
+      preview.recordCount++;
+    } else if (photoCutoff && e.timestamp < photoCutoff && (e.photoId || e.clientPhoto)) {
+      preview.photoCount++;
+    } else {
+      return;
+    }
+    preview.bytesFreed += photoSize(e);
+    if (preview.names.length < PREVIEW_NAMES) preview.names.push(e.clientName);
+  });
+  return preview;
+};
+
+export const deleteOldRecords = async (days: number, deletedBy?: string) =>
+  dbService.deleteOldRecords(days, deletedBy, await lockedRecordCheck());
+
+export const applyRetention = async (policy: Pick<RetentionPolicy, 'photoDays' | 'recordDays'>, deletedBy?: string) => {
+  const records = policy.recordDays ? await deleteOldRecords(policy.recordDays, deletedBy) : 0;
+  const photos = policy.photoDays ? await dbService.stripOldPhotos(policy.photoDays) : 0;
+  saveRetentionPolicy({ ...loadRetentionPolicy(), lastRunAt: Date.now() });
+  return { photos, records };
+};
+
+// Runs the saved policy at most once a day; resolves to null when nothing was due
+export const runRetentionIfDue = async (deletedBy?: string) => {
+  const policy = loadRetentionPolicy();
+  if (!policy.enabled || (!policy.photoDays && !policy.recordDays)) return null;
+  if (policy.lastRunAt && Date.now() - policy.lastRunAt < RUN_INTERVAL_MS) return null;
+  return applyRetention(policy, deletedBy);
+};
@@ -0,0 +1,251 @@
+import { SyncChange, MediaRecord } from '../types';
+import { dbService } from './db';
+import { getDeviceId } from './device';
+import { toPayload, fromPayload, mediaIdsOf } from './media';
+
+// Optional sync with a self-hosted server (see sync-server/server.mjs).
+// Every local write is queued in the database outbox; a sync pushes the queue in
+// batches and pulls everything other phones changed since the last cursor.
+// Conflicts are settled the same way on every phone: the newest change wins, and
+// on an exact tie the higher device id wins.
+
+const SETTINGS_KEY = 'yatra_sync_settings';
+const CURSOR_KEY = 'yatra_sync_cursor';
+const PUSH_BATCH_SIZE = 25;
+const REQUEST_TIMEOUT_MS = 30000;
+const SYNC_INTERVAL_MS = 2 * 60 * 1000;
+
+export interface SyncSettings {
+  enabled: boolean;
+  endpoint: string; // e.g. http://192.168.1.20:8787
+  token: string;
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+interface SyncResponse {
+  cursor: number;
+  changes: SyncChange[];
+  more?: boolean;
+}
+
+const DEFAULT_SETTINGS: SyncSettings = { enabled: false, endpoint: '', token: '' };
+
+export const loadSyncSettings = (): SyncSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  const previous = loadSyncSettings();
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, endpoint: settings.endpoint.trim().replace(/\/+$/, '') }));
+  // A different server has its own change numbering
+  if (previous.endpoint !== settings.endpoint) localStorage.removeItem(CURSOR_KEY);
+  updateStatus({ state: settings.enabled ? 'idle' : 'disabled', error: null });
+};
+
+const loadCursor = () => Number(localStorage.getItem(CURSOR_KEY)) || 0;
+
+// Deterministic last-writer-wins ordering shared with the server
+export const isNewer = (a: { updatedAt: number, updatedOn: string }, b: { updatedAt: number, updatedOn: string }) =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.updatedOn > b.updatedOn;
+
+// --- Status ---
+
+type Listener = (status: SyncStatus) => void;
+const listeners = new Set<Listener>();
+
+let status: SyncStatus = {
+  state: loadSyncSettings().enabled ? 'idle' : 'disabled',
+  pending: 0,
+  lastSyncedAt: null,
+  error: null
+};
+
+const updateStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = () => status;
+
+export const subscribeSync = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const refreshPendingCount = async () => {
+  try {
+    updateStatus({ pending: await dbService.countPendingChanges() });
+  } catch (e) {
+    // Database unavailable: nothing can be queued either
+  }
+};
+
+// --- Transport ---
+
+const post = async (settings: SyncSettings, body: object): Promise<SyncResponse> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${settings.endpoint}/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    if (response.status === 401) throw new Error("The sync server rejected the access token.");
+    if (!response.ok) throw new Error(`Sync server error (${response.status}).`);
+    const data = await response.json();
+    if (typeof data?.cursor !== 'number' || !Array.isArray(data?.changes)) {
+      throw new Error("The sync server sent an unexpected reply.");
+    }
+    return data;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Keeps a remote change only if it beats what this phone has (or would push)
+const shouldApply = (change: SyncChange, local: { updatedAt: number, updatedOn: string } | null) =>
+  !local || isNewer(change, local);
+
+// Photos and signatures travel with the records that refer to them
+const attachMedia = async (changes: SyncChange[]): Promise<SyncChange[]> => {
+  const result: SyncChange[] = [];
+  for (const change of changes) {
+    const ids = change.record ? mediaIdsOf(change.record) : [];
+    if (ids.length === 0) {
+      result.push(change);
+      continue;
+    }
+    const media = await dbService.getMedia(ids);
+    result.push({ ...change, media: await Promise.all(media.map(toPayload)) });
+  }
+  return result;
+};
+
+const receivedMedia = async (changes: SyncChange[]): Promise<MediaRecord[]> => {
+  const records: MediaRecord[] = [];
+  for (const change of changes) {
+    for (const payload of change.media || []) {
+      try {
+        records.push(await fromPayload(payload));
+      } catch (e) {
+        console.warn(`Could not read synced image ${payload.id}`, e);
+      }
+    }
+  }
+  return records;
+};
+
+// --- Sync Run ---
+
+let running: Promise<number> | null = null;
+let onRemoteChanges: (() => void) | null = null;
+
+const runSync = async (): Promise<number> => {
+  const settings = loadSyncSettings();
+  if (!settings.enabled || !settings.endpoint) {
+    updateStatus({ state: 'disabled' });
+    return 0;
+  }
+  if (!navigator.onLine) {
+    await refreshPendingCount();
+    updateStatus({ state: 'offline' });
+    return 0;
+  }
+
+  updateStatus({ state: 'syncing', error: null });
+  const deviceId = getDeviceId();
+  let applied = 0;
+
+  try {
+    const { outbox, changes } = await dbService.getOutgoingChanges();
+    let offset = 0;
+    let more = true;
+
+    // Each request pushes one batch (possibly empty) and pulls a page of newer changes
+    while (offset < changes.length || more) {
+      const batch = changes.slice(offset, offset + PUSH_BATCH_SIZE);
+      const reply = await post(settings, { deviceId, since: loadCursor(), changes: await attachMedia(batch) });
+
+      if (batch.length > 0) {
+        const pushedKeys = new Set(batch.map(c => `${c.store}:${c.id}`));
+        await dbService.acknowledgeChanges(outbox.filter(o => pushedKeys.has(o.key)));
+      }
+      if (reply.changes.length > 0) {
+        applied += await dbService.applyRemoteChanges(reply.changes, shouldApply, await receivedMedia(reply.changes));
+      }
+      localStorage.setItem(CURSOR_KEY, String(reply.cursor));
+
+      offset += batch.length;
+      more = !!reply.more;
+    }
+
+    await refreshPendingCount();
+    updateStatus({ state: 'idle', lastSyncedAt: Date.now() });
+    if (applied > 0 && onRemoteChanges) onRemoteChanges();
+  } catch (e: any) {
+    console.warn("Sync failed", e);
+    await refreshPendingCount();
+    // fetch rejects with a TypeError when the server cannot be reached at all
+    if (e instanceof TypeError || e?.name === 'AbortError') {
+      updateStatus({ state: 'offline', error: "Sync server not reachable." });
+    } else {
+      updateStatus({ state: 'error', error: e?.message || "Sync failed." });
+    }
+  }
+  return applied;
+};
+
+// Runs a sync unless one is already in progress; resolves to the number of remote changes applied
+export const syncNow = (): Promise<number> => {
+  if (!running) {
+    running = runSync().finally(() => { running = null; });
+  }
+  return running;
+};
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Called after local saves: waits briefly so a burst of writes goes out together
+export const scheduleSync = () => {
+  refreshPendingCount();
+  if (!loadSyncSettings().enabled) return;
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => { pushTimer = null; syncNow(); }, 3000);
+};
+
+// Starts background syncing; returns a cleanup function
+export const startSync = (handleRemoteChanges: () => void) => {
+  onRemoteChanges = handleRemoteChanges;
+  const handleOnline = () => syncNow();
+  const handleOffline = () => { if (loadSyncSettings().enabled) updateStatus({ state: 'offline' }); };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+  syncNow();
+
+  return () => {
+    onRemoteChanges = null;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    clearInterval(interval);
+    if (pushTimer) clearTimeout(pushTimer);
+  };
+};
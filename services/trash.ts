@@ -0,0 +1,24 @@
+import { TrashEntry } from '../types';
+
+const RETENTION_KEY = 'yatra_trash_retention_days';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 15, 30, 60, 90, 180];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a deleted record stays restorable on this phone
+export const loadTrashRetentionDays = (): number => {
+  try {
+    return Number(localStorage.getItem(RETENTION_KEY)) || DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (e) {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+};
+
+export const saveTrashRetentionDays = (days: number) => {
+  localStorage.setItem(RETENTION_KEY, String(days));
+};
+
+export const daysUntilPurge = (item: TrashEntry, retentionDays: number) =>
+  Math.max(0, Math.ceil((item.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
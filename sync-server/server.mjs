@@ -0,0 +1,159 @@
+// Reference sync server for Yatra Seva. Plain Node, no dependencies.
+//
+//   npm run sync-server
+//
+// Environment:
+//   PORT            port to listen on (default 8787)
+//   SYNC_TOKEN      if set, phones must send "Authorization: Bearer <token>"
+//   SYNC_DATA_FILE  where records are kept (default sync-server/data.json)
+//
+// The server keeps the latest version of every record, numbered with an increasing
+// sequence. A phone sends the changes it has queued plus the last sequence it saw,
+// and gets back everything other phones changed after that.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data.json');
+const PAGE_SIZE = 100;
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Photos and signatures travel inline
+
+const STORES = ['clients', 'people', 'day_closes', 'rituals'];
+
+// { seq, records: { "<store>:<id>": { seq, deviceId, change } } }
+const loadState = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') console.warn(`Could not read ${DATA_FILE}, starting empty:`, e.message);
+    return { seq: 0, records: {} };
+  }
+};
+
+const state = loadState();
+
+// Written to a temporary file first so a crash never leaves half a file behind
+const saveState = () => {
+  const tmp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state));
+  fs.renameSync(tmp, DATA_FILE);
+};
+
+// Same ordering as the app: newest change wins, ties go to the higher device id
+const isNewer = (a, b) =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.updatedOn > b.updatedOn;
+
+const isValidChange = (c) =>
+  c && STORES.includes(c.store) &&
+  (typeof c.id === 'number' || typeof c.id === 'string') &&
+  typeof c.updatedAt === 'number' && typeof c.updatedOn === 'string' &&
+  typeof c.deleted === 'boolean' &&
+  (c.deleted || (c.record && c.record.id === c.id));
+
+const handleSync = ({ deviceId, since, changes }) => {
+  if (typeof deviceId !== 'string' || !deviceId) throw new HttpError(400, 'deviceId is required');
+  if (!Array.isArray(changes)) throw new HttpError(400, 'changes must be an array');
+  if (!changes.every(isValidChange)) throw new HttpError(400, 'Malformed change');
+  const cursorFrom = Number(since) || 0;
+
+  // 1. Push: keep each incoming change only if it beats the stored one
+  const rejected = [];
+  let written = false;
+  for (const change of changes) {
+    const key = `${change.store}:${change.id}`;
+    const stored = state.records[key];
+    if (stored && !isNewer(change, stored.change)) {
+      rejected.push(stored.change);
+      continue;
+    }
+    const { record, ...meta } = change;
+    state.records[key] = { seq: ++state.seq, deviceId, change: change.deleted ? meta : change };
+    written = true;
+  }
+  if (written) saveState();
+
+  // 2. Pull: one page of changes made by other phones after the cursor
+  const newer = Object.values(state.records)
+    .filter(r => r.seq > cursorFrom)
+    .sort((a, b) => a.seq - b.seq);
+
+  const page = [];
+  let cursor = cursorFrom;
+  let index = 0;
+  for (; index < newer.length && page.length < PAGE_SIZE; index++) {
+    cursor = newer[index].seq;
+    if (newer[index].deviceId !== deviceId) page.push(newer[index].change);
+  }
+  if (index === newer.length) cursor = Math.max(cursor, state.seq);
+
+  // The phone lost these conflicts, so it needs the winning versions back
+  const inPage = new Set(page.map(c => `${c.store}:${c.id}`));
+  rejected.forEach(c => { if (!inPage.has(`${c.store}:${c.id}`)) page.push(c); });
+
+  return { cursor, changes: page, more: index < newer.length };
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET' && req.url === '/health') {
+    return send(res, 200, { ok: true, seq: state.seq, records: Object.keys(state.records).length });
+  }
+  if (req.method !== 'POST' || req.url !== '/sync') return send(res, 404, { error: 'Not found' });
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  try {
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      throw new HttpError(400, 'Body must be JSON');
+    }
+    send(res, 200, handleSync(body || {}));
+  } catch (e) {
+    if (!(e instanceof HttpError)) console.error('Sync failed', e);
+    send(res, e.status || 500, { error: e.status ? e.message : 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Yatra sync server listening on http://0.0.0.0:${PORT} (data: ${DATA_FILE})`);
+  if (!TOKEN) console.log('SYNC_TOKEN is not set: any phone on the network can sync.');
+});
@@ -1,11 +1,30 @@
+export type AccessRole = 'head' | 'son' | 'assistant';
+
 export interface Contact {
+  id: string; // Stable key stored on records (registeredBy / performedBy)
   name: string;
   role: string;
+  accessRole: AccessRole; // Default app permissions (the head can change them per phone)
   phone: string;
   colorClass: string;
   initial: string;
 }
 
+export type PaymentMode = 'cash' | 'upi' | 'bank';
+export type PaymentType = 'advance' | 'dakshina' | 'balance';
+
+export interface PaymentTransaction {
+  id: string;
+  amount: number; // INR
+  mode: PaymentMode;
+  type: PaymentType;
+  date: number;
+  reference: string;
+}
+
+// Part of the day a ritual is booked for
+export type TimeSlot = 'brahma' | 'sunrise' | 'morning' | 'afternoon' | 'evening' | 'night' | 'full_day';
+
 export interface ClientEntry {
   id: number;
   uniqueCode: string;
@@ -13,15 +32,169 @@ export interface ClientEntry {
   phone: string;
   address: string;
   servicePlan: string;
-  paymentDetails: string;
+  ritualId?: string; // Ritual chosen from the catalog, if any
+  agreedTotal: number;
+  payments: PaymentTransaction[];
+  paymentNotes?: string;
+  followUpAt?: number; // When to remind the pilgrim about the unpaid balance
+  photoId?: string; // Client photo in the media store
+  signatureId?: string; // Signature in the media store
+  // Inline data URLs: records from before the media store, or a capture not saved there yet
   clientPhoto?: string;
-  signatureImage: string | null;
+  signatureImage?: string | null;
   timestamp: number;
+  personId?: string; // Pilgrim profile / yajman in the vanshavali register
+  registeredBy?: string; // Contact id of the family member who made the entry
+  performedBy?: string; // Contact id of the pandit assigned to the ritual
+  scheduledDate?: string; // Day the ritual is booked for (YYYY-MM-DD)
+  scheduledSlot?: TimeSlot;
+  location?: string; // e.g. Vishram Ghat, Govardhan
+  updatedAt?: number;
+  updatedOn?: string; // Device that made the last change (sync tie-breaker)
+  revisions?: ClientRevision[];
 }
 
-export type ViewState = 'home' | 'add_client' | 'ledger' | 'face_search';
+// A record as it looked before an edit (images are tracked in the diff only)
+export type ClientSnapshot = Omit<ClientEntry, 'revisions' | 'clientPhoto' | 'signatureImage'>;
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ClientRevision {
+  editedAt: number;
+  changes: FieldChange[];
+  snapshot: ClientSnapshot;
+}
+
+// A pilgrim profile and member of a yajman family in the vanshavali (genealogy)
+// register. Every visit (ClientEntry) links back to one person; only parent
+// links are stored, children are derived from them.
+export interface Person {
+  id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  photoId?: string; // Profile photo in the media store
+  photo?: string; // Inline data URL from before the media store
+  gotra: string;
+  nativeVillage: string;
+  parentIds: string[];
+  spouseIds: string[];
+  notes?: string;
+  createdAt: number;
+  updatedAt?: number;
+  updatedOn?: string;
+}
+
+export type ViewState = 'home' | 'add_client' | 'ledger' | 'face_search' | 'vanshavali' | 'client_detail' | 'trash' | 'storage' | 'reports' | 'day_close' | 'dues' | 'calendar';
 
 export interface BackgroundImage {
   id: string;
   dataUrl: string;
-}
\ No newline at end of file
+}
+
+// --- Media ---
+
+export type MediaKind = 'photo' | 'signature';
+
+// Photos and signatures are stored once as Blobs and referenced by id
+export interface MediaRecord {
+  id: string;
+  kind: MediaKind;
+  blob: Blob;
+  thumb: Blob; // Small preview for list views
+  createdAt: number;
+}
+
+// Media as carried in backups and sync messages
+export interface MediaPayload {
+  id: string;
+  kind: MediaKind;
+  data: string; // Data URL
+  thumb: string; // Data URL
+  createdAt: number;
+}
+
+// --- Day Close ---
+
+// The end-of-day count of one day's receipts. Once saved, payments dated that day
+// can no longer be changed.
+export interface DayClose {
+  id: string; // Day as YYYY-MM-DD
+  expected: Record<PaymentMode, number>; // From the register
+  counted: Record<PaymentMode, number>; // Cash in hand, UPI / bank messages
+  difference: number; // Counted minus expected
+  note: string;
+  paymentIds: string[]; // Payments the totals were made from
+  closedBy?: string; // Contact id
+  closedAt: number;
+  updatedAt?: number;
+  updatedOn?: string;
+}
+
+// --- Ritual Catalog ---
+
+// A ritual offered when booking, with its standard dakshina and samagri
+export interface Ritual {
+  id: string;
+  name: string;
+  nameHi: string;
+  dakshina: number; // Standard amount in rupees
+  durationMinutes: number;
+  samagri: string[];
+  archived?: boolean; // Removed from the catalog; kept so older bookings still show its name
+  updatedAt?: number;
+  updatedOn?: string;
+}
+
+// --- Multi-device Sync ---
+
+export type SyncStoreName = 'clients' | 'people' | 'day_closes' | 'rituals';
+
+// One record's latest state as exchanged with the sync server
+export interface SyncChange {
+  store: SyncStoreName;
+  id: number | string;
+  updatedAt: number;
+  updatedOn: string;
+  deleted: boolean;
+  deletedBy?: string; // Contact id, so other phones can file the record in their recycle bin
+  record?: ClientEntry | Person | DayClose | Ritual;
+  media?: MediaPayload[]; // Photos / signatures the record refers to
+}
+
+// A local change waiting to be pushed
+export interface OutboxEntry {
+  key: string; // `${store}:${id}`
+  store: SyncStoreName;
+  id: number | string;
+  deleted: boolean;
+  queuedAt: number;
+  // Tombstones have no record left to read these from
+  updatedAt?: number;
+  updatedOn?: string;
+  deletedBy?: string;
+}
+
+// --- Recycle Bin ---
+
+// A deleted record, kept until restored or purged
+export interface TrashEntry {
+  id: number; // Same as entry.id
+  entry: ClientEntry;
+  deletedAt: number;
+  deletedBy?: string; // Contact id
+  reason: 'deleted' | 'cleanup'; // Cleanup removes the photo to free space
+}
+
+// --- Ledger Paging ---
+
+// Position after the last record of a page (records are ordered newest first)
+export interface ClientCursor {
+  timestamp: number;
+  id: number;
+}